@@ -0,0 +1,179 @@
+import type {
+	ChecksumAlgorithm,
+	FirebaseStorage,
+	StorageAdapter,
+	StorageObjectMetadata,
+	StorageUploadMetadata,
+	StorageUploadObserver,
+	StorageUploadSnapshot,
+	StorageUploadTask
+} from '../types.js';
+
+import {
+	ref,
+	uploadBytesResumable,
+	getDownloadURL,
+	deleteObject,
+	getMetadata
+} from 'firebase/storage';
+import { ResumableUploadClient } from './resumable-upload-client.svelte.js';
+import type {
+	FullMetadata,
+	UploadTask as FirebaseUploadTask,
+	UploadTaskSnapshot
+} from 'firebase/storage';
+
+export interface FirebaseStorageAdapterOptions {
+	/**
+	 * Upload through resumable sessions that can continue after a page reload.
+	 * Returns the signed-in user's ID token, e.g. `() => auth.currentUser?.getIdToken()`.
+	 * Without it, uploads use `uploadBytesResumable` and start over after a reload.
+	 */
+	getAuthToken?: () => Promise<string | null | undefined>;
+	chunkSize?: number; // Resumable session chunk size. Default: 8MB
+	host?: string; // Default: 'firebasestorage.googleapis.com'
+}
+
+/**
+ * Storage adapter backed by Firebase Storage.
+ *
+ * This is the default adapter, created automatically by
+ * `FirebaseUploadManager.setStorage()`.
+ *
+ * @example
+ * ```typescript
+ * import { getStorage } from 'firebase/storage';
+ *
+ * const adapter = new FirebaseStorageAdapter(getStorage());
+ * manager.setStorageAdapter(adapter);
+ *
+ * // Uploads that survive a reload
+ * const resumable = new FirebaseStorageAdapter(getStorage(), {
+ *   getAuthToken: async () => getAuth().currentUser?.getIdToken()
+ * });
+ * ```
+ */
+export class FirebaseStorageAdapter implements StorageAdapter {
+	readonly name = 'firebase';
+
+	private _resumableClient: ResumableUploadClient | null = null;
+
+	constructor(
+		private _storage: FirebaseStorage,
+		options: FirebaseStorageAdapterOptions = {}
+	) {
+		const { getAuthToken } = options;
+		if (getAuthToken) {
+			const host = options.host || 'firebasestorage.googleapis.com';
+			const bucket = _storage.app.options.storageBucket;
+			this._resumableClient = new ResumableUploadClient({
+				endpoint: (path) => `https://${host}/v0/b/${bucket}/o?name=${encodeURIComponent(path)}`,
+				getHeaders: async (): Promise<Record<string, string>> => {
+					const token = await getAuthToken();
+					return token ? { Authorization: `Firebase ${token}` } : {};
+				},
+				chunkSize: options.chunkSize
+			});
+		}
+	}
+
+	// The Firebase SDK leaves crc32c out of object metadata, resumable sessions return both
+	get checksums(): readonly ChecksumAlgorithm[] {
+		return this._resumableClient ? ['md5', 'crc32c'] : ['md5'];
+	}
+
+	upload(path: string, data: Blob, metadata?: StorageUploadMetadata): StorageUploadTask {
+		if (this._resumableClient) {
+			return this._resumableClient.upload(path, data, metadata);
+		}
+
+		const task = uploadBytesResumable(ref(this._storage, path), data, metadata);
+		return new FirebaseUploadTaskHandle(task);
+	}
+
+	async resume(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata?: StorageUploadMetadata
+	): Promise<StorageUploadTask | null> {
+		if (!this._resumableClient) return null;
+		return this._resumableClient.resume(sessionUrl, path, data, metadata);
+	}
+
+	async getURL(path: string): Promise<string> {
+		return getDownloadURL(ref(this._storage, path));
+	}
+
+	async delete(path: string): Promise<void> {
+		await deleteObject(ref(this._storage, path));
+	}
+
+	async head(path: string): Promise<StorageObjectMetadata | null> {
+		try {
+			const metadata = await getMetadata(ref(this._storage, path));
+			return toObjectMetadata(metadata);
+		} catch (error: any) {
+			if (error?.code === 'storage/object-not-found') {
+				return null;
+			}
+			throw error;
+		}
+	}
+}
+
+// Wraps a Firebase UploadTask in the adapter task interface
+class FirebaseUploadTaskHandle implements StorageUploadTask {
+	constructor(private _task: FirebaseUploadTask) {}
+
+	get snapshot(): StorageUploadSnapshot {
+		return toSnapshot(this._task.snapshot);
+	}
+
+	on(observer: StorageUploadObserver): () => void {
+		return this._task.on(
+			'state_changed',
+			(snapshot) => observer.next?.(toSnapshot(snapshot)),
+			(error) => observer.error?.(error),
+			() => observer.complete?.(toSnapshot(this._task.snapshot))
+		);
+	}
+
+	pause(): boolean {
+		return this._task.pause();
+	}
+
+	resume(): boolean {
+		return this._task.resume();
+	}
+
+	cancel(): boolean {
+		return this._task.cancel();
+	}
+}
+
+function toSnapshot(snapshot: UploadTaskSnapshot): StorageUploadSnapshot {
+	return {
+		bytesTransferred: snapshot.bytesTransferred,
+		totalBytes: snapshot.totalBytes,
+		state: snapshot.state,
+		metadata: snapshot.metadata ? toObjectMetadata(snapshot.metadata) : undefined
+	};
+}
+
+function toObjectMetadata(metadata: FullMetadata): StorageObjectMetadata {
+	return {
+		fullPath: metadata.fullPath,
+		size: metadata.size,
+		contentType: metadata.contentType,
+		cacheControl: metadata.cacheControl,
+		contentDisposition: metadata.contentDisposition,
+		contentEncoding: metadata.contentEncoding,
+		contentLanguage: metadata.contentLanguage,
+		md5Hash: metadata.md5Hash,
+		crc32c: (metadata as FullMetadata & { crc32c?: string }).crc32c,
+		customMetadata: metadata.customMetadata,
+		timeCreated: metadata.timeCreated,
+		updated: metadata.updated
+	};
+}
@@ -0,0 +1,382 @@
+import type {
+	StorageAdapter,
+	StorageObjectMetadata,
+	StorageTaskState,
+	StorageUploadMetadata,
+	StorageUploadObserver,
+	StorageUploadSnapshot,
+	StorageUploadTask
+} from '../types.js';
+
+interface StoredObject {
+	data: Blob;
+	metadata: StorageObjectMetadata;
+}
+
+/**
+ * A scripted upload failure.
+ *
+ * The failure is raised once the upload has transferred `atByte` bytes and is
+ * consumed after it has fired `times` times.
+ */
+export interface MemoryStorageFailure {
+	code: string; // Firebase error code, with or without the 'storage/' prefix
+	atByte?: number; // Default: 0 (fail before any bytes are sent)
+	path?: string | RegExp; // Default: every path
+	times?: number; // Default: 1
+	status?: number; // HTTP status attached to the error
+	message?: string;
+}
+
+export interface MemoryStorageAdapterOptions {
+	baseURL?: string; // Prefix for URLs returned by getURL()
+	bytesPerSecond?: number; // Simulated throughput. Default: Infinity (single snapshot)
+	tickInterval?: number; // Milliseconds between progress snapshots. Default: 100
+	latency?: number; // Milliseconds before the first byte is sent. Default: 0
+	failures?: MemoryStorageFailure[];
+}
+
+interface ScheduledFailure extends MemoryStorageFailure {
+	remaining: number;
+}
+
+/**
+ * In-memory storage adapter for tests and local development.
+ *
+ * Objects are kept in a Map keyed by path. Uploads report `state_changed`-style
+ * progress snapshots through the same observer interface as Firebase, so upload
+ * flows can be exercised without the Firebase emulator.
+ *
+ * Behaviour is deterministic and driven only by `setTimeout`, which makes it
+ * work with fake timers:
+ * - `bytesPerSecond` and `tickInterval` control how progress snapshots advance
+ * - `latency` delays the first byte of every upload
+ * - `failures` inject Firebase errors (e.g. `storage/retry-limit-exceeded`,
+ *   `storage/unauthorized`) at given byte offsets
+ * - every upload has a resumable session that `resume()` continues from its
+ *   last transferred byte until `expireSessions()` is called
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MemoryStorageAdapter({
+ *   bytesPerSecond: 1024 * 1024,
+ *   tickInterval: 100,
+ *   failures: [{ code: 'storage/retry-limit-exceeded', atByte: 512 * 1024 }]
+ * });
+ * const manager = new FirebaseUploadManager({ storageAdapter: adapter });
+ *
+ * await manager.addFiles([file]);
+ * await manager.start();
+ *
+ * adapter.getObject('uploads/photo.jpg'); // Blob once the upload completes
+ * adapter.getUploadAttempts('uploads/photo.jpg'); // 2 - first attempt failed
+ * ```
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+	readonly name = 'memory';
+
+	private static readonly DEFAULT_TICK_INTERVAL = 100;
+
+	private _objects: Map<string, StoredObject> = new Map();
+	private _failures: ScheduledFailure[] = [];
+	private _uploadAttempts: Map<string, number> = new Map();
+	private _sessions: Map<string, { path: string; bytesTransferred: number }> = new Map();
+	private _sessionCount = 0;
+	private _baseURL: string;
+	private _bytesPerSecond: number;
+	private _tickInterval: number;
+	private _latency: number;
+
+	constructor(options: MemoryStorageAdapterOptions = {}) {
+		this._baseURL = options.baseURL || 'memory://storage';
+		this._bytesPerSecond = options.bytesPerSecond ?? Infinity;
+		this._tickInterval = options.tickInterval ?? MemoryStorageAdapter.DEFAULT_TICK_INTERVAL;
+		this._latency = options.latency ?? 0;
+		(options.failures || []).forEach((failure) => this.injectFailure(failure));
+	}
+
+	upload(path: string, data: Blob, metadata: StorageUploadMetadata = {}): StorageUploadTask {
+		this._uploadAttempts.set(path, (this._uploadAttempts.get(path) || 0) + 1);
+
+		const sessionUrl = `${this._baseURL}/sessions/${++this._sessionCount}`;
+		this._sessions.set(sessionUrl, { path, bytesTransferred: 0 });
+		return this._createTask(sessionUrl, path, data, metadata);
+	}
+
+	async resume(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata: StorageUploadMetadata = {}
+	): Promise<StorageUploadTask | null> {
+		const session = this._sessions.get(sessionUrl);
+		if (!session || session.path !== path || session.bytesTransferred > data.size) return null;
+
+		return this._createTask(sessionUrl, path, data, metadata);
+	}
+
+	async getURL(path: string): Promise<string> {
+		if (!this._objects.has(path)) {
+			throw createStorageError('object-not-found', `Object '${path}' does not exist.`, 404);
+		}
+		return `${this._baseURL}/${encodeURIComponent(path)}`;
+	}
+
+	async delete(path: string): Promise<void> {
+		if (!this._objects.delete(path)) {
+			throw createStorageError('object-not-found', `Object '${path}' does not exist.`, 404);
+		}
+	}
+
+	async head(path: string): Promise<StorageObjectMetadata | null> {
+		const object = this._objects.get(path);
+		return object ? { ...object.metadata } : null;
+	}
+
+	// Scripting helpers for tests
+
+	// Schedule a failure for upcoming uploads
+	injectFailure(failure: MemoryStorageFailure): void {
+		this._failures.push({ ...failure, remaining: failure.times ?? 1 });
+	}
+
+	// Make every open session unknown to resume(), as if it expired
+	expireSessions(): void {
+		this._sessions.clear();
+	}
+
+	// Change simulated throughput for uploads started from now on
+	setBytesPerSecond(bytesPerSecond: number): void {
+		this._bytesPerSecond = bytesPerSecond;
+	}
+
+	// Inspection helpers for tests
+
+	getObject(path: string): Blob | null {
+		return this._objects.get(path)?.data ?? null;
+	}
+
+	listPaths(): string[] {
+		return Array.from(this._objects.keys());
+	}
+
+	// Number of upload tasks started for a path
+	getUploadAttempts(path: string): number {
+		return this._uploadAttempts.get(path) || 0;
+	}
+
+	clear(): void {
+		this._objects.clear();
+		this._failures = [];
+		this._uploadAttempts.clear();
+		this._sessions.clear();
+	}
+
+	private _createTask(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata: StorageUploadMetadata
+	): StorageUploadTask {
+		return new MemoryUploadTask({
+			sessionUrl,
+			startByte: this._sessions.get(sessionUrl)!.bytesTransferred,
+			totalBytes: data.size,
+			bytesPerTick: this._bytesPerTick(),
+			tickInterval: this._tickInterval,
+			latency: this._latency,
+			takeFailure: (from, to) => this._takeFailure(path, from, to),
+			onProgress: (bytesTransferred) => {
+				const session = this._sessions.get(sessionUrl);
+				if (session) session.bytesTransferred = bytesTransferred;
+			},
+			commit: () => {
+				this._sessions.delete(sessionUrl);
+				const objectMetadata: StorageObjectMetadata = {
+					fullPath: path,
+					size: data.size,
+					contentType: metadata.contentType || data.type || undefined,
+					cacheControl: metadata.cacheControl,
+					contentDisposition: metadata.contentDisposition,
+					contentEncoding: metadata.contentEncoding,
+					contentLanguage: metadata.contentLanguage,
+					customMetadata: metadata.customMetadata ? { ...metadata.customMetadata } : undefined,
+					timeCreated: new Date().toISOString(),
+					updated: new Date().toISOString()
+				};
+				this._objects.set(path, { data, metadata: objectMetadata });
+				return objectMetadata;
+			}
+		});
+	}
+
+	private _bytesPerTick(): number {
+		if (!Number.isFinite(this._bytesPerSecond)) return Infinity;
+		return Math.max(1, Math.floor((this._bytesPerSecond * this._tickInterval) / 1000));
+	}
+
+	// Find and consume the first failure for this path within a byte range
+	private _takeFailure(path: string, from: number, to: number): ScheduledFailure | null {
+		const failure = this._failures.find((candidate) => {
+			const atByte = candidate.atByte ?? 0;
+			return atByte >= from && atByte <= to && matchesPath(candidate.path, path);
+		});
+		if (!failure) return null;
+
+		failure.remaining--;
+		if (failure.remaining <= 0) {
+			this._failures = this._failures.filter((candidate) => candidate !== failure);
+		}
+		return failure;
+	}
+}
+
+interface MemoryUploadTaskOptions {
+	sessionUrl: string;
+	startByte: number;
+	totalBytes: number;
+	bytesPerTick: number;
+	tickInterval: number;
+	latency: number;
+	takeFailure: (from: number, to: number) => MemoryStorageFailure | null;
+	onProgress: (bytesTransferred: number) => void;
+	commit: () => StorageObjectMetadata;
+}
+
+class MemoryUploadTask implements StorageUploadTask {
+	private _observers: Set<StorageUploadObserver> = new Set();
+	private _state: StorageTaskState = 'running';
+	private _bytesTransferred: number;
+	private _metadata?: StorageObjectMetadata;
+	private _timer?: ReturnType<typeof setTimeout>;
+
+	constructor(private _options: MemoryUploadTaskOptions) {
+		this._bytesTransferred = _options.startByte;
+		this._schedule(_options.latency);
+	}
+
+	get snapshot(): StorageUploadSnapshot {
+		return {
+			bytesTransferred: this._bytesTransferred,
+			totalBytes: this._options.totalBytes,
+			state: this._state,
+			metadata: this._metadata,
+			sessionUrl: this._options.sessionUrl
+		};
+	}
+
+	on(observer: StorageUploadObserver): () => void {
+		this._observers.add(observer);
+		return () => {
+			this._observers.delete(observer);
+		};
+	}
+
+	pause(): boolean {
+		if (this._state !== 'running') return false;
+		this._state = 'paused';
+		this._clearTimer();
+		this._emitProgress();
+		return true;
+	}
+
+	resume(): boolean {
+		if (this._state !== 'paused') return false;
+		this._state = 'running';
+		this._emitProgress();
+		this._schedule(0);
+		return true;
+	}
+
+	cancel(): boolean {
+		if (this._state !== 'running' && this._state !== 'paused') return false;
+		this._fail(createStorageError('canceled', 'User canceled the upload/download.'), 'canceled');
+		return true;
+	}
+
+	private _schedule(delay: number): void {
+		this._timer = setTimeout(() => this._tick(), delay);
+	}
+
+	// Send the next chunk, stopping early at a scripted failure offset
+	private _tick(): void {
+		this._timer = undefined;
+		if (this._state !== 'running') return;
+
+		const { totalBytes, bytesPerTick, tickInterval } = this._options;
+		const target = Math.min(totalBytes, this._bytesTransferred + bytesPerTick);
+		const failure = this._options.takeFailure(this._bytesTransferred, target);
+
+		if (failure) {
+			const atByte = Math.min(failure.atByte ?? 0, totalBytes);
+			if (atByte > this._bytesTransferred) {
+				this._bytesTransferred = atByte;
+				this._emitProgress();
+			}
+			this._fail(
+				createStorageError(
+					failure.code.replace(/^storage\//, ''),
+					failure.message || `Simulated failure at byte ${atByte}.`,
+					failure.status
+				),
+				'error'
+			);
+			return;
+		}
+
+		this._bytesTransferred = target;
+
+		if (this._bytesTransferred < totalBytes) {
+			this._emitProgress();
+			this._schedule(tickInterval);
+			return;
+		}
+
+		this._metadata = this._options.commit();
+		this._emitProgress();
+
+		this._state = 'success';
+		const snapshot = this.snapshot;
+		this._observers.forEach((observer) => observer.complete?.(snapshot));
+	}
+
+	private _fail(error: Error, state: StorageTaskState): void {
+		this._state = state;
+		this._clearTimer();
+		this._observers.forEach((observer) => observer.error?.(error));
+	}
+
+	private _emitProgress(): void {
+		this._options.onProgress(this._bytesTransferred);
+		const snapshot = this.snapshot;
+		this._observers.forEach((observer) => observer.next?.(snapshot));
+	}
+
+	private _clearTimer(): void {
+		if (this._timer) {
+			clearTimeout(this._timer);
+			this._timer = undefined;
+		}
+	}
+}
+
+function matchesPath(pattern: string | RegExp | undefined, path: string): boolean {
+	if (pattern === undefined) return true;
+	return typeof pattern === 'string' ? pattern === path : pattern.test(path);
+}
+
+// Build an error shaped like Firebase's StorageError (`storage/<code>`)
+function createStorageError(
+	code: string,
+	message: string,
+	status?: number
+): Error & { code: string; status?: number } {
+	const error = new Error(`Firebase Storage: ${message} (storage/${code})`) as Error & {
+		code: string;
+		status?: number;
+	};
+	error.name = 'FirebaseError';
+	error.code = `storage/${code}`;
+	error.status = status;
+	return error;
+}
@@ -0,0 +1,374 @@
+import type {
+	StorageObjectMetadata,
+	StorageTaskState,
+	StorageUploadMetadata,
+	StorageUploadObserver,
+	StorageUploadSnapshot,
+	StorageUploadTask
+} from '../types.js';
+
+export interface ResumableUploadClientOptions {
+	// URL that starts an upload session for an object path
+	endpoint: (path: string) => string;
+	// Extra request headers, e.g. `Authorization`
+	getHeaders?: () => Promise<Record<string, string>>;
+	chunkSize?: number; // Rounded down to a multiple of 256KB. Default: 8MB
+	fetch?: typeof fetch;
+}
+
+export interface ResumableSessionStatus {
+	committedBytes: number; // Bytes the backend has stored
+	final: boolean; // The upload was already finalized
+}
+
+interface ChunkResult {
+	committedBytes: number;
+	metadata?: StorageObjectMetadata;
+}
+
+/**
+ * Client for the resumable upload protocol used by Firebase Storage and GCS
+ * (`X-Goog-Upload-*` headers).
+ *
+ * Unlike `uploadBytesResumable`, the session URL is exposed on every progress
+ * snapshot, so an upload interrupted by a reload can continue from the last
+ * committed byte with `resume()`.
+ *
+ * @example
+ * ```typescript
+ * const client = new ResumableUploadClient({
+ *   endpoint: (path) => `https://firebasestorage.googleapis.com/v0/b/${bucket}/o?name=${encodeURIComponent(path)}`,
+ *   getHeaders: async () => ({ Authorization: `Firebase ${await user.getIdToken()}` })
+ * });
+ *
+ * const task = client.upload('uploads/video.mp4', file);
+ * task.on({ next: (snapshot) => save(snapshot.sessionUrl, snapshot.bytesTransferred) });
+ *
+ * // After a reload
+ * const resumed = await client.resume(sessionUrl, 'uploads/video.mp4', file);
+ * ```
+ */
+export class ResumableUploadClient {
+	// GCS only accepts chunks that are a multiple of 256KB, except the last one
+	private static readonly CHUNK_ALIGNMENT = 256 * 1024;
+	private static readonly DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+	private _options: ResumableUploadClientOptions;
+	private _chunkSize: number;
+
+	constructor(options: ResumableUploadClientOptions) {
+		this._options = options;
+
+		const alignment = ResumableUploadClient.CHUNK_ALIGNMENT;
+		const chunkSize = options.chunkSize ?? ResumableUploadClient.DEFAULT_CHUNK_SIZE;
+		this._chunkSize = Math.max(alignment, Math.floor(chunkSize / alignment) * alignment);
+	}
+
+	// Start a new session and upload `data` to it
+	upload(path: string, data: Blob, metadata: StorageUploadMetadata = {}): StorageUploadTask {
+		return new ResumableUploadTask(this, path, data, metadata, null, 0);
+	}
+
+	/**
+	 * Continue an upload from the last byte the session committed.
+	 *
+	 * @returns The running task, or `null` if the session expired, is unknown or was finalized
+	 */
+	async resume(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata: StorageUploadMetadata = {}
+	): Promise<StorageUploadTask | null> {
+		const status = await this.querySession(sessionUrl);
+		// Finalized sessions can't take more bytes, so those start over too
+		if (!status || status.final || status.committedBytes > data.size) return null;
+
+		return new ResumableUploadTask(this, path, data, metadata, sessionUrl, status.committedBytes);
+	}
+
+	// Open a session for `size` bytes and return its URL
+	async startSession(path: string, size: number, metadata: StorageUploadMetadata): Promise<string> {
+		const response = await this._send(this._options.endpoint(path), {
+			headers: {
+				'Content-Type': 'application/json; charset=utf-8',
+				'X-Goog-Upload-Protocol': 'resumable',
+				'X-Goog-Upload-Command': 'start',
+				'X-Goog-Upload-Header-Content-Length': String(size),
+				...(metadata.contentType
+					? { 'X-Goog-Upload-Header-Content-Type': metadata.contentType }
+					: {})
+			},
+			body: JSON.stringify({
+				name: path,
+				contentType: metadata.contentType,
+				cacheControl: metadata.cacheControl,
+				contentDisposition: metadata.contentDisposition,
+				contentEncoding: metadata.contentEncoding,
+				contentLanguage: metadata.contentLanguage,
+				metadata: metadata.customMetadata
+			})
+		});
+
+		const sessionUrl = response.headers.get('X-Goog-Upload-URL');
+		if (!sessionUrl) {
+			throw createStorageError('unknown', 'The server did not return an upload session URL.');
+		}
+		return sessionUrl;
+	}
+
+	// Ask how much of a session is stored, null when the session no longer exists
+	async querySession(sessionUrl: string): Promise<ResumableSessionStatus | null> {
+		let response: Response;
+		try {
+			response = await this._send(sessionUrl, {
+				headers: { 'X-Goog-Upload-Command': 'query' }
+			});
+		} catch (error) {
+			if (isSessionGone(error)) return null;
+			throw error;
+		}
+
+		return {
+			committedBytes: Number(response.headers.get('X-Goog-Upload-Size-Received')) || 0,
+			final: response.headers.get('X-Goog-Upload-Status') === 'final'
+		};
+	}
+
+	// Send the bytes at `offset`, finalizing the object with the last chunk
+	async uploadChunk(
+		sessionUrl: string,
+		chunk: Blob,
+		offset: number,
+		finalize: boolean,
+		signal?: AbortSignal
+	): Promise<ChunkResult> {
+		const response = await this._send(sessionUrl, {
+			headers: {
+				'X-Goog-Upload-Command': finalize ? 'upload, finalize' : 'upload',
+				'X-Goog-Upload-Offset': String(offset)
+			},
+			body: chunk,
+			signal
+		});
+
+		const received = response.headers.get('X-Goog-Upload-Size-Received');
+		const committedBytes = received !== null ? Number(received) : offset + chunk.size;
+		if (!finalize) return { committedBytes };
+
+		return { committedBytes, metadata: toObjectMetadata(await response.json()) };
+	}
+
+	getChunkSize(): number {
+		return this._chunkSize;
+	}
+
+	private async _send(
+		url: string,
+		init: { headers: Record<string, string>; body?: BodyInit; signal?: AbortSignal }
+	): Promise<Response> {
+		const fetchImpl = this._options.fetch ?? fetch;
+		const extraHeaders = (await this._options.getHeaders?.()) ?? {};
+
+		const response = await fetchImpl(url, {
+			method: 'POST',
+			headers: { ...extraHeaders, ...init.headers },
+			body: init.body,
+			signal: init.signal
+		});
+
+		if (!response.ok) {
+			throw errorFromStatus(response.status);
+		}
+		return response;
+	}
+}
+
+// Uploads a blob chunk by chunk to a resumable session
+class ResumableUploadTask implements StorageUploadTask {
+	private _observers: Set<StorageUploadObserver> = new Set();
+	private _state: StorageTaskState = 'running';
+	private _metadata?: StorageObjectMetadata;
+	private _running = false;
+	private _abort?: AbortController;
+
+	constructor(
+		private _client: ResumableUploadClient,
+		private _path: string,
+		private _data: Blob,
+		private _uploadMetadata: StorageUploadMetadata,
+		private _sessionUrl: string | null,
+		private _bytesTransferred: number
+	) {
+		// Let the caller subscribe before the first snapshot
+		queueMicrotask(() => this._run());
+	}
+
+	get snapshot(): StorageUploadSnapshot {
+		return {
+			bytesTransferred: this._bytesTransferred,
+			totalBytes: this._data.size,
+			state: this._state,
+			metadata: this._metadata,
+			sessionUrl: this._sessionUrl ?? undefined
+		};
+	}
+
+	on(observer: StorageUploadObserver): () => void {
+		this._observers.add(observer);
+		return () => {
+			this._observers.delete(observer);
+		};
+	}
+
+	// Takes effect after the chunk in flight
+	pause(): boolean {
+		if (this._state !== 'running') return false;
+		this._state = 'paused';
+		this._emitProgress();
+		return true;
+	}
+
+	resume(): boolean {
+		if (this._state !== 'paused') return false;
+		this._state = 'running';
+		this._emitProgress();
+		this._run();
+		return true;
+	}
+
+	cancel(): boolean {
+		if (this._state !== 'running' && this._state !== 'paused') return false;
+		this._state = 'canceled';
+		this._abort?.abort();
+		this._notifyError(createStorageError('canceled', 'User canceled the upload/download.'));
+		return true;
+	}
+
+	private async _run(): Promise<void> {
+		if (this._running) return;
+		this._running = true;
+
+		try {
+			while (this._state === 'running' && !this._metadata) {
+				await this._uploadNextChunk();
+			}
+		} catch (error) {
+			if (this._state === 'canceled') return;
+			this._state = 'error';
+			this._notifyError(error as Error);
+			return;
+		} finally {
+			this._running = false;
+		}
+
+		if (this._state === 'running' && this._metadata) {
+			this._state = 'success';
+			const snapshot = this.snapshot;
+			this._observers.forEach((observer) => observer.complete?.(snapshot));
+		}
+	}
+
+	private async _uploadNextChunk(): Promise<void> {
+		if (!this._sessionUrl) {
+			this._sessionUrl = await this._client.startSession(
+				this._path,
+				this._data.size,
+				this._uploadMetadata
+			);
+			this._emitProgress();
+			return;
+		}
+
+		const offset = this._bytesTransferred;
+		const end = Math.min(this._data.size, offset + this._client.getChunkSize());
+		const finalize = end === this._data.size;
+
+		this._abort = new AbortController();
+		let result: ChunkResult;
+		try {
+			result = await this._client.uploadChunk(
+				this._sessionUrl,
+				this._data.slice(offset, end),
+				offset,
+				finalize,
+				this._abort.signal
+			);
+		} catch (error) {
+			if (!isSessionGone(error)) throw error;
+
+			// The session expired: start over in a new one
+			this._sessionUrl = null;
+			this._bytesTransferred = 0;
+			this._emitProgress();
+			return;
+		}
+
+		if (this._state === 'canceled') return;
+		this._bytesTransferred = result.committedBytes;
+		this._metadata = result.metadata;
+		this._emitProgress();
+	}
+
+	private _emitProgress(): void {
+		const snapshot = this.snapshot;
+		this._observers.forEach((observer) => observer.next?.(snapshot));
+	}
+
+	private _notifyError(error: Error): void {
+		this._observers.forEach((observer) => observer.error?.(error));
+	}
+}
+
+// Map an HTTP failure to a Firebase-style storage error
+function errorFromStatus(status: number): Error {
+	switch (status) {
+		case 401:
+			return createStorageError('unauthenticated', 'User is not authenticated.', status);
+		case 403:
+			return createStorageError('unauthorized', 'User does not have permission.', status);
+		case 404:
+		case 410:
+			return createStorageError('object-not-found', 'The upload session no longer exists.', status);
+		default:
+			return createStorageError('unknown', `Upload request failed with status ${status}.`, status);
+	}
+}
+
+function isSessionGone(error: unknown): boolean {
+	const status = (error as { status?: number })?.status;
+	return status === 404 || status === 410;
+}
+
+function toObjectMetadata(resource: Record<string, any>): StorageObjectMetadata {
+	return {
+		fullPath: resource.name,
+		size: Number(resource.size),
+		contentType: resource.contentType,
+		cacheControl: resource.cacheControl,
+		contentDisposition: resource.contentDisposition,
+		contentEncoding: resource.contentEncoding,
+		contentLanguage: resource.contentLanguage,
+		md5Hash: resource.md5Hash,
+		crc32c: resource.crc32c,
+		customMetadata: resource.metadata,
+		timeCreated: resource.timeCreated,
+		updated: resource.updated
+	};
+}
+
+// Build an error shaped like Firebase's StorageError (`storage/<code>`)
+function createStorageError(
+	code: string,
+	message: string,
+	status?: number
+): Error & { code: string; status?: number } {
+	const error = new Error(`Firebase Storage: ${message} (storage/${code})`) as Error & {
+		code: string;
+		status?: number;
+	};
+	error.name = 'FirebaseError';
+	error.code = `storage/${code}`;
+	error.status = status;
+	return error;
+}
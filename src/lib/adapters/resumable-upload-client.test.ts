@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ResumableUploadClient } from './resumable-upload-client.svelte.js';
+import type { StorageUploadSnapshot, StorageUploadTask } from '../types.js';
+
+const CHUNK_SIZE = 256 * 1024;
+
+// Minimal resumable upload server speaking the X-Goog-Upload protocol
+function createServer() {
+	const sessions = new Map<
+		string,
+		{ name: string; size: number; received: number; final: boolean }
+	>();
+	const requests: Array<{ command: string; offset?: number; bytes?: number }> = [];
+	let count = 0;
+
+	const fetch = vi.fn(async (url: string, init: RequestInit) => {
+		const headers = init.headers as Record<string, string>;
+		const command = headers['X-Goog-Upload-Command'];
+
+		if (command === 'start') {
+			const sessionUrl = `https://upload.test/session/${++count}`;
+			const { name } = JSON.parse(init.body as string);
+			sessions.set(sessionUrl, {
+				name,
+				size: Number(headers['X-Goog-Upload-Header-Content-Length']),
+				received: 0,
+				final: false
+			});
+			requests.push({ command });
+			return new Response(null, { headers: { 'X-Goog-Upload-URL': sessionUrl } });
+		}
+
+		const session = sessions.get(url);
+		if (!session) return new Response(null, { status: 404 });
+
+		if (command === 'query') {
+			requests.push({ command });
+			return new Response(null, {
+				headers: {
+					'X-Goog-Upload-Size-Received': String(session.received),
+					'X-Goog-Upload-Status': session.final ? 'final' : 'active'
+				}
+			});
+		}
+
+		const offset = Number(headers['X-Goog-Upload-Offset']);
+		const bytes = (init.body as Blob).size;
+		requests.push({ command, offset, bytes });
+		session.received = offset + bytes;
+
+		if (command === 'upload, finalize') {
+			session.final = true;
+			return Response.json({ name: session.name, size: String(session.size), md5Hash: 'abc' });
+		}
+		return new Response(null, { headers: { 'X-Goog-Upload-Status': 'active' } });
+	});
+
+	return { sessions, requests, fetch };
+}
+
+function createClient(server: ReturnType<typeof createServer>) {
+	return new ResumableUploadClient({
+		endpoint: (path) => `https://upload.test/o?name=${encodeURIComponent(path)}`,
+		getHeaders: async () => ({ Authorization: 'Firebase token' }),
+		chunkSize: CHUNK_SIZE,
+		fetch: server.fetch as unknown as typeof fetch
+	});
+}
+
+function finished(task: StorageUploadTask): Promise<StorageUploadSnapshot> {
+	return new Promise((resolve, reject) => task.on({ complete: resolve, error: reject }));
+}
+
+describe('ResumableUploadClient', () => {
+	it('uploads in chunks and reports the session URL on snapshots', async () => {
+		const server = createServer();
+		const snapshots: StorageUploadSnapshot[] = [];
+
+		const task = createClient(server).upload(
+			'uploads/a.bin',
+			new Blob([new Uint8Array(600 * 1024)])
+		);
+		task.on({ next: (snapshot) => snapshots.push(snapshot) });
+		const result = await finished(task);
+
+		expect(server.requests).toEqual([
+			{ command: 'start' },
+			{ command: 'upload', offset: 0, bytes: CHUNK_SIZE },
+			{ command: 'upload', offset: CHUNK_SIZE, bytes: CHUNK_SIZE },
+			{ command: 'upload, finalize', offset: 2 * CHUNK_SIZE, bytes: 600 * 1024 - 2 * CHUNK_SIZE }
+		]);
+		expect(
+			snapshots.every((snapshot) => snapshot.sessionUrl === 'https://upload.test/session/1')
+		).toBe(true);
+		expect(result).toMatchObject({
+			state: 'success',
+			bytesTransferred: 600 * 1024,
+			metadata: { fullPath: 'uploads/a.bin', size: 600 * 1024, md5Hash: 'abc' }
+		});
+		expect(server.fetch.mock.calls[0][1].headers).toMatchObject({
+			Authorization: 'Firebase token'
+		});
+	});
+
+	it('continues a session from its committed offset', async () => {
+		const server = createServer();
+		const client = createClient(server);
+		const data = new Blob([new Uint8Array(3 * CHUNK_SIZE)]);
+
+		const first = client.upload('uploads/a.bin', data);
+		let sessionUrl = '';
+		first.on({
+			next: (snapshot) => {
+				sessionUrl = snapshot.sessionUrl!;
+				if (snapshot.bytesTransferred === CHUNK_SIZE) first.pause();
+			}
+		});
+		await vi.waitFor(() => expect(first.snapshot.state).toBe('paused'));
+		server.requests.length = 0;
+
+		const resumed = await client.resume(sessionUrl, 'uploads/a.bin', data);
+		expect(resumed!.snapshot.bytesTransferred).toBe(CHUNK_SIZE);
+		await finished(resumed!);
+
+		expect(server.requests).toEqual([
+			{ command: 'query' },
+			{ command: 'upload', offset: CHUNK_SIZE, bytes: CHUNK_SIZE },
+			{ command: 'upload, finalize', offset: 2 * CHUNK_SIZE, bytes: CHUNK_SIZE }
+		]);
+	});
+
+	it('returns null for an expired or finalized session', async () => {
+		const server = createServer();
+		const client = createClient(server);
+		const data = new Blob(['done']);
+
+		await expect(client.resume('https://upload.test/session/404', 'a', data)).resolves.toBeNull();
+
+		const task = client.upload('uploads/a.txt', data);
+		const { sessionUrl } = await finished(task);
+		await expect(client.resume(sessionUrl!, 'uploads/a.txt', data)).resolves.toBeNull();
+	});
+
+	it('starts a new session when the current one expires mid-upload', async () => {
+		const server = createServer();
+		const data = new Blob([new Uint8Array(2 * CHUNK_SIZE)]);
+
+		const task = createClient(server).upload('uploads/a.bin', data);
+		let expired = false;
+		task.on({
+			next: (snapshot) => {
+				if (snapshot.bytesTransferred === CHUNK_SIZE && !expired) {
+					server.sessions.clear();
+					expired = true;
+				}
+			}
+		});
+		const result = await finished(task);
+
+		expect(result.sessionUrl).toBe('https://upload.test/session/2');
+		expect(result.bytesTransferred).toBe(2 * CHUNK_SIZE);
+	});
+
+	it('fails with a Firebase-style error code', async () => {
+		const server = createServer();
+		server.fetch.mockResolvedValueOnce(new Response(null, { status: 403 }));
+
+		const task = createClient(server).upload('uploads/a.txt', new Blob(['x']));
+
+		await expect(finished(task)).rejects.toMatchObject({
+			code: 'storage/unauthorized',
+			status: 403
+		});
+		expect(task.snapshot.state).toBe('error');
+	});
+
+	it('stops sending chunks once cancelled', async () => {
+		const server = createServer();
+		const task = createClient(server).upload(
+			'uploads/a.bin',
+			new Blob([new Uint8Array(2 * CHUNK_SIZE)])
+		);
+		const done = finished(task);
+
+		task.cancel();
+
+		await expect(done).rejects.toMatchObject({ code: 'storage/canceled' });
+		expect(server.requests.filter((request) => request.command !== 'start')).toEqual([]);
+	});
+});
@@ -0,0 +1,357 @@
+import type {
+	BackgroundServiceWorkerContainer,
+	BackgroundUploadEvent,
+	BackgroundUploadJobStatus,
+	BackgroundUploadRequest,
+	ChecksumAlgorithm,
+	ServiceWorkerStorageAdapterOptions,
+	StorageAdapter,
+	StorageObjectMetadata,
+	StorageTaskState,
+	StorageUploadMetadata,
+	StorageUploadObserver,
+	StorageUploadSnapshot,
+	StorageUploadTask
+} from '../types.js';
+
+/**
+ * Storage adapter that hands uploads to a companion service worker
+ * (`BackgroundUploadWorker`), so they continue after the page is closed.
+ *
+ * Pages and the worker talk through `postMessage` with the
+ * `BackgroundUploadRequest` and `BackgroundUploadEvent` messages. Uploads
+ * fall back to the wrapped adapter while no service worker controls the page,
+ * and downloads, deletes and metadata lookups always use it.
+ *
+ * Jobs are keyed by the `uploadId` custom metadata the upload manager sets, so
+ * uploading the same item again attaches to its job, e.g. after a reload, while
+ * other uploads to the same path get jobs of their own.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new ServiceWorkerStorageAdapter(new FirebaseStorageAdapter(getStorage()), {
+ *   getAuthToken: async () => getAuth().currentUser?.getIdToken()
+ * });
+ * manager.setStorageAdapter(adapter);
+ *
+ * // Or let the manager wrap its adapter
+ * const manager = new FirebaseUploadManager({ backgroundUploads: true });
+ * ```
+ */
+export class ServiceWorkerStorageAdapter implements StorageAdapter {
+	readonly name = 'service-worker';
+
+	private static readonly LIST_TIMEOUT = 1000;
+
+	private _container: BackgroundServiceWorkerContainer | null;
+	private _getAuthToken?: () => Promise<string | null | undefined>;
+	private _syncTag: string;
+
+	// Tasks of this page by job id, until the worker reports their result
+	private _tasks: Map<string, BackgroundUploadTask> = new Map();
+	private _jobCallbacks: Set<(job: BackgroundUploadJobStatus) => void> = new Set();
+	private _listCallbacks: ((jobs: BackgroundUploadJobStatus[]) => void)[] = [];
+
+	private _boundMessage = (event: MessageEvent) => this._handleMessage(event.data);
+
+	constructor(
+		private _fallback: StorageAdapter,
+		options: ServiceWorkerStorageAdapterOptions = {}
+	) {
+		this._container =
+			options.container ??
+			(typeof navigator !== 'undefined' && navigator.serviceWorker
+				? (navigator.serviceWorker as unknown as BackgroundServiceWorkerContainer)
+				: null);
+		this._getAuthToken = options.getAuthToken;
+		this._syncTag = options.syncTag ?? 'upload-manager';
+
+		this._container?.addEventListener('message', this._boundMessage);
+	}
+
+	// The adapter all uploads go to while no service worker controls the page
+	get fallback(): StorageAdapter {
+		return this._fallback;
+	}
+
+	// The worker's resumable sessions report every checksum, uploads may fall back though
+	get checksums(): readonly ChecksumAlgorithm[] | undefined {
+		return this._fallback.checksums;
+	}
+
+	// Whether uploads currently go to the service worker
+	isAvailable(): boolean {
+		return !!this._container?.controller;
+	}
+
+	upload(path: string, data: Blob, metadata: StorageUploadMetadata = {}): StorageUploadTask {
+		if (!this.isAvailable()) {
+			return this._fallback.upload(path, data, metadata);
+		}
+
+		// Uploads without an id can't be attached to again
+		const jobId =
+			metadata.customMetadata?.uploadId ?? `${path}#${Math.random().toString(36).substring(2, 11)}`;
+		this._tasks.get(jobId)?.detach();
+		const task = new BackgroundUploadTask(jobId, data.size, (message) => this._post(message));
+		this._tasks.set(jobId, task);
+
+		this._submit(task, jobId, path, data, metadata).catch((error) => task.fail(error));
+		return task;
+	}
+
+	/**
+	 * Continue an upload. The service worker keeps its own sessions, so while it
+	 * controls the page this attaches to the upload's job and the session URL
+	 * is not used.
+	 */
+	async resume(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata?: StorageUploadMetadata
+	): Promise<StorageUploadTask | null> {
+		if (this.isAvailable()) {
+			return this.upload(path, data, metadata);
+		}
+		return this._fallback.resume?.(sessionUrl, path, data, metadata) ?? null;
+	}
+
+	async getURL(path: string): Promise<string> {
+		return this._fallback.getURL(path);
+	}
+
+	async delete(path: string): Promise<void> {
+		return this._fallback.delete(path);
+	}
+
+	async head(path: string): Promise<StorageObjectMetadata | null> {
+		return this._fallback.head(path);
+	}
+
+	/**
+	 * Get the status of every job the service worker knows about, including
+	 * jobs that finished while no page was open.
+	 *
+	 * @returns The jobs, or an empty list when the worker does not answer
+	 *
+	 * @example
+	 * ```typescript
+	 * const jobs = await adapter.getJobs();
+	 * const done = jobs.filter((job) => job.state === 'success');
+	 * ```
+	 */
+	async getJobs(): Promise<BackgroundUploadJobStatus[]> {
+		if (!this.isAvailable()) return [];
+
+		return new Promise((resolve) => {
+			const callback = (jobs: BackgroundUploadJobStatus[]) => {
+				clearTimeout(timer);
+				resolve(jobs);
+			};
+			const timer = setTimeout(() => {
+				this._listCallbacks = this._listCallbacks.filter((pending) => pending !== callback);
+				resolve([]);
+			}, ServiceWorkerStorageAdapter.LIST_TIMEOUT);
+
+			this._listCallbacks.push(callback);
+			this._post({ type: 'upload-manager:list' });
+		});
+	}
+
+	/**
+	 * Subscribe to status changes of every job, including jobs started by
+	 * other pages.
+	 *
+	 * @returns Function that removes the subscription
+	 */
+	onJobChange(callback: (job: BackgroundUploadJobStatus) => void): () => void {
+		this._jobCallbacks.add(callback);
+		return () => {
+			this._jobCallbacks.delete(callback);
+		};
+	}
+
+	// Let the worker forget a finished job whose result was recorded elsewhere
+	acknowledge(jobId: string): void {
+		this._post({ type: 'upload-manager:acknowledge', jobId });
+	}
+
+	// Send a fresh token, e.g. after sign-in, for jobs the worker continues
+	setAuthToken(token: string | null): void {
+		this._post({ type: 'upload-manager:auth', token });
+	}
+
+	// Stop listening to the worker. Jobs keep running there.
+	disconnect(): void {
+		this._container?.removeEventListener('message', this._boundMessage);
+		this._tasks.forEach((task) => task.detach());
+		this._tasks.clear();
+		this._jobCallbacks.clear();
+	}
+
+	private async _submit(
+		task: BackgroundUploadTask,
+		jobId: string,
+		path: string,
+		data: Blob,
+		metadata: StorageUploadMetadata
+	): Promise<void> {
+		const authToken = (await this._getAuthToken?.()) ?? undefined;
+		if (!task.isActive) return;
+
+		this._post({
+			type: 'upload-manager:upload',
+			job: { id: jobId, path, file: data, metadata, authToken }
+		});
+
+		// Lets the browser run the worker again once the page is closed
+		try {
+			const registration = await this._container!.ready;
+			await registration.sync?.register(this._syncTag);
+		} catch (error) {
+			console.warn('[ServiceWorkerStorageAdapter] Background Sync is not available:', error);
+		}
+	}
+
+	private _handleMessage(data: unknown): void {
+		const message = data as BackgroundUploadEvent;
+		if (typeof message?.type !== 'string' || !message.type.startsWith('upload-manager:')) return;
+
+		if (message.type === 'upload-manager:jobs') {
+			const callbacks = this._listCallbacks;
+			this._listCallbacks = [];
+			callbacks.forEach((callback) => callback(message.jobs));
+			return;
+		}
+
+		const { job } = message;
+		const task = this._tasks.get(job.id);
+		if (task) {
+			task.apply(message);
+			if (!task.isActive) {
+				this._tasks.delete(job.id);
+				// The result reached the page that asked for it
+				if (message.type === 'upload-manager:complete') {
+					this.acknowledge(job.id);
+				}
+			}
+		}
+
+		this._jobCallbacks.forEach((callback) => callback(job));
+	}
+
+	private _post(message: BackgroundUploadRequest): void {
+		const controller = this._container?.controller;
+		if (!controller) {
+			console.warn('[ServiceWorkerStorageAdapter] No service worker to post to:', message.type);
+			return;
+		}
+		controller.postMessage(message);
+	}
+}
+
+// Mirrors a job running in the service worker
+class BackgroundUploadTask implements StorageUploadTask {
+	private _observers: Set<StorageUploadObserver> = new Set();
+	private _state: StorageTaskState = 'running';
+	private _bytesTransferred = 0;
+	private _metadata?: StorageObjectMetadata;
+
+	constructor(
+		private _jobId: string,
+		private _totalBytes: number,
+		private _post: (message: BackgroundUploadRequest) => void
+	) {}
+
+	get snapshot(): StorageUploadSnapshot {
+		return {
+			bytesTransferred: this._bytesTransferred,
+			totalBytes: this._totalBytes,
+			state: this._state,
+			metadata: this._metadata
+		};
+	}
+
+	get isActive(): boolean {
+		return this._state === 'running' || this._state === 'paused';
+	}
+
+	on(observer: StorageUploadObserver): () => void {
+		this._observers.add(observer);
+		return () => {
+			this._observers.delete(observer);
+		};
+	}
+
+	pause(): boolean {
+		if (this._state !== 'running') return false;
+		this._state = 'paused';
+		this._post({ type: 'upload-manager:pause', jobId: this._jobId });
+		this._emitProgress();
+		return true;
+	}
+
+	resume(): boolean {
+		if (this._state !== 'paused') return false;
+		this._state = 'running';
+		this._post({ type: 'upload-manager:resume', jobId: this._jobId });
+		this._emitProgress();
+		return true;
+	}
+
+	cancel(): boolean {
+		if (!this.isActive) return false;
+		this._state = 'canceled';
+		this._post({ type: 'upload-manager:cancel', jobId: this._jobId });
+		this._notifyError(createStorageError('canceled', 'User canceled the upload/download.'));
+		return true;
+	}
+
+	// Take the status the worker reported. Pausing is up to this page.
+	apply(event: Exclude<BackgroundUploadEvent, { type: 'upload-manager:jobs' }>): void {
+		if (!this.isActive) return;
+		const { job } = event;
+		this._bytesTransferred = job.bytesTransferred;
+
+		if (event.type === 'upload-manager:complete') {
+			this._state = 'success';
+			this._metadata = job.metadata;
+			const snapshot = this.snapshot;
+			this._observers.forEach((observer) => observer.complete?.(snapshot));
+		} else if (event.type === 'upload-manager:error') {
+			const { code = 'storage/unknown', message = 'Upload failed.', status } = job.error ?? {};
+			this.fail(Object.assign(new Error(message), { code, status }));
+		} else if (job.state === 'canceled') {
+			// Cancelled from another page
+			this._state = 'canceled';
+			this._notifyError(createStorageError('canceled', 'User canceled the upload/download.'));
+		} else {
+			this._emitProgress();
+		}
+	}
+
+	fail(error: Error): void {
+		if (!this.isActive) return;
+		this._state = 'error';
+		this._notifyError(error);
+	}
+
+	// Another upload took over the job, stop reporting without telling the worker
+	detach(): void {
+		this._observers.clear();
+	}
+
+	private _emitProgress(): void {
+		const snapshot = this.snapshot;
+		this._observers.forEach((observer) => observer.next?.(snapshot));
+	}
+
+	private _notifyError(error: Error): void {
+		this._observers.forEach((observer) => observer.error?.(error));
+	}
+}
+
+function createStorageError(code: string, message: string): Error {
+	return Object.assign(new Error(message), { code: `storage/${code}` });
+}
@@ -0,0 +1,42 @@
+/**
+ * Error raised for a specific upload, e.g. when an `UploadHandle.done` promise rejects.
+ *
+ * `code` is the storage error code when the backend reported one
+ * (e.g. `storage/unauthorized`), otherwise one of the manager's own codes:
+ * - `upload/failed`: the upload failed and will not be retried
+ * - `upload/cancelled`: the upload was cancelled or removed
+ * - `upload/destroyed`: the manager was destroyed before the upload finished
+ * - `integrity_mismatch`: the stored object's checksum differs from the file, see `verifyIntegrity`
+ * - `integrity_unverified`: storage reported no checksum to compare the file with
+ * - `plugin/skipped`: a plugin skipped the file
+ * - `plugin/rejected`: a plugin rejected the file
+ * - `path/skipped`: the storage path already existed and `onConflict` is `'skip'`
+ * - `path/exists`: the storage path already existed and `onConflict` is `'fail'`
+ * - `path/too-long`: the storage path is over the 1024-byte object name limit
+ * - `metadata/invalid`: the upload metadata breaks a Firebase limit, e.g. over 8 KiB of custom metadata
+ */
+export class UploadError extends Error {
+	readonly code: string;
+	readonly fileId: string;
+	readonly cause?: unknown;
+
+	constructor(code: string, message: string, fileId: string, cause?: unknown) {
+		super(message);
+		this.name = 'UploadError';
+		this.code = code;
+		this.fileId = fileId;
+		this.cause = cause;
+	}
+
+	// Wrap an arbitrary error, keeping the storage error code if there is one
+	static from(error: unknown, fileId: string): UploadError {
+		if (error instanceof UploadError) return error;
+
+		const code =
+			typeof (error as { code?: unknown })?.code === 'string'
+				? (error as { code: string }).code
+				: 'upload/failed';
+		const message = error instanceof Error ? error.message : String(error);
+		return new UploadError(code, message, fileId, error);
+	}
+}
@@ -4,30 +4,118 @@ export { default as FirebaseUploadManager } from './upload-manager.svelte.js';
 // Types
 export type {
 	UploadManagerConfig,
+	BandwidthWindow,
+	BandwidthStats,
 	UploadItem,
 	UploadTask,
 	SpeedSample,
 	UploadManagerOptions,
 	FirebaseStorage,
 	UploadStatus,
+	UploadStatusChange,
+	UploadErrorCategory,
+	UploadItemError,
+	UploadGroup,
+	PathConflictPolicy,
+	PathVariables,
+	UploadMetadataResolver,
+	DeduplicationOptions,
+	DeduplicationIndex,
+	DeduplicationIndexEntry,
+	ChecksumAlgorithm,
+	IntegrityOptions,
 	ValidationRule,
 	ValidationResult,
 	ResumableUploadState,
+	PersistedUploadItem,
+	PersistedUploadState,
+	RestoreResult,
+	TabCoordinatorOptions,
+	TabLockManager,
+	TabChannel,
+	TabCommand,
+	TabMessage,
+	MirroredUploadItem,
+	MirroredUploadState,
+	BackgroundServiceWorkerContainer,
+	ServiceWorkerStorageAdapterOptions,
+	BackgroundUploadJob,
+	BackgroundUploadJobStatus,
+	BackgroundUploadRequest,
+	BackgroundUploadEvent,
 	HealthStatus,
 	HealthCheckResult,
 	StorageQuota,
 	PermissionStatus,
 	UploadPlugin,
 	PluginConfig,
+	PluginDecision,
+	PluginDecisionRecord,
 	UploadManagerInterface,
 	ChunkState,
-	ResumeOptions
+	ResumeOptions,
+	StorageAdapter,
+	StorageUploadTask,
+	StorageUploadSnapshot,
+	StorageUploadObserver,
+	StorageUploadMetadata,
+	StorageObjectMetadata,
+	StorageTaskState,
+	UploadManagerEvents,
+	UploadManagerEventName,
+	UploadManagerEventHandler,
+	UploadManagerState,
+	UploadHandle,
+	UploadResult,
+	UploadProgress
 } from './types.js';
 
+// Errors
+export { UploadError } from './errors.js';
+
+// Storage adapters
+export { FirebaseStorageAdapter } from './adapters/firebase-adapter.svelte.js';
+export type { FirebaseStorageAdapterOptions } from './adapters/firebase-adapter.svelte.js';
+export { ResumableUploadClient } from './adapters/resumable-upload-client.svelte.js';
+export type {
+	ResumableUploadClientOptions,
+	ResumableSessionStatus
+} from './adapters/resumable-upload-client.svelte.js';
+export { ServiceWorkerStorageAdapter } from './adapters/service-worker-adapter.svelte.js';
+export { MemoryStorageAdapter } from './adapters/memory-adapter.svelte.js';
+export type {
+	MemoryStorageAdapterOptions,
+	MemoryStorageFailure
+} from './adapters/memory-adapter.svelte.js';
+
 // Utility managers
 export { MemoryManager } from './utils/memory-manager.svelte.js';
 export { NetworkManager } from './utils/network-manager.svelte.js';
 export { BandwidthManager } from './utils/bandwidth-manager.svelte.js';
 export { FileValidator } from './utils/file-validator.svelte.js';
 export { UploadResumer } from './utils/upload-resumer.svelte.js';
-export { PluginSystem } from './utils/plugin-system.svelte.js';
+export { PluginSystem, isPluginDecision } from './utils/plugin-system.svelte.js';
+export { EventEmitter } from './utils/event-emitter.svelte.js';
+export { TabCoordinator } from './utils/tab-coordinator.svelte.js';
+
+// Error classification
+export { classifyError, isRetryableError } from './utils/error-classifier.svelte.js';
+export type { ClassifiedError } from './utils/error-classifier.svelte.js';
+
+// Upload status state machine
+export { UPLOAD_STATUS_TRANSITIONS, canTransition } from './utils/upload-state-machine.svelte.js';
+
+// Storage path templates
+export { resolvePathTemplate } from './utils/path-template.svelte.js';
+export type { PathTemplateContext } from './utils/path-template.svelte.js';
+export { sanitizeFileName, sanitizeStoragePath } from './utils/path-sanitizer.svelte.js';
+export type { FileNameSanitizeOptions } from './utils/path-sanitizer.svelte.js';
+
+// Upload metadata
+export { validateUploadMetadata } from './utils/upload-metadata.svelte.js';
+
+// Deduplication
+export { IndexedDBDeduplicationIndex } from './utils/deduplication-index.svelte.js';
+
+// Integrity verification
+export { computeChecksum } from './utils/checksum.svelte.js';
@@ -0,0 +1,459 @@
+import type {
+	BackgroundUploadEvent,
+	BackgroundUploadJob,
+	BackgroundUploadJobStatus,
+	BackgroundUploadRequest,
+	StorageObjectMetadata,
+	StorageTaskState,
+	StorageUploadTask
+} from '../types.js';
+import { ResumableUploadClient } from '../adapters/resumable-upload-client.svelte.js';
+import { classifyError } from '../utils/error-classifier.svelte.js';
+
+// Events about a single job
+type JobEvent = Exclude<BackgroundUploadEvent, { type: 'upload-manager:jobs' }>;
+
+// The parts of ServiceWorkerGlobalScope the worker uses
+interface ExtendableEvent {
+	waitUntil(promise: Promise<unknown>): void;
+}
+
+export interface BackgroundMessageEvent extends ExtendableEvent {
+	readonly data: unknown;
+	readonly source: { postMessage(message: unknown): void } | null;
+}
+
+export interface BackgroundSyncEvent extends ExtendableEvent {
+	readonly tag: string;
+}
+
+export interface BackgroundWorkerScope {
+	addEventListener(type: 'message', listener: (event: BackgroundMessageEvent) => void): void;
+	addEventListener(type: 'sync', listener: (event: BackgroundSyncEvent) => void): void;
+	readonly clients: {
+		matchAll(options?: {
+			type?: 'window';
+			includeUncontrolled?: boolean;
+		}): Promise<ReadonlyArray<{ postMessage(message: unknown): void }>>;
+	};
+}
+
+/**
+ * A job as the worker keeps it between service worker restarts.
+ */
+export interface BackgroundJobRecord extends BackgroundUploadJob {
+	state: StorageTaskState;
+	bytesTransferred: number;
+	sessionUrl?: string;
+	result?: StorageObjectMetadata;
+	error?: BackgroundUploadJobStatus['error'];
+	updatedAt: number;
+}
+
+export interface BackgroundJobStore {
+	getAll(): Promise<BackgroundJobRecord[]>;
+	get(id: string): Promise<BackgroundJobRecord | null>;
+	put(record: BackgroundJobRecord): Promise<void>;
+	delete(id: string): Promise<void>;
+}
+
+export interface BackgroundUploadWorkerOptions {
+	bucket: string; // e.g. 'my-app.appspot.com'
+	host?: string; // Default: 'firebasestorage.googleapis.com'
+	// Token for uploads, otherwise the last one a page sent
+	getAuthToken?: () => Promise<string | null | undefined>;
+	chunkSize?: number; // Default: 8MB
+	syncTag?: string; // Default: 'upload-manager'
+	store?: BackgroundJobStore; // Default: IndexedDB (`UploadManagerWorker`)
+	fetch?: typeof fetch;
+}
+
+/**
+ * Uploads files handed over by `ServiceWorkerStorageAdapter` from inside a
+ * service worker, so they keep going after the page is closed.
+ *
+ * Jobs are stored in IndexedDB with their blobs and sent through resumable
+ * sessions. Progress is posted to every open page of the worker's scope.
+ * When an upload fails with a retryable error, the Background Sync event
+ * that runs the jobs fails too and the browser fires it again later; without
+ * Background Sync, jobs continue the next time a page asks for the job list.
+ *
+ * @example
+ * ```typescript
+ * // service-worker.ts
+ * import { BackgroundUploadWorker } from 'svelte-firebase-upload/service-worker';
+ *
+ * new BackgroundUploadWorker(self, { bucket: 'my-app.appspot.com' });
+ * ```
+ */
+export class BackgroundUploadWorker {
+	private _client: ResumableUploadClient;
+	private _store: BackgroundJobStore;
+	private _syncTag: string;
+	private _getAuthToken?: () => Promise<string | null | undefined>;
+	private _authToken: string | null = null;
+
+	// Tasks stay here while paused, runs settle when a job stops uploading
+	private _tasks: Map<string, StorageUploadTask> = new Map();
+	private _runs: Map<string, Promise<void>> = new Map();
+
+	constructor(
+		private _scope: BackgroundWorkerScope,
+		options: BackgroundUploadWorkerOptions
+	) {
+		this._store = options.store ?? new IndexedDBJobStore();
+		this._syncTag = options.syncTag ?? 'upload-manager';
+		this._getAuthToken = options.getAuthToken;
+
+		const host = options.host || 'firebasestorage.googleapis.com';
+		this._client = new ResumableUploadClient({
+			endpoint: (path) =>
+				`https://${host}/v0/b/${options.bucket}/o?name=${encodeURIComponent(path)}`,
+			getHeaders: async (): Promise<Record<string, string>> => {
+				const token = (await this._getAuthToken?.()) || this._authToken;
+				return token ? { Authorization: `Firebase ${token}` } : {};
+			},
+			chunkSize: options.chunkSize,
+			fetch: options.fetch
+		});
+
+		_scope.addEventListener('message', (event) => this._handleMessage(event));
+		_scope.addEventListener('sync', (event) => {
+			if (event.tag === this._syncTag) {
+				event.waitUntil(this.processJobs());
+			}
+		});
+	}
+
+	/**
+	 * Upload every job that has not finished or been paused.
+	 *
+	 * @returns Promise that rejects when a job failed with an error worth retrying
+	 */
+	async processJobs(): Promise<void> {
+		const records = await this._store.getAll();
+		// The token of the last page is gone after a restart
+		this._authToken ??= records.find((record) => record.authToken)?.authToken ?? null;
+
+		const pending = records.filter((record) => record.state === 'running');
+		const results = await Promise.allSettled(pending.map((record) => this._runJob(record)));
+
+		const failed = results.find((result) => result.status === 'rejected');
+		if (failed) {
+			throw (failed as PromiseRejectedResult).reason;
+		}
+	}
+
+	// Status of every job the worker knows about
+	async getJobs(): Promise<BackgroundUploadJobStatus[]> {
+		const records = await this._store.getAll();
+		return records.map(toStatus);
+	}
+
+	private _handleMessage(event: BackgroundMessageEvent): void {
+		const message = event.data as BackgroundUploadRequest;
+		if (typeof message?.type !== 'string' || !message.type.startsWith('upload-manager:')) return;
+
+		event.waitUntil(
+			this._handleRequest(message, event.source).catch((error) => {
+				// Failed jobs are kept for the next sync
+				console.warn('[BackgroundUploadWorker] Request failed:', message.type, error);
+			})
+		);
+	}
+
+	private async _handleRequest(
+		message: BackgroundUploadRequest,
+		source: BackgroundMessageEvent['source']
+	): Promise<void> {
+		switch (message.type) {
+			case 'upload-manager:upload':
+				return this._acceptJob(message.job);
+			case 'upload-manager:pause':
+				return this._pauseJob(message.jobId);
+			case 'upload-manager:resume':
+				return this._resumeJob(message.jobId);
+			case 'upload-manager:cancel':
+				return this._cancelJob(message.jobId);
+			case 'upload-manager:acknowledge':
+				return this._acknowledgeJob(message.jobId);
+			case 'upload-manager:list':
+				source?.postMessage({ type: 'upload-manager:jobs', jobs: await this.getJobs() });
+				// A page is back: continue whatever stopped with the last worker
+				return this.processJobs();
+			case 'upload-manager:auth':
+				this._authToken = message.token;
+				return;
+		}
+	}
+
+	// Start a job, or attach to the job already uploading the same file for the upload id
+	private async _acceptJob(job: BackgroundUploadJob): Promise<void> {
+		if (job.authToken) {
+			this._authToken = job.authToken;
+		}
+
+		const existing = await this._store.get(job.id);
+		if (existing && isSameFile(existing.file, job.file)) {
+			// Tell the page where the job is, then keep it going
+			await this._broadcast({ type: eventTypeFor(existing), job: toStatus(existing) } as JobEvent);
+			if (existing.state === 'success') return;
+
+			existing.state = 'running';
+			existing.error = undefined;
+			existing.authToken = job.authToken ?? existing.authToken;
+			await this._store.put(existing);
+			return this._runJob(existing);
+		}
+
+		// A different file replaces the job
+		const previous = this._runs.get(job.id);
+		this._tasks.get(job.id)?.cancel();
+		this._tasks.delete(job.id);
+		await previous?.catch(() => {});
+
+		const record: BackgroundJobRecord = {
+			...job,
+			state: 'running',
+			bytesTransferred: 0,
+			updatedAt: Date.now()
+		};
+		await this._store.put(record);
+		return this._runJob(record);
+	}
+
+	private async _pauseJob(jobId: string): Promise<void> {
+		const task = this._tasks.get(jobId);
+		if (task) {
+			// The task reports the pause, see _watch()
+			task.pause();
+			return;
+		}
+
+		const record = await this._store.get(jobId);
+		if (record?.state === 'running') {
+			await this._update(record, 'paused');
+		}
+	}
+
+	private async _resumeJob(jobId: string): Promise<void> {
+		const record = await this._store.get(jobId);
+		if (!record || (record.state !== 'paused' && record.state !== 'running')) return;
+
+		record.state = 'running';
+		await this._store.put(record);
+		return this._runJob(record);
+	}
+
+	private async _cancelJob(jobId: string): Promise<void> {
+		const record = await this._store.get(jobId);
+		this._tasks.get(jobId)?.cancel();
+		this._tasks.delete(jobId);
+		await this._store.delete(jobId);
+
+		if (record) {
+			record.state = 'canceled';
+			await this._broadcast({ type: 'upload-manager:progress', job: toStatus(record) });
+		}
+	}
+
+	// A page recorded the result of a finished job
+	private async _acknowledgeJob(jobId: string): Promise<void> {
+		const record = await this._store.get(jobId);
+		if (record && (record.state === 'success' || record.state === 'error')) {
+			await this._store.delete(jobId);
+		}
+	}
+
+	// One run per job at a time, a paused task is resumed instead of started again
+	private _runJob(record: BackgroundJobRecord): Promise<void> {
+		let run = this._runs.get(record.id);
+		if (!run) {
+			run = this._uploadJob(record).finally(() => this._runs.delete(record.id));
+			this._runs.set(record.id, run);
+		}
+		return run;
+	}
+
+	private async _uploadJob(record: BackgroundJobRecord): Promise<void> {
+		let task = this._tasks.get(record.id);
+		if (task) {
+			task.resume();
+		} else {
+			task = await this._createTask(record);
+			this._tasks.set(record.id, task);
+		}
+		return this._watch(record, task);
+	}
+
+	// Continue from the saved session, or start over when it is gone
+	private async _createTask(record: BackgroundJobRecord): Promise<StorageUploadTask> {
+		const { sessionUrl, path, file, metadata } = record;
+		if (sessionUrl) {
+			try {
+				const task = await this._client.resume(sessionUrl, path, file, metadata);
+				if (task) return task;
+			} catch (error) {
+				console.warn('[BackgroundUploadWorker] Failed to resume session for', path, error);
+			}
+		}
+
+		record.sessionUrl = undefined;
+		record.bytesTransferred = 0;
+		return this._client.upload(path, file, metadata);
+	}
+
+	// Save and report task events until the job succeeds, fails or is paused
+	private _watch(record: BackgroundJobRecord, task: StorageUploadTask): Promise<void> {
+		return new Promise<void>((resolve, reject) => {
+			const unsubscribe = task.on({
+				next: (snapshot) => {
+					record.bytesTransferred = snapshot.bytesTransferred;
+					record.sessionUrl = snapshot.sessionUrl;
+					const paused = snapshot.state === 'paused';
+					this._update(record, paused ? 'paused' : 'running').catch(reject);
+
+					// The worker may stop while paused, resuming continues from the session
+					if (paused) {
+						unsubscribe();
+						resolve();
+					}
+				},
+				error: (error) => {
+					unsubscribe();
+					if (this._tasks.get(record.id) === task) {
+						this._tasks.delete(record.id);
+					}
+
+					const { code, category, message } = classifyError(error);
+					if (category === 'cancelled') {
+						resolve();
+						return;
+					}
+
+					// Retryable failures stay pending for the next sync
+					const status = (error as { status?: number }).status;
+					record.error = { code, message, status };
+					const retry = category === 'retryable';
+					this._update(record, retry ? 'running' : 'error', 'upload-manager:error')
+						.then(() => (retry ? reject(error) : resolve()))
+						.catch(reject);
+				},
+				complete: (snapshot) => {
+					unsubscribe();
+					this._tasks.delete(record.id);
+
+					record.bytesTransferred = snapshot.bytesTransferred;
+					record.result = snapshot.metadata;
+					record.error = undefined;
+					this._update(record, 'success', 'upload-manager:complete').then(resolve, reject);
+				}
+			});
+		});
+	}
+
+	private async _update(
+		record: BackgroundJobRecord,
+		state: StorageTaskState,
+		type: JobEvent['type'] = 'upload-manager:progress'
+	): Promise<void> {
+		record.state = state;
+		record.updatedAt = Date.now();
+		await this._store.put(record);
+		await this._broadcast({ type, job: toStatus(record) } as JobEvent);
+	}
+
+	// Post to every page of the scope, including the ones opened after the upload started
+	private async _broadcast(event: BackgroundUploadEvent): Promise<void> {
+		const clients = await this._scope.clients.matchAll({
+			type: 'window',
+			includeUncontrolled: true
+		});
+		clients.forEach((client) => client.postMessage(event));
+	}
+}
+
+// Jobs in IndexedDB, the blobs included
+class IndexedDBJobStore implements BackgroundJobStore {
+	private static readonly DB_NAME = 'UploadManagerWorker';
+	private static readonly STORE_NAME = 'jobs';
+
+	private _db: Promise<IDBDatabase> | null = null;
+
+	async getAll(): Promise<BackgroundJobRecord[]> {
+		return this._request('readonly', (store) => store.getAll());
+	}
+
+	async get(id: string): Promise<BackgroundJobRecord | null> {
+		return (await this._request('readonly', (store) => store.get(id))) ?? null;
+	}
+
+	async put(record: BackgroundJobRecord): Promise<void> {
+		await this._request('readwrite', (store) => store.put(record));
+	}
+
+	async delete(id: string): Promise<void> {
+		await this._request('readwrite', (store) => store.delete(id));
+	}
+
+	private async _request<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		const db = await this._open();
+		const store = db
+			.transaction(IndexedDBJobStore.STORE_NAME, mode)
+			.objectStore(IndexedDBJobStore.STORE_NAME);
+
+		return new Promise((resolve, reject) => {
+			const request = run(store);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	private _open(): Promise<IDBDatabase> {
+		this._db ??= new Promise((resolve, reject) => {
+			const request = indexedDB.open(IndexedDBJobStore.DB_NAME, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(IndexedDBJobStore.STORE_NAME, { keyPath: 'id' });
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		return this._db;
+	}
+}
+
+function toStatus(record: BackgroundJobRecord): BackgroundUploadJobStatus {
+	return {
+		id: record.id,
+		path: record.path,
+		state: record.state,
+		bytesTransferred: record.bytesTransferred,
+		totalBytes: record.file.size,
+		metadata: record.result,
+		error: record.error,
+		updatedAt: record.updatedAt
+	};
+}
+
+function eventTypeFor(record: BackgroundJobRecord): JobEvent['type'] {
+	switch (record.state) {
+		case 'success':
+			return 'upload-manager:complete';
+		case 'error':
+			return 'upload-manager:error';
+		default:
+			return 'upload-manager:progress';
+	}
+}
+
+// Blobs can't be compared cheaply, files also have to match by name and date
+function isSameFile(a: Blob, b: Blob): boolean {
+	if (a.size !== b.size || a.type !== b.type) return false;
+	if (a instanceof File && b instanceof File) {
+		return a.name === b.name && a.lastModified === b.lastModified;
+	}
+	return true;
+}
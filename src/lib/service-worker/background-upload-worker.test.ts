@@ -0,0 +1,441 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BackgroundUploadWorker } from './background-upload-worker.svelte.js';
+import type {
+	BackgroundJobRecord,
+	BackgroundJobStore,
+	BackgroundMessageEvent,
+	BackgroundSyncEvent,
+	BackgroundWorkerScope
+} from './background-upload-worker.svelte.js';
+import { ServiceWorkerStorageAdapter } from '../adapters/service-worker-adapter.svelte.js';
+import { MemoryStorageAdapter } from '../adapters/memory-adapter.svelte.js';
+import type {
+	BackgroundServiceWorkerContainer,
+	BackgroundUploadEvent,
+	BackgroundUploadRequest,
+	StorageUploadSnapshot,
+	StorageUploadTask
+} from '../types.js';
+
+const CHUNK_SIZE = 256 * 1024;
+
+// Minimal resumable upload server speaking the X-Goog-Upload protocol
+function createServer() {
+	const sessions = new Map<string, { name: string; received: number; final: boolean }>();
+	const requests: Array<{ command: string; offset?: number }> = [];
+	// HTTP statuses returned instead of the next chunk responses
+	const failures: number[] = [];
+	// Chunk requests wait for this while it is set
+	let gate: Promise<void> | null = null;
+	let count = 0;
+
+	const fetch = vi.fn(async (url: string, init: RequestInit) => {
+		const headers = init.headers as Record<string, string>;
+		const command = headers['X-Goog-Upload-Command'];
+
+		if (command === 'start') {
+			const sessionUrl = `https://upload.test/session/${++count}`;
+			sessions.set(sessionUrl, {
+				name: JSON.parse(init.body as string).name,
+				received: 0,
+				final: false
+			});
+			requests.push({ command });
+			return new Response(null, { headers: { 'X-Goog-Upload-URL': sessionUrl } });
+		}
+
+		const session = sessions.get(url);
+		if (!session) return new Response(null, { status: 404 });
+
+		if (command === 'query') {
+			requests.push({ command });
+			return new Response(null, {
+				headers: {
+					'X-Goog-Upload-Size-Received': String(session.received),
+					'X-Goog-Upload-Status': session.final ? 'final' : 'active'
+				}
+			});
+		}
+
+		const offset = Number(headers['X-Goog-Upload-Offset']);
+		requests.push({ command, offset });
+		await gate;
+		const status = failures.shift();
+		if (status) return new Response(null, { status });
+
+		session.received = offset + (init.body as Blob).size;
+		if (command === 'upload, finalize') {
+			session.final = true;
+			return Response.json({ name: session.name, size: String(session.received) });
+		}
+		return new Response(null, { headers: { 'X-Goog-Upload-Status': 'active' } });
+	});
+
+	// Hold chunk requests until the returned function is called
+	const hold = () => {
+		let release!: () => void;
+		gate = new Promise((resolve) => (release = resolve));
+		return () => {
+			gate = null;
+			release();
+		};
+	};
+
+	return { requests, failures, fetch, hold };
+}
+
+class MemoryJobStore implements BackgroundJobStore {
+	records: Map<string, BackgroundJobRecord> = new Map();
+
+	async getAll(): Promise<BackgroundJobRecord[]> {
+		return [...this.records.values()].map((record) => ({ ...record }));
+	}
+
+	async get(id: string): Promise<BackgroundJobRecord | null> {
+		const record = this.records.get(id);
+		return record ? { ...record } : null;
+	}
+
+	async put(record: BackgroundJobRecord): Promise<void> {
+		this.records.set(record.id, { ...record });
+	}
+
+	async delete(id: string): Promise<void> {
+		this.records.delete(id);
+	}
+}
+
+// Service worker global scope with one open page
+function createScope() {
+	const messageListeners: Array<(event: BackgroundMessageEvent) => void> = [];
+	const syncListeners: Array<(event: BackgroundSyncEvent) => void> = [];
+	const pageListeners: Set<(event: MessageEvent) => void> = new Set();
+	const events: BackgroundUploadEvent[] = [];
+
+	const scope: BackgroundWorkerScope = {
+		addEventListener: (type: string, listener: (event: any) => void) => {
+			(type === 'message' ? messageListeners : syncListeners).push(listener);
+		},
+		clients: {
+			matchAll: async () => [page]
+		}
+	};
+
+	const page = {
+		postMessage: (message: unknown) => {
+			events.push(message as BackgroundUploadEvent);
+			pageListeners.forEach((listener) => listener({ data: message } as MessageEvent));
+		}
+	};
+
+	// Returns the waitUntil() promise and the replies sent to the source
+	function post(data: BackgroundUploadRequest | unknown, source = page) {
+		const replies: unknown[] = [];
+		let done: Promise<unknown> | undefined;
+		messageListeners.forEach((listener) =>
+			listener({
+				data,
+				source: {
+					postMessage: (message) => {
+						replies.push(message);
+						source.postMessage(message);
+					}
+				},
+				waitUntil: (promise) => (done = promise)
+			})
+		);
+		return { done, replies };
+	}
+
+	function sync(tag = 'upload-manager'): Promise<unknown> | undefined {
+		let done: Promise<unknown> | undefined;
+		syncListeners.forEach((listener) =>
+			listener({ tag, waitUntil: (promise) => (done = promise) })
+		);
+		return done;
+	}
+
+	const container: BackgroundServiceWorkerContainer = {
+		controller: { postMessage: (message) => post(message) },
+		ready: Promise.resolve({ sync: { register: vi.fn(async () => {}) } }),
+		addEventListener: (_type, listener) => pageListeners.add(listener),
+		removeEventListener: (_type, listener) => pageListeners.delete(listener)
+	};
+
+	return { scope, events, post, sync, container };
+}
+
+function createWorker(
+	scope: BackgroundWorkerScope,
+	server: ReturnType<typeof createServer>,
+	store: BackgroundJobStore = new MemoryJobStore()
+) {
+	return new BackgroundUploadWorker(scope, {
+		bucket: 'test-bucket',
+		chunkSize: CHUNK_SIZE,
+		store,
+		fetch: server.fetch as unknown as typeof fetch
+	});
+}
+
+function createJob(size = 600 * 1024, path = 'uploads/video.mp4') {
+	const file = new File([new Uint8Array(size)], 'video.mp4', {
+		type: 'video/mp4',
+		lastModified: 1
+	});
+	return { id: path, path, file, metadata: { contentType: 'video/mp4' }, authToken: 'token-1' };
+}
+
+function finished(task: StorageUploadTask): Promise<StorageUploadSnapshot> {
+	return new Promise((resolve, reject) => task.on({ complete: resolve, error: reject }));
+}
+
+describe('BackgroundUploadWorker', () => {
+	it('uploads a job and reports progress and completion to the pages', async () => {
+		const { scope, events, post } = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(scope, server, store);
+
+		await post({ type: 'upload-manager:upload', job: createJob() }).done;
+
+		expect(server.requests.map(({ command }) => command)).toEqual([
+			'start',
+			'upload',
+			'upload',
+			'upload, finalize'
+		]);
+		expect(server.fetch.mock.calls[0][0]).toBe(
+			'https://firebasestorage.googleapis.com/v0/b/test-bucket/o?name=uploads%2Fvideo.mp4'
+		);
+		expect(server.fetch.mock.calls[0][1].headers).toMatchObject({
+			Authorization: 'Firebase token-1'
+		});
+		expect(events.at(-1)).toMatchObject({
+			type: 'upload-manager:complete',
+			job: {
+				id: 'uploads/video.mp4',
+				state: 'success',
+				bytesTransferred: 600 * 1024,
+				metadata: { fullPath: 'uploads/video.mp4' }
+			}
+		});
+		expect(events.some((event) => event.type === 'upload-manager:progress')).toBe(true);
+
+		// Kept until a page has the result
+		expect(store.records.get('uploads/video.mp4')?.state).toBe('success');
+		await post({ type: 'upload-manager:acknowledge', jobId: 'uploads/video.mp4' }).done;
+		expect(store.records.size).toBe(0);
+	});
+
+	it('keeps a job that failed with a retryable error for the next sync', async () => {
+		const { scope, events, post, sync } = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(scope, server, store);
+		server.failures.push(0, 503);
+
+		await post({ type: 'upload-manager:upload', job: createJob() }).done;
+
+		expect(events.at(-1)).toMatchObject({
+			type: 'upload-manager:error',
+			job: { state: 'running', bytesTransferred: CHUNK_SIZE, error: { status: 503 } }
+		});
+
+		// The failed sync event makes the browser try again later
+		server.failures.push(503);
+		await expect(sync()).rejects.toMatchObject({ status: 503 });
+		await expect(sync()).resolves.toBeUndefined();
+
+		expect(server.requests.filter(({ command }) => command === 'start')).toHaveLength(1);
+		expect(store.records.get('uploads/video.mp4')?.state).toBe('success');
+	});
+
+	it('continues stored jobs after a restart when a page asks for them', async () => {
+		const first = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(first.scope, server, store);
+		server.failures.push(0, 503);
+		await first.post({ type: 'upload-manager:upload', job: createJob() }).done;
+
+		// A new worker instance with the same IndexedDB
+		const second = createScope();
+		createWorker(second.scope, server, store);
+		server.requests.length = 0;
+		const { done, replies } = second.post({ type: 'upload-manager:list' });
+		await done;
+
+		expect(replies).toEqual([
+			{
+				type: 'upload-manager:jobs',
+				jobs: [expect.objectContaining({ id: 'uploads/video.mp4', state: 'running' })]
+			}
+		]);
+		expect(server.requests).toEqual([
+			{ command: 'query' },
+			{ command: 'upload', offset: CHUNK_SIZE },
+			{ command: 'upload, finalize', offset: 2 * CHUNK_SIZE }
+		]);
+		expect(second.events.at(-1)?.type).toBe('upload-manager:complete');
+	});
+
+	it('attaches a second upload of the same file to the running job', async () => {
+		const { scope, events, post } = createScope();
+		const server = createServer();
+		createWorker(scope, server);
+
+		const first = post({ type: 'upload-manager:upload', job: createJob() });
+		const second = post({ type: 'upload-manager:upload', job: createJob() });
+		await Promise.all([first.done, second.done]);
+
+		expect(server.requests.filter(({ command }) => command === 'start')).toHaveLength(1);
+		expect(events.filter((event) => event.type === 'upload-manager:complete')).toHaveLength(1);
+	});
+
+	it('pauses, resumes and cancels jobs', async () => {
+		const { scope, events, post } = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(scope, server, store);
+
+		const release = server.hold();
+		const upload = post({ type: 'upload-manager:upload', job: createJob() });
+		await vi.waitFor(() => expect(server.requests).toHaveLength(2));
+		await post({ type: 'upload-manager:pause', jobId: 'uploads/video.mp4' }).done;
+		release();
+		await upload.done;
+
+		expect(store.records.get('uploads/video.mp4')?.state).toBe('paused');
+		const sent = server.requests.length;
+
+		await post({ type: 'upload-manager:cancel', jobId: 'uploads/video.mp4' }).done;
+		await post({ type: 'upload-manager:resume', jobId: 'uploads/video.mp4' }).done;
+
+		expect(server.requests).toHaveLength(sent);
+		expect(store.records.size).toBe(0);
+		expect(events.at(-1)).toMatchObject({
+			type: 'upload-manager:progress',
+			job: { state: 'canceled' }
+		});
+	});
+
+	it('ignores messages of other protocols', () => {
+		const { scope, post } = createScope();
+		createWorker(scope, createServer());
+
+		expect(post({ type: 'skip-waiting' }).done).toBeUndefined();
+	});
+});
+
+describe('ServiceWorkerStorageAdapter', () => {
+	it('uploads through the service worker and acknowledges the result', async () => {
+		const { scope, container } = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(scope, server, store);
+		const adapter = new ServiceWorkerStorageAdapter(new MemoryStorageAdapter(), {
+			container,
+			getAuthToken: async () => 'token-2'
+		});
+		const snapshots: StorageUploadSnapshot[] = [];
+
+		const task = adapter.upload('uploads/video.mp4', createJob().file, {});
+		task.on({ next: (snapshot) => snapshots.push(snapshot) });
+		const result = await finished(task);
+
+		expect(result).toMatchObject({ state: 'success', bytesTransferred: 600 * 1024 });
+		expect(snapshots.map((snapshot) => snapshot.bytesTransferred)).toContain(CHUNK_SIZE);
+		expect(server.fetch.mock.calls[0][1].headers).toMatchObject({
+			Authorization: 'Firebase token-2'
+		});
+		expect((await container.ready).sync?.register).toHaveBeenCalledWith('upload-manager');
+		await vi.waitFor(() => expect(store.records.size).toBe(0));
+	});
+
+	it('reports worker errors with their code and status', async () => {
+		const { scope, container } = createScope();
+		const server = createServer();
+		createWorker(scope, server);
+		const adapter = new ServiceWorkerStorageAdapter(new MemoryStorageAdapter(), { container });
+		server.failures.push(403);
+
+		const task = adapter.upload('uploads/video.mp4', createJob().file);
+
+		await expect(finished(task)).rejects.toMatchObject({
+			code: 'storage/unauthorized',
+			status: 403
+		});
+	});
+
+	it('cancels the job in the worker', async () => {
+		const { scope, container } = createScope();
+		const server = createServer();
+		const store = new MemoryJobStore();
+		createWorker(scope, server, store);
+		const adapter = new ServiceWorkerStorageAdapter(new MemoryStorageAdapter(), { container });
+
+		const release = server.hold();
+		const task = adapter.upload('uploads/video.mp4', createJob().file);
+		const result = finished(task);
+		await vi.waitFor(() => expect(store.records.size).toBe(1));
+		task.cancel();
+		release();
+
+		await expect(result).rejects.toMatchObject({ code: 'storage/canceled' });
+		await vi.waitFor(() => expect(store.records.size).toBe(0));
+	});
+
+	it('lists the jobs of the worker', async () => {
+		const { scope, container } = createScope();
+		const server = createServer();
+		createWorker(scope, server);
+		const adapter = new ServiceWorkerStorageAdapter(new MemoryStorageAdapter(), { container });
+		server.failures.push(403);
+		await finished(
+			adapter.upload('uploads/video.mp4', createJob().file, {
+				customMetadata: { uploadId: 'video' }
+			})
+		).catch(() => {});
+
+		const jobs = await adapter.getJobs();
+
+		expect(jobs).toEqual([
+			expect.objectContaining({
+				id: 'video',
+				path: 'uploads/video.mp4',
+				state: 'error',
+				totalBytes: 600 * 1024
+			})
+		]);
+	});
+
+	it('runs uploads to the same path as jobs of their own', async () => {
+		const { scope, container } = createScope();
+		createWorker(scope, createServer());
+		const adapter = new ServiceWorkerStorageAdapter(new MemoryStorageAdapter(), { container });
+
+		const results = await Promise.all(
+			['first', 'second'].map((uploadId) =>
+				finished(
+					adapter.upload('uploads/video.mp4', createJob().file, { customMetadata: { uploadId } })
+				)
+			)
+		);
+
+		expect(results.map((result) => result.state)).toEqual(['success', 'success']);
+	});
+
+	it('uploads with the wrapped adapter while no service worker controls the page', async () => {
+		const fallback = new MemoryStorageAdapter();
+		const adapter = new ServiceWorkerStorageAdapter(fallback, {
+			container: { ...createScope().container, controller: null }
+		});
+
+		await finished(adapter.upload('uploads/photo.jpg', new Blob(['photo'])));
+
+		expect(adapter.isAvailable()).toBe(false);
+		expect(fallback.getObject('uploads/photo.jpg')).toBeDefined();
+		await expect(adapter.getJobs()).resolves.toEqual([]);
+	});
+});
@@ -0,0 +1,16 @@
+// Entry point for the service worker bundle, kept apart from the page code
+export { BackgroundUploadWorker } from './background-upload-worker.svelte.js';
+export type {
+	BackgroundUploadWorkerOptions,
+	BackgroundJobRecord,
+	BackgroundJobStore,
+	BackgroundWorkerScope,
+	BackgroundMessageEvent,
+	BackgroundSyncEvent
+} from './background-upload-worker.svelte.js';
+export type {
+	BackgroundUploadJob,
+	BackgroundUploadJobStatus,
+	BackgroundUploadRequest,
+	BackgroundUploadEvent
+} from '../types.js';
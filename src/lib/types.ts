@@ -14,8 +14,21 @@ import type { FirebaseStorage } from 'firebase/storage';
  * - `completed`: File upload completed successfully
  * - `failed`: File upload failed (may be retried)
  * - `paused`: File upload is temporarily paused
+ * - `cancelled`: File upload was cancelled and will not be retried
  */
-export type UploadStatus = 'queued' | 'uploading' | 'completed' | 'failed' | 'paused';
+export type UploadStatus =
+	| 'queued'
+	| 'uploading'
+	| 'completed'
+	| 'failed'
+	| 'paused'
+	| 'cancelled';
+
+// Entry in an item's status history
+export interface UploadStatusChange {
+	status: UploadStatus;
+	timestamp: number;
+}
 
 // Upload Manager Interface for plugins
 export interface UploadManagerInterface {
@@ -25,6 +38,7 @@ export interface UploadManagerInterface {
 	completed: Map<string, UploadItem>;
 	failed: Map<string, UploadItem>;
 	paused: Set<string>;
+	cancelled: Map<string, UploadItem>;
 	isProcessing: boolean;
 	isPaused: boolean;
 	totalFiles: number;
@@ -56,10 +70,18 @@ export interface UploadManagerInterface {
 	};
 	
 	// Methods
+	on<K extends UploadManagerEventName>(
+		event: K,
+		handler: UploadManagerEventHandler<K>
+	): () => void;
 	addFiles(fileList: FileList | File[], options?: UploadManagerOptions): Promise<number>;
+	enqueue(file: File, options?: UploadManagerOptions): UploadHandle;
 	start(): Promise<void>;
 	pause(): Promise<void>;
 	resume(): Promise<void>;
+	pauseFile(fileId: string): Promise<boolean>;
+	resumeFile(fileId: string): Promise<boolean>;
+	cancel(fileId: string): Promise<boolean>;
 	stop(): Promise<void>;
 	destroy(): Promise<void>;
 	removeFile(fileId: string): Promise<void>;
@@ -68,6 +90,20 @@ export interface UploadManagerInterface {
 	clearFailed(): void;
 	getFile(fileId: string): UploadItem | undefined;
 	getAllFiles(statusFilter?: UploadStatus | null): UploadItem[];
+
+	// Upload groups
+	groups: Map<string, UploadGroup>;
+	addGroup(
+		name: string,
+		fileList: FileList | File[],
+		options?: UploadManagerOptions
+	): Promise<UploadGroup>;
+	getGroup(groupId: string): UploadGroup | undefined;
+	getGroupFiles(groupId: string): UploadItem[];
+	pauseGroup(groupId: string): Promise<number>;
+	resumeGroup(groupId: string): Promise<number>;
+	cancelGroup(groupId: string): Promise<number>;
+	retryGroup(groupId: string): number;
 	
 	// Validation methods
 	validateFiles(files: File[], rules?: Partial<ValidationRule>): Promise<Map<File, ValidationResult>>;
@@ -83,7 +119,7 @@ export interface UploadManagerInterface {
 	}>;
 	
 	// Resumable upload methods
-	checkForResumableUpload(file: File): Promise<ResumableUploadState | null>;
+	checkForResumableUpload(file: File, path?: string): Promise<ResumableUploadState | null>;
 	resumeIncompleteUploads(): Promise<void>;
 	addFilesWithValidation(files: File[], options?: UploadManagerOptions & {
 		validate?: boolean;
@@ -95,6 +131,10 @@ export interface UploadManagerInterface {
 		validated: number;
 		duplicates: number;
 		resumed: number;
+		skipped: number;
+		rejected: number;
+		deferred: number;
+		decisions: Array<{ file: File; decision: PluginDecisionRecord }>;
 		errors: string[];
 	}>;
 	
@@ -114,6 +154,8 @@ export interface UploadManagerInterface {
 	
 	// Configuration and utility methods
 	setStorage(storageInstance: FirebaseStorage): void;
+	setStorageAdapter(adapter: StorageAdapter): void;
+	getStorageAdapter(): StorageAdapter | null;
 	getBandwidthStats(): {
 		current: number;
 		average: number;
@@ -158,11 +200,71 @@ export interface UploadManagerConfig {
 	readonly autoStart: boolean;
 	readonly maxBandwidthMbps?: number;
 	readonly adaptiveBandwidth?: boolean;
+	readonly bandwidthSchedule?: readonly BandwidthWindow[];
 	readonly maxMemoryItems?: number;
 	readonly enablePersistence?: boolean;
+	readonly pathTemplate?: string;
+	readonly pathVariables?: Readonly<PathVariables>;
+	readonly onConflict?: PathConflictPolicy;
+	readonly slugifyFileNames?: boolean;
+	readonly uploadMetadata?: Readonly<StorageUploadMetadata>;
+	readonly resolveMetadata?: UploadMetadataResolver;
+	readonly verifyIntegrity?: Readonly<IntegrityOptions>;
 	enableSmartScheduling: boolean;
 }
 
+// Storage Paths
+
+/**
+ * What to do when the storage path of an upload already holds an object.
+ *
+ * - `overwrite`: upload over it (default, no lookup is made)
+ * - `rename`: upload to `name (1).ext`, `name (2).ext`, ... whichever is free
+ * - `skip`: cancel the upload with `path/skipped`
+ * - `fail`: fail the upload with `path/exists`
+ */
+export type PathConflictPolicy = 'overwrite' | 'rename' | 'skip' | 'fail';
+
+// Values for the custom tokens of a path template, e.g. { uid: user.uid } for {uid}
+export type PathVariables = Record<string, string | number>;
+
+// Deduplication
+
+/**
+ * An object uploaded under the SHA-256 hash of its content.
+ */
+export interface DeduplicationIndexEntry {
+	hash: string;
+	path: string;
+	downloadURL: string;
+	uploadedAt: number;
+}
+
+/**
+ * Local record of the content already uploaded, kept in IndexedDB by default.
+ * Lets duplicates complete without asking the storage backend.
+ */
+export interface DeduplicationIndex {
+	get(hash: string): Promise<DeduplicationIndexEntry | null>;
+	put(entry: DeduplicationIndexEntry): Promise<void>;
+	delete(hash: string): Promise<void>;
+}
+
+export interface DeduplicationOptions {
+	pathTemplate?: string; // Must contain {hash}. Default: 'content/{hash}'
+	index?: DeduplicationIndex | false; // Default: IndexedDB when available
+}
+
+// Integrity Verification
+
+// Checksums Cloud Storage keeps for every object, as `md5Hash` and `crc32c`
+export type ChecksumAlgorithm = 'md5' | 'crc32c';
+
+export interface IntegrityOptions {
+	algorithm?: ChecksumAlgorithm; // Default: 'md5'
+	deleteOnMismatch?: boolean; // Delete the object when its checksum differs. Default: false
+}
+
 /**
  * Represents a single file in the upload queue with all metadata and status information.
  * 
@@ -171,14 +273,15 @@ export interface UploadManagerConfig {
 export interface UploadItem {
 	readonly id: string;
 	readonly file: File;
-	readonly path: string;
+	path: string; // Final storage path once the upload started, see pathTemplate and onConflict
 	readonly metadata: Readonly<Record<string, any>>;
 	readonly priority: number;
 	status: UploadStatus;
+	statusHistory: UploadStatusChange[]; // Every status the item has had, oldest first
 	progress: number; // 0-100 percentage
 	uploadedBytes: number;
 	readonly totalBytes: number;
-	error: string | null;
+	error: UploadItemError | null; // Last failure, cleared on retry
 	attempts: number;
 	readonly createdAt: number;
 	startedAt?: number;
@@ -187,6 +290,26 @@ export interface UploadItem {
 	_interval?: number | NodeJS.Timeout; // Timer reference
 	hash?: string;
 	validationResult?: ValidationResult;
+	decision?: PluginDecisionRecord; // Last skip, reject or defer returned by a plugin
+	resumeState?: ResumableUploadState; // Earlier upload of the same file that can be resumed
+	readonly groupId?: string; // Set for files added with addGroup()
+	onConflict?: PathConflictPolicy; // What to do when path already exists, 'overwrite' if unset
+	readonly uploadMetadata?: StorageUploadMetadata; // Storage metadata given for this file
+	deduplicated?: boolean; // Completed with an object uploaded before, without sending the file
+}
+
+/**
+ * Category of an upload failure, derived from the Firebase `StorageError` code.
+ *
+ * Only `retryable` errors are retried automatically.
+ */
+export type UploadErrorCategory = 'retryable' | 'auth' | 'quota' | 'permanent' | 'cancelled';
+
+export interface UploadItemError {
+	code: string; // e.g. 'storage/unauthorized', or 'upload/failed' when the error had no code
+	category: UploadErrorCategory;
+	message: string;
+	attempt: number; // Attempt that failed, starting at 1
 }
 
 export interface SpeedSample {
@@ -219,12 +342,249 @@ export interface UploadManagerOptions {
 	enableHealthChecks?: boolean;
 	maxBandwidthMbps?: number;
 	adaptiveBandwidth?: boolean;
+	bandwidthSchedule?: readonly BandwidthWindow[];
 	maxMemoryItems?: number;
 	enablePersistence?: boolean;
 	resumeState?: ResumableUploadState;
+	storageAdapter?: StorageAdapter;
+	coordinateTabs?: boolean | TabCoordinatorOptions; // Off by default
+	backgroundUploads?: boolean | ServiceWorkerStorageAdapterOptions; // Off by default
+	pathTemplate?: string; // e.g. 'users/{uid}/{date:yyyy/MM}/{uuid}.{ext}', takes precedence over path
+	pathVariables?: PathVariables;
+	onConflict?: PathConflictPolicy;
+	slugifyFileNames?: boolean; // Reduce file names in generated paths to lowercase ASCII
+	uploadMetadata?: StorageUploadMetadata; // cacheControl, contentDisposition, ... and customMetadata
+	resolveMetadata?: UploadMetadataResolver; // Manager option, called for every upload
+	deduplicate?: boolean | DeduplicationOptions; // Off by default
+	verifyIntegrity?: boolean | IntegrityOptions; // Off by default, true checks the MD5
 	[key: string]: any;
 }
 
+// Storage Adapter - backend abstraction used by the upload manager
+
+/**
+ * State of a storage upload task, mirroring Firebase's `TaskState`.
+ */
+export type StorageTaskState = 'running' | 'paused' | 'success' | 'canceled' | 'error';
+
+/**
+ * Metadata describing an object that exists in the storage backend.
+ */
+export interface StorageObjectMetadata {
+	fullPath: string;
+	size: number;
+	contentType?: string;
+	cacheControl?: string;
+	contentDisposition?: string;
+	contentEncoding?: string;
+	contentLanguage?: string;
+	md5Hash?: string; // Base64, like crc32c
+	crc32c?: string;
+	customMetadata?: Record<string, string>;
+	timeCreated?: string;
+	updated?: string;
+}
+
+/**
+ * Metadata sent along with an upload, the settable fields of Firebase's `UploadMetadata`.
+ * Firebase limits the keys and values of `customMetadata` to 8 KiB in total.
+ */
+export interface StorageUploadMetadata {
+	contentType?: string;
+	cacheControl?: string; // e.g. 'public, max-age=31536000'
+	contentDisposition?: string; // e.g. 'attachment; filename="report.pdf"'
+	contentEncoding?: string; // e.g. 'gzip'
+	contentLanguage?: string; // e.g. 'en'
+	customMetadata?: Record<string, string>;
+}
+
+/**
+ * Computes storage metadata for a file when its upload starts. The result is
+ * merged over the manager's `uploadMetadata`, the file's `metadata` and
+ * `uploadMetadata`, and may be async.
+ */
+export type UploadMetadataResolver = (
+	file: File,
+	item: UploadItem
+) => StorageUploadMetadata | Promise<StorageUploadMetadata>;
+
+/**
+ * Point-in-time view of an upload task's progress.
+ */
+export interface StorageUploadSnapshot {
+	bytesTransferred: number;
+	totalBytes: number;
+	state: StorageTaskState;
+	metadata?: StorageObjectMetadata;
+	sessionUrl?: string; // Resumable session holding the transferred bytes, if the adapter exposes it
+}
+
+export interface StorageUploadObserver {
+	next?: (snapshot: StorageUploadSnapshot) => void;
+	error?: (error: Error) => void;
+	complete?: (snapshot: StorageUploadSnapshot) => void;
+}
+
+/**
+ * A running upload returned by `StorageAdapter.upload()`.
+ *
+ * `on()` returns an unsubscribe function. `pause()`, `resume()` and `cancel()`
+ * return whether the call had any effect, matching Firebase's `UploadTask`.
+ */
+export interface StorageUploadTask {
+	readonly snapshot: StorageUploadSnapshot;
+	on(observer: StorageUploadObserver): () => void;
+	pause(): boolean;
+	resume(): boolean;
+	cancel(): boolean;
+}
+
+/**
+ * Storage backend used by the upload manager.
+ *
+ * The Firebase implementation is used by default when `setStorage()` is called;
+ * `MemoryStorageAdapter` can be used for tests and local development.
+ */
+export interface StorageAdapter {
+	readonly name: string;
+	// Checksums the adapter reports in object metadata, required by verifyIntegrity
+	readonly checksums?: readonly ChecksumAlgorithm[];
+	upload(path: string, data: Blob, metadata?: StorageUploadMetadata): StorageUploadTask;
+	getURL(path: string): Promise<string>;
+	delete(path: string): Promise<void>;
+	// Resolves to null when no object exists at the path
+	head(path: string): Promise<StorageObjectMetadata | null>;
+	// Continue a session from a snapshot's `sessionUrl`. Resolves to null when it expired.
+	resume?(
+		sessionUrl: string,
+		path: string,
+		data: Blob,
+		metadata?: StorageUploadMetadata
+	): Promise<StorageUploadTask | null>;
+}
+
+// Upload Handles
+
+export interface UploadProgress {
+	progress: number; // 0-100 percentage
+	uploadedBytes: number;
+	totalBytes: number;
+}
+
+/**
+ * Value an `UploadHandle.done` promise resolves with.
+ */
+export interface UploadResult {
+	downloadURL: string;
+	path: string;
+	metadata?: StorageObjectMetadata;
+}
+
+/**
+ * Handle for a single file returned by `enqueue()`.
+ *
+ * `done` resolves when the upload completes and rejects with an `UploadError`
+ * when it fails permanently or is cancelled.
+ */
+export interface UploadHandle {
+	readonly id: string;
+	readonly done: Promise<UploadResult>;
+	pause(): Promise<void>;
+	resume(): Promise<void>;
+	cancel(): Promise<void>;
+	onProgress(handler: (progress: UploadProgress) => void): () => void;
+}
+
+// Upload Groups
+
+/**
+ * Files added together with `addGroup()`, tracked and controlled as a unit.
+ * Groups are reactive: their counts and progress follow the files.
+ *
+ * `status` is `completed`, `failed` or `cancelled` once every file finished:
+ * `failed` if any file failed, `cancelled` if all were cancelled. Until then it
+ * is `uploading` while a file uploads, `paused` when every unfinished file is
+ * paused, and `queued` otherwise. Files waiting for a retry count as queued.
+ */
+export interface UploadGroup {
+	readonly id: string;
+	readonly name: string;
+	status: UploadStatus;
+	progress: number; // 0-100 percentage of the group's bytes
+	uploadedBytes: number;
+	totalBytes: number;
+	totalFiles: number;
+	queuedFiles: number;
+	uploadingFiles: number;
+	pausedFiles: number;
+	completedFiles: number;
+	failedFiles: number;
+	cancelledFiles: number;
+	readonly createdAt: number;
+	completedAt?: number; // Set when every file finished
+}
+
+// Manager Events
+
+/**
+ * Events emitted by the upload manager, keyed by event name with their payloads.
+ *
+ * Subscribe with `manager.on(event, handler)`; handlers run synchronously and
+ * do not go through the plugin system.
+ */
+export interface UploadManagerEvents {
+	progress: { item: UploadItem; progress: number; uploadedBytes: number; totalBytes: number };
+	complete: { item: UploadItem; downloadURL: string };
+	error: { item: UploadItem; error: Error; willRetry: boolean };
+	cancelled: { item: UploadItem };
+	statusChange: { item: UploadItem; oldStatus: UploadStatus; newStatus: UploadStatus };
+	queueDrained: { successCount: number; failureCount: number };
+	paused: { fileIds: string[] };
+	resumed: { fileIds: string[] };
+	bandwidthWindowChange: { previous: BandwidthWindow | null; current: BandwidthWindow | null };
+	leadershipChange: { isLeader: boolean };
+	tabSync: { state: MirroredUploadState }; // Follower tabs only
+	groupComplete: { group: UploadGroup };
+}
+
+export type UploadManagerEventName = keyof UploadManagerEvents;
+
+export type UploadManagerEventHandler<K extends UploadManagerEventName> = (
+	payload: UploadManagerEvents[K]
+) => void;
+
+/**
+ * Snapshot of the manager passed to `onManagerStateChange` when processing
+ * starts, pauses, resumes, stops or the queue drains.
+ * Health checks pass their `HealthCheckResult` to the same hook.
+ */
+export interface UploadManagerState {
+	isProcessing: boolean;
+	isPaused: boolean;
+	queued: number;
+	active: number;
+	successCount: number;
+	failureCount: number;
+}
+
+/**
+ * Returned by a `beforeFileAdd` or `beforeUpload` hook instead of its usual
+ * value to stop a file. Plugins after the one that decided are not called.
+ *
+ * - `skip`: the file is not uploaded and is not counted as a failure
+ *   (`cancelled`, handles reject with `plugin/skipped`)
+ * - `reject`: the file is not uploaded and counts as a failure
+ *   (`failed`, handles reject with `plugin/rejected`)
+ * - `defer`: the hook runs again at `until` (epoch milliseconds or a Date)
+ */
+export type PluginDecision =
+	| { action: 'skip'; reason: string }
+	| { action: 'reject'; reason: string }
+	| { action: 'defer'; until: number | Date; reason?: string };
+
+// A plugin decision with the name of the plugin that made it
+export type PluginDecisionRecord = PluginDecision & { plugin: string };
+
 // Plugin System Types - Comprehensive plugin interface matching plugin-system implementation
 export interface UploadPlugin {
 	// Plugin metadata
@@ -240,7 +600,10 @@ export interface UploadPlugin {
 	beforeFileAdd?: (
 		file: File,
 		options: any
-	) => Promise<{ file: File; options: any }> | { file: File; options: any };
+	) =>
+		| Promise<{ file: File; options: any } | PluginDecision>
+		| { file: File; options: any }
+		| PluginDecision;
 	afterFileAdd?: (item: UploadItem) => Promise<void> | void;
 
 	// Validation hooks
@@ -251,11 +614,14 @@ export interface UploadPlugin {
 	afterValidation?: (file: File, result: ValidationResult) => Promise<void> | void;
 
 	// Upload lifecycle hooks
-	beforeUpload?: (item: UploadItem) => Promise<UploadItem> | UploadItem;
+	beforeUpload?: (
+		item: UploadItem
+	) => Promise<UploadItem | PluginDecision> | UploadItem | PluginDecision;
 	onUploadStart?: (item: UploadItem) => Promise<void> | void;
 	onUploadProgress?: (item: UploadItem, progress: number) => Promise<void> | void;
 	onUploadComplete?: (item: UploadItem, result: any) => Promise<void> | void;
 	onUploadError?: (item: UploadItem, error: Error) => Promise<void> | void;
+	onGroupComplete?: (group: UploadGroup) => Promise<void> | void;
 
 	// Queue management hooks
 	beforeQueueProcess?: (queue: UploadItem[]) => Promise<UploadItem[]> | UploadItem[];
@@ -267,7 +633,7 @@ export interface UploadPlugin {
 		oldStatus: UploadStatus,
 		newStatus: UploadStatus
 	) => Promise<void> | void;
-	onManagerStateChange?: (state: any) => Promise<void> | void;
+	onManagerStateChange?: (state: UploadManagerState | HealthCheckResult) => Promise<void> | void;
 
 	// Error handling hooks
 	onError?: (error: Error, context: any) => Promise<void> | void;
@@ -283,13 +649,199 @@ export interface VirtualQueueConfig {
 	persistenceKey?: string;
 }
 
+// Per-call upload options kept with a lazily added batch
+export interface FileBatchOptions {
+	path?: string;
+	pathTemplate?: string;
+	pathVariables?: PathVariables;
+	onConflict?: PathConflictPolicy;
+	slugifyFileNames?: boolean;
+	uploadMetadata?: StorageUploadMetadata;
+	metadata?: Record<string, any>;
+	priority?: number;
+}
+
 export interface FileBatch {
 	id: string;
 	files: File[];
 	processed: boolean;
 	createdAt: number;
+	options?: FileBatchOptions;
+}
+
+/**
+ * An unfinished upload saved when `enablePersistence` is on.
+ * The `File` itself is stored in IndexedDB, so the upload can start again after a reload.
+ */
+export interface PersistedUploadItem {
+	id: string;
+	file: File;
+	path: string;
+	metadata: Record<string, any>;
+	priority: number;
+	status: 'queued' | 'paused' | 'failed'; // Uploads in progress are saved as queued
+	attempts: number;
+	error: UploadItemError | null;
+	createdAt: number;
+	resumeState?: ResumableUploadState;
+	onConflict?: PathConflictPolicy;
+	uploadMetadata?: StorageUploadMetadata;
+}
+
+export interface PersistedUploadState {
+	version: number;
+	savedAt: number;
+	items: PersistedUploadItem[];
+}
+
+// Result of FirebaseUploadManager.restore()
+export interface RestoreResult {
+	restored: number;
+	queued: number;
+	paused: number;
+	failed: number;
+	resumed: number; // Restored files linked to a resumable upload state
+}
+
+// Tab Coordination
+
+/**
+ * Lock API used for leader election, `navigator.locks` by default.
+ */
+export interface TabLockManager {
+	request(
+		name: string,
+		options: { signal?: AbortSignal },
+		callback: () => Promise<void>
+	): Promise<void>;
+}
+
+/**
+ * Channel between the tabs of the same origin, a `BroadcastChannel` by default.
+ */
+export interface TabChannel {
+	postMessage(message: unknown): void;
+	close(): void;
+	onmessage: ((event: MessageEvent) => void) | null;
+}
+
+export interface TabCoordinatorOptions {
+	name?: string; // Lock and channel name, tabs with the same name share one leader
+	heartbeatInterval?: number; // BroadcastChannel fallback only, in ms
+	leaderTimeout?: number; // Silence after which a tab is considered closed, in ms
+	locks?: TabLockManager | null; // null forces the BroadcastChannel fallback
+	createChannel?: ((name: string) => TabChannel) | null;
 }
 
+/**
+ * A file of the leader tab as seen by follower tabs.
+ */
+export interface MirroredUploadItem {
+	id: string;
+	name: string;
+	size: number;
+	path: string;
+	status: UploadStatus;
+	progress: number;
+	uploadedBytes: number;
+	downloadURL?: string;
+	error: UploadItemError | null;
+	willRetry: boolean; // Failed, waiting for a retry
+}
+
+// Progress of the leader tab, broadcast to follower tabs
+export interface MirroredUploadState {
+	isProcessing: boolean;
+	isPaused: boolean;
+	totalFiles: number;
+	totalSize: number;
+	uploadedSize: number;
+	successCount: number;
+	failureCount: number;
+	files: MirroredUploadItem[];
+}
+
+export type TabCommand =
+	| 'start'
+	| 'pause'
+	| 'resume'
+	| 'pauseFile'
+	| 'resumeFile'
+	| 'cancel'
+	| 'removeFile';
+
+// Messages exchanged by upload managers in different tabs
+export type TabMessage =
+	| { type: 'state'; state: MirroredUploadState }
+	| { type: 'request-state' }
+	| { type: 'enqueue'; id: string; file: File; options: FileBatchOptions }
+	| { type: 'enqueued'; id: string; decision: PluginDecisionRecord | null } // Reply to enqueue
+	| { type: 'command'; command: TabCommand; fileId?: string };
+
+// Background Uploads
+
+/**
+ * The parts of `navigator.serviceWorker` used by `ServiceWorkerStorageAdapter`.
+ */
+export interface BackgroundServiceWorkerContainer {
+	readonly controller: { postMessage(message: unknown): void } | null;
+	readonly ready: Promise<{ sync?: { register(tag: string): Promise<void> } }>;
+	addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+	removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+export interface ServiceWorkerStorageAdapterOptions {
+	container?: BackgroundServiceWorkerContainer; // Default: navigator.serviceWorker
+	// Sent to the worker with every upload, e.g. `() => auth.currentUser?.getIdToken()`
+	getAuthToken?: () => Promise<string | null | undefined>;
+	syncTag?: string; // Background Sync tag. Default: 'upload-manager'
+}
+
+/**
+ * An upload handed to the service worker. Jobs are keyed by storage path:
+ * uploading the same file to the same path again attaches to the existing job.
+ */
+export interface BackgroundUploadJob {
+	id: string; // The upload id, see ServiceWorkerStorageAdapter
+	path: string;
+	file: Blob;
+	metadata: StorageUploadMetadata;
+	authToken?: string;
+}
+
+export interface BackgroundUploadJobStatus {
+	id: string;
+	path: string;
+	state: StorageTaskState;
+	bytesTransferred: number;
+	totalBytes: number;
+	metadata?: StorageObjectMetadata; // Once the upload succeeded
+	error?: { code: string; message: string; status?: number };
+	updatedAt: number;
+}
+
+/**
+ * Messages a page posts to the service worker controlling it.
+ * Every message type starts with `upload-manager:`.
+ */
+export type BackgroundUploadRequest =
+	| { type: 'upload-manager:upload'; job: BackgroundUploadJob }
+	| { type: 'upload-manager:pause'; jobId: string }
+	| { type: 'upload-manager:resume'; jobId: string }
+	| { type: 'upload-manager:cancel'; jobId: string }
+	| { type: 'upload-manager:acknowledge'; jobId: string } // The page has the result, forget the job
+	| { type: 'upload-manager:list' } // Answered with `upload-manager:jobs`
+	| { type: 'upload-manager:auth'; token: string | null };
+
+/**
+ * Messages the service worker posts to every open page of its scope.
+ */
+export type BackgroundUploadEvent =
+	| { type: 'upload-manager:progress'; job: BackgroundUploadJobStatus }
+	| { type: 'upload-manager:complete'; job: BackgroundUploadJobStatus }
+	| { type: 'upload-manager:error'; job: BackgroundUploadJobStatus }
+	| { type: 'upload-manager:jobs'; jobs: BackgroundUploadJobStatus[] };
+
 // Network Resilience
 export interface NetworkMonitor {
 	isOnline: boolean;
@@ -311,15 +863,43 @@ export interface RetryConfig {
 
 // Bandwidth Control
 export interface BandwidthConfig {
-	maxBandwidthMbps: number;
+	maxBandwidthMbps: number; // Infinity for no limit
 	adaptiveBandwidth: boolean;
-	throttleInterval: number;
+	throttleInterval: number; // Shortest pause when over the limit, in ms
+	schedule?: readonly BandwidthWindow[]; // Overrides maxBandwidthMbps while a window is active
+}
+
+/**
+ * A recurring time-of-day window with its own bandwidth cap.
+ *
+ * Times are local `HH:MM`. A window whose `end` is before its `start` runs
+ * past midnight into the next day; `start` equal to `end` covers the whole day.
+ * When windows overlap, the first one in the schedule wins.
+ *
+ * @example
+ * ```typescript
+ * // Hold uploads during office hours, cap them in the evening
+ * const schedule: BandwidthWindow[] = [
+ *   { name: 'office', days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00', maxBandwidthMbps: 'paused' },
+ *   { name: 'evening', start: '18:00', end: '22:00', maxBandwidthMbps: 5 }
+ * ];
+ * ```
+ */
+export interface BandwidthWindow {
+	name?: string;
+	days?: readonly number[]; // 0 = Sunday ... 6 = Saturday, every day when omitted
+	start: string; // Local time, HH:MM
+	end: string; // Local time, HH:MM
+	maxBandwidthMbps: number | 'paused'; // 'paused' holds uploads for the whole window
 }
 
-export interface ThrottleInfo {
-	bytesPerSecond: number;
-	lastUpdate: number;
-	queue: Array<() => void>;
+export interface BandwidthStats {
+	current: number; // Bytes per second over the last second
+	average: number;
+	peak: number;
+	limit: number; // Bytes per second, Infinity when there is no limit, 0 while paused
+	utilization: number; // Percentage of limit used, 0 when there is no limit
+	window: BandwidthWindow | null; // Schedule window in effect, null outside all windows
 }
 
 // File Validation
@@ -398,11 +978,14 @@ export interface ResumableUploadState {
 	fileId: string;
 	fileName: string;
 	fileSize: number;
+	lastModified?: number;
 	uploadedBytes: number;
 	chunks: ChunkState[];
 	metadata: Record<string, any>;
 	createdAt: number;
 	lastUpdated: number;
+	sessionUrl?: string; // Resumable session of the last attempt; uploadedBytes is its committed offset
+	storagePath?: string;
 }
 
 export interface ChunkState {
@@ -452,6 +1035,7 @@ export type PluginEventType =
 	| 'onUploadProgress'
 	| 'onUploadComplete'
 	| 'onUploadError'
+	| 'onGroupComplete'
 	| 'beforeQueueProcess'
 	| 'afterQueueProcess'
 	| 'onStatusChange'
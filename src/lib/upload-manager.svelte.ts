@@ -1,5 +1,6 @@
 import type {
 	UploadManagerConfig,
+	BandwidthWindow,
 	UploadItem,
 	UploadTask,
 	SpeedSample,
@@ -9,29 +10,82 @@ import type {
 	ValidationRule,
 	ValidationResult,
 	ResumableUploadState,
+	PersistedUploadItem,
+	PersistedUploadState,
+	RestoreResult,
 	HealthStatus,
 	HealthCheckResult,
 	StorageQuota,
 	PermissionStatus,
 	UploadManagerInterface,
 	UploadPlugin,
-	PluginConfig
+	PluginConfig,
+	PluginDecisionRecord,
+	StorageAdapter,
+	StorageUploadTask,
+	StorageUploadSnapshot,
+	StorageUploadMetadata,
+	StorageObjectMetadata,
+	DeduplicationIndex,
+	UploadManagerEvents,
+	UploadManagerEventName,
+	UploadManagerEventHandler,
+	UploadManagerState,
+	UploadHandle,
+	UploadResult,
+	UploadProgress,
+	FileBatchOptions,
+	MirroredUploadItem,
+	MirroredUploadState,
+	TabCommand,
+	TabMessage,
+	ServiceWorkerStorageAdapterOptions,
+	BackgroundUploadJobStatus,
+	UploadGroup
 } from './types.js';
 
-// Firebase imports
-import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
-import type {
-	StorageReference,
-	UploadTask as FirebaseUploadTask,
-	UploadTaskSnapshot
-} from 'firebase/storage';
+import { UploadError } from './errors.js';
+
+import { FirebaseStorageAdapter } from './adapters/firebase-adapter.svelte.js';
+import { ServiceWorkerStorageAdapter } from './adapters/service-worker-adapter.svelte.js';
 import { MemoryManager } from './utils/memory-manager.svelte.js';
 import { NetworkManager } from './utils/network-manager.svelte.js';
 import { BandwidthManager } from './utils/bandwidth-manager.svelte.js';
 import { FileValidator } from './utils/file-validator.svelte.js';
 import { UploadResumer } from './utils/upload-resumer.svelte.js';
-import { PluginSystem } from './utils/plugin-system.svelte.js';
+import { PluginSystem, isPluginDecision } from './utils/plugin-system.svelte.js';
 import { ConfigValidator } from './utils/config-validator.svelte.js';
+import { EventEmitter } from './utils/event-emitter.svelte.js';
+import { TabCoordinator } from './utils/tab-coordinator.svelte.js';
+import { classifyError } from './utils/error-classifier.svelte.js';
+import {
+	HASH_TOKEN,
+	appendPathSuffix,
+	defaultUploadPath,
+	needsFileHash,
+	resolvePathTemplate
+} from './utils/path-template.svelte.js';
+import { sanitizeStoragePath } from './utils/path-sanitizer.svelte.js';
+import { IndexedDBDeduplicationIndex } from './utils/deduplication-index.svelte.js';
+import { computeChecksum, getStoredChecksum } from './utils/checksum.svelte.js';
+import {
+	mergeUploadMetadata,
+	toCustomMetadata,
+	validateUploadMetadata
+} from './utils/upload-metadata.svelte.js';
+import {
+	canTransition,
+	createStatusHistory,
+	transitionStatus
+} from './utils/upload-state-machine.svelte.js';
+
+// An object found to hold the content of a file about to be uploaded
+interface UploadedCopy {
+	path: string;
+	downloadURL: string;
+	metadata?: StorageObjectMetadata;
+	indexed: boolean; // Found in the deduplication index rather than in storage
+}
 
 /**
  * Enterprise-grade Firebase Storage upload manager with advanced features.
@@ -72,7 +126,11 @@ class FirebaseUploadManager {
 	private static readonly BATCH_PROCESSING_DELAY = 100;
 	private static readonly MEMORY_BATCH_SIZE = 100;
 	private static readonly MAX_MEMORY_ITEMS = 1000;
-	private static readonly MAX_BANDWIDTH_MBPS = 10;
+	private static readonly PERSIST_DELAY = 250; // Batch state saves from bursts of changes
+	private static readonly PERSISTED_STATE_VERSION = 1;
+	private static readonly TAB_SYNC_DELAY = 250; // Batch progress sent to follower tabs
+	private static readonly MAX_PATH_RENAMES = 100; // onConflict 'rename' gives up after name (100).ext
+	private static readonly DEDUPLICATION_PATH = 'content/{hash}';
 	private static readonly FILE_SIZE_THRESHOLDS = {
 		SMALL: 1024 * 1024, // 1MB
 		MEDIUM: 5 * 1024 * 1024, // 5MB
@@ -88,6 +146,7 @@ class FirebaseUploadManager {
 	public completed = $state<Map<string, UploadItem>>(new Map()); // Successfully uploaded files
 	public failed = $state<Map<string, UploadItem>>(new Map()); // Failed uploads with error info
 	public paused = $state<Set<string>>(new Set()); // Paused uploads
+	public cancelled = $state<Map<string, UploadItem>>(new Map()); // Uploads cancelled before finishing
 
 	// Global state
 	public isProcessing = $state(false);
@@ -105,6 +164,7 @@ class FirebaseUploadManager {
 
 	// Internal tracking (non-reactive)
 	private _uploadTasks: Map<string, UploadTask> = new Map();
+	private _checksums: Map<string, Promise<string | null>> = new Map(); // Computed while files upload
 	private _speedSamples: SpeedSample[] = [];
 	private _lastProgressUpdate: number = Date.now();
 	private _healthCheckInterval?: number | NodeJS.Timeout;
@@ -121,17 +181,88 @@ class FirebaseUploadManager {
 	private _fileValidator: FileValidator;
 	private _uploadResumer: UploadResumer;
 
-	private _lastBandwidthUpdate: number = Date.now();
 	private _pausedByHealth: boolean = false;
+
+	// Uploads whose storage tasks are paused to stay under maxBandwidthMbps
+	private _throttledIds: Set<string> = new Set();
+	private _throttleTimer?: number | NodeJS.Timeout;
 	// Plugin system
 	public pluginSystem: PluginSystem;
 
 	// Configuration validator
 	private _configValidator: ConfigValidator;
 
+	// Typed lifecycle events for subscribers outside the plugin system
+	private _events = new EventEmitter<UploadManagerEvents>();
+
+	// Pending `done` promises of handles returned by enqueue()
+	private _pendingHandles: Map<
+		string,
+		{ resolve: (result: UploadResult) => void; reject: (error: UploadError) => void }
+	> = new Map();
+
+	// Items paused with pauseFile(), held outside the queue and the concurrency slots
+	private _pausedItems: Map<string, UploadItem> = new Map();
+
+	// Active items whose storage task is not created yet, true once pauseFile() was called for them
+	private _startingUploads: Map<string, boolean> = new Map();
+
+	// Failed items waiting for their retry delay before going back to the queue
+	private _pendingRetries: Map<string, UploadItem> = new Map();
+
+	// Storage paths resolved for items that have not settled yet, by item id
+	private _claimedPaths: Map<string, string> = new Map();
+
+	// Guards against two _processQueue loops paging in the same memory batch
+	private _loadingBatches = false;
+
+	// Items whose beforeFileAdd pipeline has not finished yet
+	private _preparingItems: Map<string, UploadItem> = new Map();
+
+	// Items a plugin deferred, waiting for their `until` time
+	private _deferredItems: Map<string, UploadItem> = new Map();
+
+	// Groups of files added with addGroup(), reactive like the queue
+	public groups = $state<Map<string, UploadGroup>>(new Map());
+	// File ids of every group, with the final status of files cleared from memory
+	private _groupFiles: Map<string, Map<string, UploadStatus | null>> = new Map();
+	// Groups whose counts are recomputed on the next microtask
+	private _staleGroups: Set<string> = new Set();
+
+	// Set when files were queued since beforeQueueProcess last ordered the queue
+	private _queueNeedsOrdering = false;
+
+	// Pending save of the queue to IndexedDB when enablePersistence is on
+	private _persistTimer?: number | NodeJS.Timeout;
+
+	// Multi-tab coordination: only the leader tab uploads, followers mirror its state
+	public isLeader = $state(true);
+	public mirroredFiles = $state<MirroredUploadItem[]>([]); // Files of the leader tab, in followers
+	private _tabCoordinator: TabCoordinator | null = null;
+	private _tabSyncTimer?: number | NodeJS.Timeout;
+	private _leaderTabId: string | null = null;
+
+	// Files a follower sent to the leader that it has not acknowledged yet
+	private _forwardedFiles: Map<
+		string,
+		{
+			file: File;
+			options: FileBatchOptions;
+			settle: (decision: PluginDecisionRecord | null) => void;
+		}
+	> = new Map();
+
 	// Initialize Firebase storage reference
 	public storage: FirebaseStorage | null = null; // To be set via setStorage method
 
+	// Storage backend used for all object operations (Firebase by default)
+	private _storageAdapter: StorageAdapter | null = null;
+
+	// Set when uploads are handed to a service worker, see backgroundUploads
+	private _backgroundUploads: ServiceWorkerStorageAdapterOptions | null = null;
+	private _deduplication: { pathTemplate: string; index: DeduplicationIndex | null } | null =
+		null;
+
 	// Derived values (Svelte 5 way)
 	public totalProgress = $derived(
 		this.totalSize > 0 ? (this.uploadedSize / this.totalSize) * 100 : 0
@@ -221,9 +352,14 @@ class FirebaseUploadManager {
 		});
 
 		this._bandwidthManager = new BandwidthManager({
-			maxBandwidthMbps: options.maxBandwidthMbps || FirebaseUploadManager.MAX_BANDWIDTH_MBPS,
-			adaptiveBandwidth: options.adaptiveBandwidth || true
+			// No limit unless maxBandwidthMbps is set
+			maxBandwidthMbps: this.config.maxBandwidthMbps ?? Infinity,
+			adaptiveBandwidth: options.adaptiveBandwidth ?? true,
+			schedule: this.config.bandwidthSchedule
 		});
+		this._bandwidthManager.onWindowChange((current, previous) =>
+			this._handleBandwidthWindowChange(current, previous)
+		);
 
 		// Initialize enterprise feature managers
 		this._fileValidator = new FileValidator();
@@ -236,6 +372,31 @@ class FirebaseUploadManager {
 		// Initialize plugin system
 		this.pluginSystem = new PluginSystem(this as any as UploadManagerInterface);
 
+		// Wraps every storage backend set below or later
+		if (options.backgroundUploads) {
+			this._backgroundUploads =
+				options.backgroundUploads === true ? {} : options.backgroundUploads;
+		}
+
+		// Content-addressed uploads, every file goes to a path derived from its hash
+		if (options.deduplicate) {
+			const { pathTemplate = FirebaseUploadManager.DEDUPLICATION_PATH, index } =
+				options.deduplicate === true ? {} : options.deduplicate;
+			const defaultIndex =
+				index === undefined && IndexedDBDeduplicationIndex.isAvailable()
+					? new IndexedDBDeduplicationIndex()
+					: null;
+			this._deduplication = {
+				pathTemplate,
+				index: index === false ? null : (index ?? defaultIndex)
+			};
+		}
+
+		// Use a custom storage backend if one was provided
+		if (options.storageAdapter) {
+			this._setAdapter(options.storageAdapter);
+		}
+
 		// Set up network monitoring
 		this._networkManager.onOffline(() => this.pause());
 		this._networkManager.onOnline(() => this.resume());
@@ -244,6 +405,20 @@ class FirebaseUploadManager {
 		if (options.enableHealthChecks !== false) {
 			this._startPeriodicHealthCheck();
 		}
+
+		// Tabs sharing the persisted queue elect one leader to upload it
+		if (options.coordinateTabs) {
+			this.isLeader = false;
+			this._tabCoordinator = new TabCoordinator(
+				options.coordinateTabs === true ? {} : options.coordinateTabs
+			);
+			this._tabCoordinator.onLeadershipChange((isLeader) =>
+				this._handleLeadershipChange(isLeader)
+			);
+			this._tabCoordinator.onMessage((message, tabId) => this._handleTabMessage(message, tabId));
+			this._tabCoordinator.start();
+			this._tabCoordinator.broadcast({ type: 'request-state' });
+		}
 	}
 
 	// Getters for computed values (works great with $derived())
@@ -252,6 +427,28 @@ class FirebaseUploadManager {
 		return this._bandwidthManager.getBandwidthStats();
 	}
 
+	/**
+	 * Replace the time-of-day bandwidth schedule.
+	 * The new schedule applies right away, firing `bandwidthWindowChange`
+	 * if a different window is now in effect.
+	 *
+	 * @param schedule - Windows to apply, an empty array removes the schedule
+	 *
+	 * @example
+	 * ```typescript
+	 * // Full speed at night, 2 Mbps during working hours
+	 * manager.setBandwidthSchedule([
+	 *   { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00', maxBandwidthMbps: 2 }
+	 * ]);
+	 * ```
+	 */
+	setBandwidthSchedule(schedule: readonly BandwidthWindow[]): void {
+		(this.config as { bandwidthSchedule?: readonly BandwidthWindow[] }).bandwidthSchedule = [
+			...schedule
+		];
+		this._bandwidthManager.setSchedule(schedule);
+	}
+
 	// Get network quality
 	getNetworkQuality() {
 		return this._networkManager.getNetworkQuality();
@@ -437,6 +634,63 @@ class FirebaseUploadManager {
 	 */
 	setStorage(storageInstance: FirebaseStorage): void {
 		this.storage = storageInstance;
+		this._setAdapter(new FirebaseStorageAdapter(storageInstance));
+	}
+
+	/**
+	 * Set a custom storage backend to use for uploads.
+	 * Use this instead of setStorage() to upload somewhere other than Firebase,
+	 * or to run upload flows against MemoryStorageAdapter in tests.
+	 *
+	 * @param adapter - Storage adapter implementation
+	 *
+	 * @example
+	 * ```typescript
+	 * import { MemoryStorageAdapter } from 'svelte-firebase-upload';
+	 *
+	 * manager.setStorageAdapter(new MemoryStorageAdapter());
+	 * ```
+	 */
+	setStorageAdapter(adapter: StorageAdapter): void {
+		this._setAdapter(adapter);
+	}
+
+	// Get the storage backend currently in use
+	getStorageAdapter(): StorageAdapter | null {
+		return this._storageAdapter;
+	}
+
+	/**
+	 * Subscribe to upload lifecycle events without writing a plugin.
+	 * Handlers are called synchronously with a typed payload.
+	 *
+	 * @param event - Event name
+	 * @param handler - Callback receiving the event payload
+	 * @returns Function that removes the subscription
+	 *
+	 * @example
+	 * ```typescript
+	 * const unsubscribe = manager.on('progress', ({ item, progress }) => {
+	 *   console.log(`${item.file.name}: ${progress.toFixed(0)}%`);
+	 * });
+	 *
+	 * manager.on('queueDrained', ({ successCount, failureCount }) => {
+	 *   console.log(`Done: ${successCount} uploaded, ${failureCount} failed`);
+	 * });
+	 *
+	 * unsubscribe();
+	 * ```
+	 */
+	on<K extends UploadManagerEventName>(event: K, handler: UploadManagerEventHandler<K>): () => void {
+		return this._events.on(event, handler);
+	}
+
+	// Subscribe to the next occurrence of an event only
+	once<K extends UploadManagerEventName>(
+		event: K,
+		handler: UploadManagerEventHandler<K>
+	): () => void {
+		return this._events.once(event, handler);
 	}
 
 	/**
@@ -444,7 +698,9 @@ class FirebaseUploadManager {
 	 * 
 	 * @param fileList - Files to upload (FileList from input or File array)
 	 * @param options - Upload options for these files
-	 * @returns Promise resolving to the number of files added
+	 * @returns Promise resolving to the number of files added. Files skipped or
+	 * rejected by a `beforeFileAdd` plugin are not counted; for large sets the
+	 * plugins run when the files are paged into the queue.
 	 * 
 	 * @example
 	 * ```typescript
@@ -465,13 +721,32 @@ class FirebaseUploadManager {
 	async addFiles(fileList: FileList | File[], options: UploadManagerOptions = {}): Promise<number> {
 		const files = Array.from(fileList);
 
-		// Use memory manager for large file sets
-		if (files.length > 100) {
-			await this._memoryManager.addFilesLazy(files);
+		// Follower tabs hand their files to the leader tab and wait until it has them
+		if (this._isFollower()) {
+			const decisions = await Promise.all(
+				files.map((file) => this._forwardFile(file, options, this._generateFileId(file)))
+			);
+			return decisions.filter((decision) => !decision || decision.action === 'defer').length;
+		}
+
+		// Use memory manager for large file sets, batches are paged into the queue by _processQueue
+		if (files.length > FirebaseUploadManager.MEMORY_BATCH_SIZE) {
+			// The batch carries the manager's path defaults at the time the files were added
+			await this._memoryManager.addFilesLazy(files, undefined, {
+				path: options.path,
+				pathTemplate:
+					options.pathTemplate ?? (options.path ? undefined : this.config.pathTemplate),
+				pathVariables: { ...this.config.pathVariables, ...options.pathVariables },
+				onConflict: options.onConflict ?? this.config.onConflict,
+				slugifyFileNames: options.slugifyFileNames ?? this.config.slugifyFileNames,
+				uploadMetadata: options.uploadMetadata,
+				metadata: options.metadata,
+				priority: options.priority
+			});
 
-			// Include pending totals in overall totals
-			this.totalFiles += this._memoryManager.getPendingTotalFiles();
-			this.totalSize += this._memoryManager.getPendingTotalSize();
+			// Include pending files in overall totals
+			this.totalFiles += files.length;
+			this.totalSize += files.reduce((sum, file) => sum + file.size, 0);
 
 			// Check autoStart even for large file sets
 			if (this.config.autoStart && !this.isProcessing) {
@@ -482,34 +757,93 @@ class FirebaseUploadManager {
 		}
 
 		// Process files normally for smaller sets
+		let added = 0;
 		for (const file of files) {
-			const fileId = this._generateFileId(file);
-			const uploadItem: UploadItem = {
-				id: fileId,
-				file: file,
-				path: options.path || `uploads/${file.name}`,
-				metadata: options.metadata || {},
-				priority: options.priority || 0,
-				status: 'queued',
-				progress: 0,
-				uploadedBytes: 0,
-				totalBytes: file.size,
-				error: null,
-				attempts: 0,
-				createdAt: Date.now(),
-				...options
-			};
-
-			this.queue.push(uploadItem);
-			this.totalFiles++;
-			this.totalSize += file.size;
+			const decision = await this._addFile(file, options);
+			if (!decision || decision.action === 'defer') {
+				added++;
+			}
 		}
 
 		if (this.config.autoStart && !this.isProcessing) {
 			this.start();
 		}
 
-		return files.length;
+		return added;
+	}
+
+	/**
+	 * Add a single file to the upload queue and get a handle to track it.
+	 *
+	 * @param file - File to upload
+	 * @param options - Upload options for this file
+	 * @returns Handle whose `done` promise settles when the upload finishes
+	 *
+	 * @example
+	 * ```typescript
+	 * const handle = manager.enqueue(avatarFile, { path: `avatars/${userId}.jpg` });
+	 * handle.onProgress(({ progress }) => (avatarProgress = progress));
+	 *
+	 * try {
+	 *   const { downloadURL } = await handle.done;
+	 *   profile.avatarUrl = downloadURL;
+	 * } catch (error) {
+	 *   if (error instanceof UploadError && error.code === 'upload/cancelled') return;
+	 *   throw error;
+	 * }
+	 * ```
+	 */
+	enqueue(file: File, options: UploadManagerOptions = {}): UploadHandle {
+		const id = this._generateFileId(file);
+
+		const done = new Promise<UploadResult>((resolve, reject) => {
+			this._pendingHandles.set(id, { resolve, reject });
+		});
+		// Callers that never await `done` should not trigger unhandled rejections
+		done.catch(() => {});
+
+		// The file is visible through getFile() as soon as this returns,
+		// or through mirroredFiles once the leader tab has it
+		if (this._isFollower()) {
+			this._forwardFile(file, options, id);
+		} else {
+			this._queueFile(file, options, id);
+		}
+
+		return {
+			id,
+			done,
+			pause: async () => {
+				await this.pauseFile(id);
+			},
+			resume: async () => {
+				await this.resumeFile(id);
+			},
+			cancel: async () => {
+				await this.cancel(id);
+			},
+			onProgress: (handler: (progress: UploadProgress) => void) => {
+				const unsubscribeLocal = this._events.on(
+					'progress',
+					({ item, progress, uploadedBytes, totalBytes }) => {
+						if (item.id === id) {
+							handler({ progress, uploadedBytes, totalBytes });
+						}
+					}
+				);
+				const unsubscribeMirrored = this._events.on('tabSync', ({ state }) => {
+					const mirrored = state.files.find((file) => file.id === id);
+					if (mirrored) {
+						const { progress, uploadedBytes, size } = mirrored;
+						handler({ progress, uploadedBytes, totalBytes: size });
+					}
+				});
+				return () => {
+					unsubscribeLocal();
+					unsubscribeMirrored();
+				};
+			}
+		};
 	}
 
 	/**
@@ -528,6 +862,10 @@ class FirebaseUploadManager {
 	 * ```
 	 */
 	async start(): Promise<void> {
+		if (this._isFollower()) {
+			this._sendTabCommand('start');
+			return;
+		}
 		if (this.isProcessing) {
 			return;
 		}
@@ -538,6 +876,7 @@ class FirebaseUploadManager {
 
 		// Start periodic health monitoring
 		this._startHealthMonitoring();
+		this._emitManagerState();
 
 		// Process queue with concurrency control (don't await to allow async processing)
 		this._processQueue().catch((error) => {
@@ -548,35 +887,142 @@ class FirebaseUploadManager {
 
 	// Pause all uploads
 	async pause(): Promise<void> {
+		if (this._isFollower()) {
+			this._sendTabCommand('pause');
+			return;
+		}
 		this.isPaused = true;
 
-		// Pause active uploads
-		const pausePromises = Array.from(this._uploadTasks.entries()).map(async ([fileId, task]) => {
-			if (task.pause) {
+		// Pause active uploads in place, they keep their concurrency slots
+		const pausedIds: string[] = [];
+		for (const [fileId, item] of this.active) {
+			const task = this._uploadTasks.get(fileId);
+			if (task?.pause && !this.paused.has(fileId)) {
 				task.pause();
 				this.paused.add(fileId);
+				this._setStatus(item, 'paused');
+				pausedIds.push(fileId);
 			}
-		});
+		}
 
-		await Promise.allSettled(pausePromises);
+		this._events.emit('paused', { fileIds: pausedIds });
+		this._emitManagerState();
 	}
 
-	// Resume uploads
+	// Resume uploads paused by pause(). Files paused with pauseFile() stay paused.
 	async resume(): Promise<void> {
+		if (this._isFollower()) {
+			this._sendTabCommand('resume');
+			return;
+		}
 		this.isPaused = false;
 
-		// Resume paused uploads
-		for (const fileId of this.paused) {
+		const resumedIds: string[] = [];
+		for (const [fileId, item] of this.active) {
 			const task = this._uploadTasks.get(fileId);
-			if (task && task.resume) {
-				task.resume();
+			if (!this.paused.has(fileId)) continue;
+			if (!task) {
+				this._requeueHeldItem(item);
+				resumedIds.push(fileId);
+			} else if (task.resume) {
+				this._resumeTask(fileId);
+				this.paused.delete(fileId);
+				this._setStatus(item, 'uploading');
+				resumedIds.push(fileId);
 			}
 		}
 
-		this.paused.clear();
+		this._events.emit('resumed', { fileIds: resumedIds });
+		this._emitManagerState();
+
 		await this._processQueue();
 	}
 
+	/**
+	 * Pause a single file.
+	 * An uploading file has its storage task paused and gives up its concurrency
+	 * slot, so other queued files can start. A queued file is held back until it
+	 * is resumed. A file still being prepared is paused before its storage task starts.
+	 *
+	 * @param fileId - ID of the file to pause
+	 * @returns `true` if the file was paused, `false` if it is not queued or uploading
+	 *
+	 * @example
+	 * ```typescript
+	 * await manager.pauseFile(largeVideo.id);
+	 * // ...other files keep uploading
+	 * await manager.resumeFile(largeVideo.id);
+	 * ```
+	 */
+	async pauseFile(fileId: string): Promise<boolean> {
+		if (this._isFollower()) {
+			return this._sendTabCommand('pauseFile', fileId);
+		}
+
+		const activeItem = this.active.get(fileId);
+		if (activeItem) {
+			const task = this._uploadTasks.get(fileId);
+			// Still in beforeUpload or hashing: _startUpload pauses it once it gets that far
+			if (!task) {
+				if (!this._startingUploads.has(fileId)) return false;
+				this._startingUploads.set(fileId, true);
+				return true;
+			}
+			if (!task.pause) return false;
+
+			this._pauseActiveItem(activeItem, task);
+			return true;
+		}
+
+		const queuedItem = this.queue.find((item: UploadItem) => item.id === fileId);
+		if (queuedItem) {
+			this.queue = this.queue.filter((item: UploadItem) => item.id !== fileId);
+			this._holdPausedItem(queuedItem);
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Resume a file paused with pauseFile() (or pause()).
+	 * The file goes back to the front of the queue and continues from where its
+	 * storage task stopped as soon as a concurrency slot is free.
+	 *
+	 * @param fileId - ID of the file to resume
+	 * @returns `true` if the file was resumed, `false` if it is not paused
+	 */
+	async resumeFile(fileId: string): Promise<boolean> {
+		if (this._isFollower()) {
+			return this._sendTabCommand('resumeFile', fileId);
+		}
+
+		// Resumed before the pause could take effect
+		if (this._startingUploads.get(fileId)) {
+			this._startingUploads.set(fileId, false);
+			return true;
+		}
+
+		const item = this._pausedItems.get(fileId);
+		if (!item) {
+			return this._resumeInPlace(fileId);
+		}
+
+		this._pausedItems.delete(fileId);
+		this.paused.delete(fileId);
+		this._setStatus(item, 'queued');
+		this.queue.unshift(item);
+		this._events.emit('resumed', { fileIds: [fileId] });
+
+		// A file that was mid-upload continues right away, even if the queue had drained
+		if (this.isProcessing) {
+			this._processQueue();
+		} else if (this._uploadTasks.has(fileId) && !this.isPaused) {
+			this.start();
+		}
+		return true;
+	}
+
 	// Stop all uploads and clear queue
 	async stop(): Promise<void> {
 		this.isProcessing = false;
@@ -585,18 +1031,55 @@ class FirebaseUploadManager {
 		// Stop health monitoring
 		this._stopHealthMonitoring();
 
-		// Cancel all active uploads
-		const cancelPromises = Array.from(this._uploadTasks.entries()).map(async ([_, task]) => {
-			if (task.cancel) {
-				task.cancel();
-			}
-		});
+		// Cancel uploads in progress, running, paused or still being prepared.
+		// Queued files held by pauseFile() have no task and stay paused.
+		const fileIds = new Set([...this.active.keys(), ...this._uploadTasks.keys()]);
+		const cancelPromises = Array.from(fileIds, (fileId) => this.cancel(fileId));
 
 		await Promise.allSettled(cancelPromises);
 
 		this._uploadTasks.clear();
+		this._checksums.clear();
 		this.active.clear();
-		this.paused.clear();
+		this._clearBandwidthThrottle();
+		this._emitManagerState();
+	}
+
+	/**
+	 * Cancel a single upload.
+	 * The file moves to the `cancelled` status: it is not retried, does not count
+	 * towards `failureCount`, and its `enqueue()` handle rejects with `upload/cancelled`.
+	 * Unlike removeFile(), the item stays available through getFile().
+	 *
+	 * @param fileId - ID of the file to cancel
+	 * @returns `true` if the file was cancelled, `false` if it already finished
+	 *
+	 * @example
+	 * ```typescript
+	 * await manager.cancel(item.id);
+	 * manager.getFile(item.id)?.status; // 'cancelled'
+	 * ```
+	 */
+	async cancel(fileId: string): Promise<boolean> {
+		if (this._isFollower()) {
+			return this._sendTabCommand('cancel', fileId);
+		}
+
+		const item = this.getFile(fileId);
+		if (!item || this.failed.has(fileId) || !canTransition(item.status, 'cancelled')) {
+			return false;
+		}
+
+		this.queue = this.queue.filter((queued: UploadItem) => queued.id !== fileId);
+		this._pendingRetries.delete(fileId);
+		this._preparingItems.delete(fileId);
+		this._deferredItems.delete(fileId);
+
+		// Settle the item first so the task's `storage/canceled` error is ignored
+		const task = this._uploadTasks.get(fileId);
+		this._handleUploadCancelled(item);
+		task?.cancel?.();
+		return true;
 	}
 
 	// Cleanup and destroy the upload manager
@@ -604,6 +1087,15 @@ class FirebaseUploadManager {
 		// Stop all uploads
 		await this.stop();
 
+		// Hand the shared queue over to another tab
+		this._tabCoordinator?.stop();
+		this._tabCoordinator = null;
+
+		// Stop listening to the service worker wrapped by backgroundUploads
+		if (this._backgroundUploads && this._storageAdapter instanceof ServiceWorkerStorageAdapter) {
+			this._storageAdapter.disconnect();
+		}
+
 		// Stop periodic health checks
 		this._stopPeriodicHealthCheck();
 
@@ -656,94 +1148,88 @@ class FirebaseUploadManager {
 		}
 
 		// Clean up all files from storage if requested
-		if (this.storage) {
+		if (this._storageAdapter) {
 			await this._cleanupAllStorageFiles();
 		}
 
 		// Clear all timers and intervals
 		this._clearAllTimers();
 
+		// Settle handles and forwarded files that can no longer finish
+		for (const { settle } of this._forwardedFiles.values()) {
+			settle(null);
+		}
+		this._forwardedFiles.clear();
+		for (const fileId of Array.from(this._pendingHandles.keys())) {
+			this._rejectHandle(
+				fileId,
+				new UploadError('upload/destroyed', 'Upload manager was destroyed', fileId)
+			);
+		}
+
 		// Clear all collections
 		this.queue = [];
+		this._preparingItems.clear();
+		this._deferredItems.clear();
+		this._pendingRetries.clear();
+		this._claimedPaths.clear();
 		this.active.clear();
 		this.completed.clear();
 		this.failed.clear();
 		this.paused.clear();
 		this._uploadTasks.clear();
+		this._checksums.clear();
 		this._speedSamples = [];
 
 		// Clear storage reference
 		this.storage = null;
+		this._storageAdapter = null;
+
+		// Drop event subscribers
+		this._events.clear();
 	}
 
 	// Remove file from queue or cancel if uploading
 	async removeFile(fileId: string): Promise<void> {
-		// Remove from queue
-		this.queue = this.queue.filter((item: UploadItem) => item.id !== fileId);
+		if (this._isFollower()) {
+			this._sendTabCommand('removeFile', fileId);
+			return;
+		}
 
-		// Cancel if actively uploading
-		if (this.active.has(fileId)) {
-			const task = this._uploadTasks.get(fileId);
-			if (task && task.cancel) {
-				task.cancel();
-			}
-			this.active.delete(fileId);
-			this._uploadTasks.delete(fileId);
+		const item = this.getFile(fileId);
+		const completedItem = this.completed.get(fileId);
+
+		// Stop the upload if it hasn't finished yet
+		await this.cancel(fileId);
+		if (item) {
+			this._leaveGroup(item);
 		}
 
 		// Remove from other states
 		this.completed.delete(fileId);
 		this.failed.delete(fileId);
-		this.paused.delete(fileId);
+		this.cancelled.delete(fileId);
+		this._schedulePersist();
+		this._scheduleTabSync();
 
 		// Clean up from storage if file was uploaded
-		const completedItem = this.completed.get(fileId);
-		if (completedItem?.downloadURL && this.storage) {
-			try {
-				const storageRef = ref(this.storage, completedItem.path);
-				await deleteObject(storageRef);
-			} catch (error) {
-				console.warn('Failed to delete file from storage:', error);
-			}
+		if (completedItem?.downloadURL) {
+			await this._deleteStoredObject(completedItem);
 		}
 	}
 
 	// Retry failed uploads
 	retryFailed(): void {
-		const failedItems = Array.from(this.failed.values());
-
-		failedItems.forEach((item: UploadItem) => {
-			item.status = 'queued';
-			item.error = null;
-			item.attempts = 0;
-			this.queue.push(item);
-			this.failed.delete(item.id);
-		});
-
-		this.failureCount -= failedItems.length;
-
-		if (this.isProcessing) {
-			this._processQueue();
-		}
+		this._retryItems(Array.from(this.failed.values()));
 	}
 
 	// Clear all completed uploads from memory
 	async clearCompleted(): Promise<void> {
-		// Clean up files from storage if requested
-		if (this.storage) {
-			const deletePromises = Array.from(this.completed.values()).map(async (item) => {
-				if (item.downloadURL) {
-					try {
-						const storageRef = ref(this.storage!, item.path);
-						await deleteObject(storageRef);
-					} catch (error) {
-						console.warn('Failed to delete file from storage:', item.id, error);
-					}
-				}
-			});
+		this._settleGroupFiles(this.completed.values());
 
-			await Promise.allSettled(deletePromises);
-		}
+		// Clean up files from storage if requested
+		const items = Array.from(this.completed.values()).filter((item) => item.downloadURL);
+		await this._deleteStoredObjects(items);
 
 		this.completed.clear();
 		this.successCount = 0;
@@ -751,8 +1237,11 @@ class FirebaseUploadManager {
 
 	// Clear all failed uploads
 	clearFailed(): void {
+		this._settleGroupFiles(this.failed.values());
 		this.failed.clear();
 		this.failureCount = 0;
+		this._schedulePersist();
+		this._scheduleTabSync();
 	}
 
 	// Get file by ID from any state
@@ -762,16 +1251,30 @@ class FirebaseUploadManager {
 		if (queuedFile) return queuedFile;
 
 		// Check other states
-		return this.active.get(fileId) || this.completed.get(fileId) || this.failed.get(fileId);
+		return (
+			this._preparingItems.get(fileId) ||
+			this._deferredItems.get(fileId) ||
+			this.active.get(fileId) ||
+			this._pausedItems.get(fileId) ||
+			this._pendingRetries.get(fileId) ||
+			this.completed.get(fileId) ||
+			this.failed.get(fileId) ||
+			this.cancelled.get(fileId)
+		);
 	}
 
 	// Get all files with optional status filter
 	getAllFiles(statusFilter: UploadStatus | null = null): UploadItem[] {
 		const allFiles = [
+			...Array.from(this._preparingItems.values()),
+			...Array.from(this._deferredItems.values()),
 			...this.queue,
 			...Array.from(this.active.values()),
+			...Array.from(this._pausedItems.values()),
+			...Array.from(this._pendingRetries.values()),
 			...Array.from(this.completed.values()),
-			...Array.from(this.failed.values())
+			...Array.from(this.failed.values()),
+			...Array.from(this.cancelled.values())
 		];
 
 		return statusFilter
@@ -779,6 +1282,119 @@ class FirebaseUploadManager {
 			: allFiles;
 	}
 
+	/**
+	 * Add files that are uploaded and tracked as one group, e.g. an album.
+	 * Every file gets the group's `groupId`. The group's counts, bytes and status
+	 * follow its files, and `groupComplete` fires once every file has finished.
+	 *
+	 * @param name - Display name of the group
+	 * @param fileList - Files of the group
+	 * @param options - Upload options for every file of the group
+	 * @returns The group, which stays up to date like the queue
+	 * @throws {Error} In follower tabs, groups live in the leader tab with the queue
+	 *
+	 * @example
+	 * ```typescript
+	 * const album = await manager.addGroup('Summer 2026', files, {
+	 *   metadata: { albumId: 'summer-2026' }
+	 * });
+	 * // album.progress, album.completedFiles and album.status update as files upload
+	 *
+	 * manager.on('groupComplete', ({ group }) => {
+	 *   if (group.failedFiles > 0) manager.retryGroup(group.id);
+	 * });
+	 * ```
+	 */
+	async addGroup(
+		name: string,
+		fileList: FileList | File[],
+		options: UploadManagerOptions = {}
+	): Promise<UploadGroup> {
+		if (this._isFollower()) {
+			throw new Error('Upload groups can only be added in the leader tab');
+		}
+
+		const files = Array.from(fileList);
+		const ids = files.map((file) => this._generateFileId(file));
+		const group = this._createGroup(name, files, ids);
+
+		// Files are added one by one, large groups are not paged through the memory manager
+		for (const [index, file] of files.entries()) {
+			const decision = await this._addFile(file, { ...options, groupId: group.id }, ids[index]);
+			// Skipped and rejected files leave the group
+			if (decision && decision.action !== 'defer') {
+				this._leaveGroup({ id: ids[index], groupId: group.id, uploadedBytes: 0, totalBytes: file.size });
+			}
+		}
+		this._scheduleGroupUpdate(group.id);
+
+		if (this.config.autoStart && !this.isProcessing) {
+			this.start();
+		}
+		return group;
+	}
+
+	// Get a group by ID
+	getGroup(groupId: string): UploadGroup | undefined {
+		return this.groups.get(groupId);
+	}
+
+	// Get the files of a group that are still in memory, in the order they were added
+	getGroupFiles(groupId: string): UploadItem[] {
+		const fileIds = this._groupFiles.get(groupId)?.keys() ?? [];
+		return Array.from(fileIds)
+			.map((fileId) => this.getFile(fileId))
+			.filter((item): item is UploadItem => item !== undefined);
+	}
+
+	/**
+	 * Pause every queued or uploading file of a group, like pauseFile().
+	 *
+	 * @returns Number of files paused
+	 */
+	async pauseGroup(groupId: string): Promise<number> {
+		return this._countGroupFiles(groupId, (fileId) => this.pauseFile(fileId));
+	}
+
+	/**
+	 * Resume the paused files of a group, like resumeFile().
+	 *
+	 * @returns Number of files resumed
+	 */
+	async resumeGroup(groupId: string): Promise<number> {
+		return this._countGroupFiles(groupId, (fileId) => this.resumeFile(fileId));
+	}
+
+	/**
+	 * Cancel every unfinished file of a group, like cancel().
+	 * The group completes as soon as the cancellations settle.
+	 *
+	 * @returns Number of files cancelled
+	 */
+	async cancelGroup(groupId: string): Promise<number> {
+		return this._countGroupFiles(groupId, (fileId) => this.cancel(fileId));
+	}
+
+	/**
+	 * Queue the failed files of a group again, like retryFailed().
+	 *
+	 * @returns Number of files queued again
+	 *
+	 * @example
+	 * ```typescript
+	 * manager.on('groupComplete', ({ group }) => {
+	 *   if (group.status === 'failed') manager.retryGroup(group.id);
+	 * });
+	 * ```
+	 */
+	retryGroup(groupId: string): number {
+		const failedItems = Array.from(this.failed.values()).filter(
+			(item) => item.groupId === groupId
+		);
+		this._retryItems(failedItems);
+		return failedItems.length;
+	}
+
 	// Enterprise Features
 
 	// File Validation
@@ -809,9 +1425,87 @@ class FirebaseUploadManager {
 		return this._fileValidator.getFileMetadata(file);
 	}
 
+	/**
+	 * Rebuild the queue saved by `enablePersistence`, e.g. after a page reload.
+	 * Queued and interrupted uploads go back to the queue, paused files stay paused
+	 * and failed files can be retried with retryFailed(). Files with a saved
+	 * resumable upload state are linked to it again.
+	 *
+	 * Call it before adding new files: the saved queue is replaced on the next change.
+	 *
+	 * @returns How many files were restored, by status
+	 *
+	 * @example
+	 * ```typescript
+	 * const manager = new FirebaseUploadManager({ enablePersistence: true, autoStart: true });
+	 * manager.setStorage(storage);
+	 *
+	 * const { restored, failed } = await manager.restore();
+	 * if (failed > 0) manager.retryFailed();
+	 * ```
+	 */
+	async restore(): Promise<RestoreResult> {
+		const result: RestoreResult = { restored: 0, queued: 0, paused: 0, failed: 0, resumed: 0 };
+		// The leader tab restores the shared queue when it is elected
+		if (!this.config.enablePersistence || this._isFollower()) return result;
+
+		const state = await this._memoryManager.loadState();
+		const jobs = await this._getBackgroundJobs();
+		for (const saved of state?.items ?? []) {
+			// Already known, e.g. restore() was called twice
+			if (this.getFile(saved.id)) continue;
+
+			const item = await this._restoreUploadItem(saved);
+			if (item.resumeState) result.resumed++;
+			result.restored++;
+
+			// The service worker kept uploading after the page closed. Starting
+			// the item attaches to the job, which reports completion right away
+			// if it finished.
+			const job = jobs.get(item.id);
+			if (job && job.totalBytes === item.totalBytes) {
+				item.uploadedBytes = job.bytesTransferred;
+				item.progress = item.totalBytes > 0 ? (job.bytesTransferred / item.totalBytes) * 100 : 100;
+				this.uploadedSize += job.bytesTransferred;
+			}
+
+			if (saved.status === 'queued') {
+				this._enqueueItem(item);
+				result.queued++;
+				continue;
+			}
+
+			this.totalFiles++;
+			this.totalSize += item.file.size;
+			if (saved.status === 'paused') {
+				this._pausedItems.set(item.id, item);
+				this.paused.add(item.id);
+				result.paused++;
+			} else {
+				this.failed.set(item.id, item);
+				this.failureCount++;
+				result.failed++;
+			}
+		}
+
+		if (result.queued > 0) {
+			this._processAddedFiles();
+		}
+		return result;
+	}
+
+	// Jobs of the background upload service worker by upload id
+	private async _getBackgroundJobs(): Promise<Map<string, BackgroundUploadJobStatus>> {
+		const adapter = this._storageAdapter;
+		if (!(adapter instanceof ServiceWorkerStorageAdapter)) return new Map();
+
+		const jobs = await adapter.getJobs();
+		return new Map(jobs.map((job) => [job.id, job]));
+	}
+
 	// Upload Resumption
-	async checkForResumableUpload(file: File): Promise<ResumableUploadState | null> {
-		return this._uploadResumer.canResume(file);
+	async checkForResumableUpload(file: File, path?: string): Promise<ResumableUploadState | null> {
+		return this._uploadResumer.canResume(file, path);
 	}
 
 	async resumeIncompleteUploads(): Promise<void> {
@@ -819,8 +1513,13 @@ class FirebaseUploadManager {
 		const incompleteStates = states.filter((state) => !this._uploadResumer.isUploadComplete(state));
 
 		for (const state of incompleteStates) {
+			// A session stays resumable until its file is added again
+			if (state.sessionUrl) continue;
+
 			// Find the file in the current queue or completed list
-			const existingFile = this.getFile(state.fileId);
+			const existingFile =
+				this.getFile(state.fileId) ||
+				this.getAllFiles().find((item) => item.resumeState?.fileId === state.fileId);
 			if (!existingFile) {
 				// File not found, clean up the state
 				await this._uploadResumer.removeUploadState(state.fileId);
@@ -828,7 +1527,8 @@ class FirebaseUploadManager {
 		}
 	}
 
-	// Enhanced addFiles with validation and duplicate detection
+	// Enhanced addFiles with validation and duplicate detection.
+	// Files are added one by one so every plugin skip, reject or defer is reported.
 	async addFilesWithValidation(
 		files: File[],
 		options: UploadManagerOptions & {
@@ -842,6 +1542,10 @@ class FirebaseUploadManager {
 		validated: number;
 		duplicates: number;
 		resumed: number;
+		skipped: number;
+		rejected: number;
+		deferred: number;
+		decisions: Array<{ file: File; decision: PluginDecisionRecord }>;
 		errors: string[];
 	}> {
 		const result = {
@@ -849,20 +1553,22 @@ class FirebaseUploadManager {
 			validated: 0,
 			duplicates: 0,
 			resumed: 0,
+			skipped: 0,
+			rejected: 0,
+			deferred: 0,
+			decisions: [] as Array<{ file: File; decision: PluginDecisionRecord }>,
 			errors: [] as string[]
 		};
 
-		// Validate files if requested
+		// Validate files if requested, through the beforeValidation/afterValidation hooks
 		let validFiles = files;
 		if (options.validate !== false) {
-			const validationResults = await this._fileValidator.validateFiles(
-				files,
-				options.validationRules
+			const validated = await Promise.all(
+				files.map((file) => this._validateWithPlugins(file, options.validationRules))
 			);
-			validFiles = files.filter((file) => {
-				const result = validationResults.get(file);
-				return result?.valid;
-			});
+			validFiles = validated
+				.filter(({ result }) => result.valid)
+				.map(({ file }) => file);
 			result.validated = validFiles.length;
 		}
 
@@ -880,22 +1586,40 @@ class FirebaseUploadManager {
 			result.duplicates = validFiles.length - uniqueFiles.length;
 		}
 
-		// Check for resumable uploads
-		if (options.checkResume !== false) {
-			for (const file of uniqueFiles) {
-				const resumableState = await this._uploadResumer.canResume(file);
-				if (resumableState) {
-					result.resumed++;
-					// Add to queue with resume information
-					this.addFiles([file], { ...options, resumeState: resumableState });
-				} else {
-					this.addFiles([file], options);
-				}
+		for (const file of uniqueFiles) {
+			// Check for resumable uploads and add to queue with resume information
+			const resumableState =
+				options.checkResume !== false
+					? await this._uploadResumer.canResume(file, this._resolveItemPath(file, options))
+					: null;
+			const decision = await this._addFile(
+				file,
+				resumableState ? { ...options, resumeState: resumableState } : options
+			);
+
+			if (!decision) {
 				result.added++;
+				if (resumableState) result.resumed++;
+				continue;
+			}
+
+			result.decisions.push({ file, decision });
+			switch (decision.action) {
+				case 'skip':
+					result.skipped++;
+					break;
+				case 'reject':
+					result.rejected++;
+					result.errors.push(`${file.name}: ${decision.reason}`);
+					break;
+				case 'defer':
+					result.deferred++;
+					break;
 			}
-		} else {
-			this.addFiles(uniqueFiles, options);
-			result.added = uniqueFiles.length;
+		}
+
+		if (this.config.autoStart && !this.isProcessing) {
+			this.start();
 		}
 
 		return result;
@@ -930,10 +1654,18 @@ class FirebaseUploadManager {
 
 	// Internal methods
 	private async _processQueue(): Promise<void> {
+		await this._loadPendingBatches();
+		await this._orderQueue();
+
 		while (this.isProcessing && this.queue.length > 0) {
-			// Check if we can start more uploads
+			// Don't start new uploads while globally paused, resume() picks up from here
+			if (this.isPaused) {
+				return;
+			}
+
+			// Check if we can start more uploads, holding new starts while over the bandwidth limit
 			const availableSlots = this.config.maxConcurrentUploads - this.active.size;
-			if (availableSlots <= 0) {
+			if (availableSlots <= 0 || !this._bandwidthManager.canStartUpload()) {
 				// Wait a bit before checking again
 				await new Promise(resolve => setTimeout(resolve, FirebaseUploadManager.BATCH_PROCESSING_DELAY));
 				continue;
@@ -959,122 +1691,386 @@ class FirebaseUploadManager {
 					setTimeout(resolve, FirebaseUploadManager.BATCH_PROCESSING_DELAY)
 				);
 			});
+
+			// Top up the queue from lazily added files
+			await this._loadPendingBatches();
+			await this._orderQueue();
 		}
 
-		// If we're done processing, update state
-		if (this.queue.length === 0 && this.active.size === 0) {
+		// If we're done processing, update state. Pending retries and files still
+		// being prepared or deferred by plugins will re-enter the queue.
+		if (
+			this.queue.length === 0 &&
+			this.active.size === 0 &&
+			this._pendingRetries.size === 0 &&
+			this._preparingItems.size === 0 &&
+			this._deferredItems.size === 0 &&
+			!this._memoryManager.getNextBatch()
+		) {
+			const wasProcessing = this.isProcessing;
 			this.isProcessing = false;
+
+			if (wasProcessing) {
+				this._events.emit('queueDrained', {
+					successCount: this.successCount,
+					failureCount: this.failureCount
+				});
+				this._emitManagerState();
+			}
+		}
+	}
+
+	// Let beforeQueueProcess plugins reorder the queue after files were added to it
+	private async _orderQueue(): Promise<void> {
+		if (!this._queueNeedsOrdering || !this.pluginSystem) return;
+		this._queueNeedsOrdering = false;
+
+		const ordered = await this.pluginSystem.executePipeline('beforeQueueProcess', [
+			...this.queue
+		]);
+
+		// The queue may have changed while plugins ran: keep the plugins' order for
+		// items still queued, then anything they left out or that was added meanwhile
+		const queuedIds = new Set(this.queue.map((item: UploadItem) => item.id));
+		const seen = new Set<string>();
+		const reordered: UploadItem[] = [];
+		for (const item of Array.isArray(ordered) ? ordered : []) {
+			if (queuedIds.has(item.id) && !seen.has(item.id)) {
+				seen.add(item.id);
+				reordered.push(this.queue.find((queued: UploadItem) => queued.id === item.id)!);
+			}
+		}
+		this.queue = [...reordered, ...this.queue.filter((item: UploadItem) => !seen.has(item.id))];
+
+		await this.pluginSystem.emitEvent('afterQueueProcess', [...this.queue]);
+	}
+
+	// Page batches from the memory manager into the queue, keeping at most maxMemoryItems queued
+	private async _loadPendingBatches(): Promise<void> {
+		if (this._loadingBatches) return;
+		this._loadingBatches = true;
+
+		try {
+			const maxMemoryItems = this._memoryManager.getMaxMemoryItems();
+			let batch = this._memoryManager.getNextBatch();
+			let loaded = false;
+
+			// An empty queue always takes the next batch so uploads can't stall
+			while (
+				batch &&
+				(this.queue.length === 0 || this.queue.length + batch.files.length <= maxMemoryItems)
+			) {
+				const options = batch.options || {};
+				const items = await this._memoryManager.processBatch(batch.id);
+				for (const pending of items) {
+					// Batched files were counted when added, _addFile counts them again once queued
+					this.totalFiles--;
+					this.totalSize -= pending.totalBytes;
+					try {
+						await this._addFile(pending.file, options, pending.id);
+					} catch (error) {
+						this._failBatchedFile(pending, error);
+					}
+				}
+				loaded = true;
+				batch = this._memoryManager.getNextBatch();
+			}
+
+			if (loaded) {
+				await this._memoryManager.cleanupProcessedBatches();
+			}
+		} catch (error) {
+			console.error('[FirebaseUploadManager] Failed to load pending batches:', error);
+		} finally {
+			this._loadingBatches = false;
 		}
 	}
 
+	// A lazily added file that can't be queued fails on its own, the rest of its batch still loads
+	private _failBatchedFile(item: UploadItem, error: unknown): void {
+		const { code, category, message } = classifyError(error);
+		this._preparingItems.delete(item.id);
+		this.totalFiles++;
+		this.totalSize += item.totalBytes;
+
+		this._setStatus(item, 'failed');
+		item.error = { code, category, message, attempt: 0 };
+		this.failed.set(item.id, item);
+		this.failureCount++;
+		this._rejectHandle(item.id, UploadError.from(error, item.id));
+		this._events.emit('error', { item, error: error as Error, willRetry: false });
+	}
+
 	private async _startUpload(item: UploadItem): Promise<void> {
+		this._startingUploads.set(item.id, false);
 		try {
-			// Validate item before starting
-			if (!item.file || !this.storage) {
+			// Validate item before starting, files that failed to load from a batch have no path
+			if (!item.file || !item.path || !this._storageAdapter) {
 				throw new Error('Invalid upload item or storage not configured');
 			}
 
+			// Continue a task paused by pauseFile() instead of starting over
+			const pausedTask = this._uploadTasks.get(item.id);
+			if (pausedTask) {
+				this._setStatus(item, 'uploading');
+				this.active.set(item.id, item);
+				this._resumeTask(item.id);
+				return;
+			}
+
 			// Update item status
-			item.status = 'uploading';
+			this._setStatus(item, 'uploading');
 			item.startedAt = Date.now();
 			item.attempts = (item.attempts || 0) + 1;
 
-			// Add to active uploads
+			// Add to active uploads, holding the slot while beforeUpload runs
 			this.active.set(item.id, item);
 
-			// Create storage reference
-			const storageRef = ref(this.storage, item.path);
-			
-			// Create upload task
-			const uploadTask = uploadBytesResumable(storageRef, item.file, {
-				contentType: item.file.type,
-				customMetadata: {
-					originalName: item.file.name,
-					uploadId: item.id,
-					uploadedAt: new Date().toISOString()
-				}
-			});
+			const prepared = this.pluginSystem
+				? await this.pluginSystem.executePipeline('beforeUpload', item)
+				: item;
 
-			// Create wrapper for better control
-			const taskWrapper = this._createUploadTaskWrapper(item, uploadTask);
-			this._uploadTasks.set(item.id, taskWrapper);
-
-			// Set up progress monitoring
-			uploadTask.on('state_changed',
-				(snapshot) => {
-					// Progress update
-					const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-					this._updateProgress(item.id, progress);
-				},
-				(error) => {
-					// Error handling
-					console.error('Upload error for', item.file.name, ':', error);
-					this._handleUploadError(item, error);
-				},
-				() => {
-					// Completion
-					this._handleUploadComplete(item, uploadTask.snapshot);
+			// Cancelled, paused or stopped while plugins ran
+			if (item.status !== 'uploading' || !this.active.has(item.id) || !this._storageAdapter) {
+				return;
+			}
+
+			if (isPluginDecision(prepared)) {
+				this._applyUploadDecision(item, prepared);
+				return;
+			}
+			this._applyPreparedItem(item, prepared);
+
+			const conflict = await this._resolveStoragePath(item);
+			const copy = conflict ? null : await this._findUploadedCopy(item);
+
+			// Cancelled, paused or stopped while the path was checked
+			if (item.status !== 'uploading' || !this.active.has(item.id) || !this._storageAdapter) {
+				return;
+			}
+			if (conflict?.code === 'path/skipped') {
+				this._handleUploadCancelled(item, conflict);
+				return;
+			}
+			if (conflict) {
+				this._handleUploadError(item, conflict);
+				return;
+			}
+			if (copy) {
+				this._completeWithCopy(item, copy);
+				return;
+			}
+
+			// Paused with pauseFile() while the upload was prepared: it starts over once resumed
+			if (this._startingUploads.get(item.id)) {
+				this.active.delete(item.id);
+				item.attempts--; // The attempt never reached storage
+				this._holdPausedItem(item);
+				if (this.isProcessing) {
+					this._processQueue();
 				}
+				return;
+			}
+
+			// Paused while the upload was prepared: hold the slot until resume() queues it again
+			if (this.isPaused) {
+				this.paused.add(item.id);
+				this._setStatus(item, 'paused');
+				return;
+			}
+			this._startChecksum(item);
+
+			// Create upload task, continuing the file's resumable session if it has one
+			const uploadTask = await this._createStorageTask(
+				item,
+				await this._resolveUploadMetadata(item)
 			);
 
+			// Cancelled, paused or stopped while the session was queried
+			if (item.status !== 'uploading' || !this.active.has(item.id)) {
+				uploadTask.cancel();
+				return;
+			}
+
+			// Create wrapper for better control
+			const task = this._createUploadTaskWrapper(uploadTask);
+			this._uploadTasks.set(item.id, task);
+			this._observeUploadTask(item, uploadTask);
+
+			// Paused with pauseFile() while the session was created, resumeFile() continues the task.
+			// Paused with pause(), the task waits in place like the others.
+			if (this._startingUploads.get(item.id)) {
+				this._pauseActiveItem(item, task);
+			} else if (this.isPaused) {
+				uploadTask.pause();
+				this.paused.add(item.id);
+				this._setStatus(item, 'paused');
+			}
+
+			if (this.pluginSystem) {
+				this.pluginSystem.emitEvent('onUploadStart', item);
+			}
 		} catch (error) {
 			console.error('Error starting upload for', item.file.name, ':', error);
 			this._handleUploadError(item, error as Error);
+		} finally {
+			this._startingUploads.delete(item.id);
 		}
 	}
 
-	private _createUploadTaskWrapper(item: UploadItem, firebaseTask: FirebaseUploadTask): UploadTask {
-		// Set up progress monitoring
-		firebaseTask.on(
-			'state_changed',
-			(snapshot: UploadTaskSnapshot) => {
-				const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-				this._updateProgress(item.id, progress);
+	// Hand uploads to the service worker when backgroundUploads is on
+	private _setAdapter(adapter: StorageAdapter): void {
+		const integrity = this.config.verifyIntegrity;
+		const algorithm = integrity?.algorithm ?? 'md5';
+		if (integrity && !adapter.checksums?.includes(algorithm)) {
+			throw new Error(
+				`Invalid configuration: verifyIntegrity needs ${algorithm} checksums, which the ${adapter.name} storage adapter does not report`
+			);
+		}
 
-				// Emit progress event
-				if (this.pluginSystem) {
-					this.pluginSystem.emitEvent('onUploadProgress', item, progress);
+		this._storageAdapter =
+			this._backgroundUploads && !(adapter instanceof ServiceWorkerStorageAdapter)
+				? new ServiceWorkerStorageAdapter(adapter, this._backgroundUploads)
+				: adapter;
+	}
+
+	// Continue the session saved in item.resumeState, or start a fresh upload if it expired
+	private async _createStorageTask(
+		item: UploadItem,
+		metadata: StorageUploadMetadata
+	): Promise<StorageUploadTask> {
+		const adapter = this._storageAdapter!;
+		const state = item.resumeState;
+
+		// The session writes to the path it was opened for, never continue it elsewhere
+		if (state?.sessionUrl && !this._canResumeSession(item)) {
+			console.warn('Not resuming the upload session of', state.storagePath, 'at', item.path);
+			item.resumeState = undefined;
+		} else if (state?.sessionUrl && adapter.resume) {
+			try {
+				const task = await adapter.resume(state.sessionUrl, item.path, item.file, metadata);
+				if (task) {
+					// Bytes already committed are not new progress for speed or bandwidth
+					const committed = task.snapshot.bytesTransferred;
+					this.uploadedSize += committed - item.uploadedBytes;
+					this._addGroupBytes(item, committed - item.uploadedBytes);
+					item.uploadedBytes = committed;
+					item.progress = item.totalBytes > 0 ? (committed / item.totalBytes) * 100 : 100;
+					return task;
 				}
-			},
-			(error) => {
-				console.error('Upload error:', error);
-				// Error handling is done in the main try-catch
-			},
-			() => {
-				// Upload completed successfully
+			} catch (error) {
+				console.warn('Failed to resume upload session for', item.file.name, ':', error);
 			}
+			this._forgetResumeState(item);
+		}
+
+		return adapter.upload(item.path, item.file, metadata);
+	}
+
+	// A saved session continues only for the path and file version it was opened for
+	private _canResumeSession(item: UploadItem): boolean {
+		const state = item.resumeState;
+		return (
+			!!state?.sessionUrl &&
+			state.storagePath === item.path &&
+			state.fileSize === item.file.size &&
+			state.lastModified === item.file.lastModified
 		);
+	}
+
+	// Save the session URL and committed offset reported by a snapshot
+	private _recordSession(item: UploadItem, snapshot: StorageUploadSnapshot): void {
+		if (!snapshot.sessionUrl) return;
+
+		const state =
+			item.resumeState ??
+			this._uploadResumer.createUploadState(item.file, { ...item.metadata }, item.path);
+		item.resumeState = state;
+		if (
+			state.sessionUrl === snapshot.sessionUrl &&
+			state.uploadedBytes === snapshot.bytesTransferred
+		) {
+			return;
+		}
+
+		this._uploadResumer
+			.recordSession(state, snapshot.sessionUrl, snapshot.bytesTransferred)
+			.catch((error) => console.warn('Failed to save upload session:', error));
+	}
+
+	// Drop a file's resumable state once it finished, was cancelled or its session expired
+	private _forgetResumeState(item: UploadItem): void {
+		const state = item.resumeState;
+		if (!state) return;
 
+		item.resumeState = undefined;
+		this._uploadResumer
+			.removeUploadState(state.fileId)
+			.catch((error) => console.warn('Failed to remove upload state:', error));
+	}
+
+	private _createUploadTaskWrapper(storageTask: StorageUploadTask): UploadTask {
 		return {
 			pause: () => {
-				firebaseTask.pause();
+				storageTask.pause();
 			},
 			resume: () => {
-				firebaseTask.resume();
+				storageTask.resume();
 			},
 			cancel: () => {
-				firebaseTask.cancel();
+				storageTask.cancel();
 			}
 		};
 	}
 
-	private _updateProgress(fileId: string, progress: number): void {
+	// The only observer on a task: drives progress, bandwidth, events and completion
+	private _observeUploadTask(item: UploadItem, storageTask: StorageUploadTask): void {
+		storageTask.on({
+			next: (snapshot) => {
+				this._handleUploadProgress(item, snapshot);
+			},
+			error: (error) => {
+				console.error('Upload error for', item.file.name, ':', error);
+				this._handleUploadError(item, error);
+			},
+			complete: (snapshot) => {
+				this._handleUploadComplete(item, snapshot);
+			}
+		});
+	}
+
+	private _handleUploadProgress(item: UploadItem, snapshot: StorageUploadSnapshot): void {
+		this._updateProgress(item.id, snapshot.bytesTransferred);
+		this._recordSession(item, snapshot);
+		this._scheduleTabSync();
+
+		this._events.emit('progress', {
+			item,
+			progress: item.progress,
+			uploadedBytes: item.uploadedBytes,
+			totalBytes: item.totalBytes
+		});
+		if (this.pluginSystem) {
+			this.pluginSystem.emitEvent('onUploadProgress', item, item.progress);
+		}
+	}
+
+	private _updateProgress(fileId: string, bytesTransferred: number): void {
 		const item = this.active.get(fileId);
 		if (item) {
 			const oldUploadedBytes = item.uploadedBytes;
-			item.progress = progress;
-			item.uploadedBytes = (progress / 100) * item.totalBytes;
+			item.uploadedBytes = bytesTransferred;
+			item.progress = item.totalBytes > 0 ? (bytesTransferred / item.totalBytes) * 100 : 100;
 
 			// Update global progress
 			const progressDiff = item.uploadedBytes - oldUploadedBytes;
 			this.uploadedSize += progressDiff;
+			this._addGroupBytes(item, progressDiff);
 
-			// Update bandwidth usage
+			// Update bandwidth usage and throttle if it went over the limit
 			if (progressDiff > 0) {
-				const now = Date.now();
-				const timeDiff = now - this._lastBandwidthUpdate;
-				this._bandwidthManager.updateBandwidthUsage(progressDiff, timeDiff);
-				this._lastBandwidthUpdate = now;
+				this._bandwidthManager.updateBandwidthUsage(progressDiff);
+				this._enforceBandwidthLimit();
 			}
 
 			// Calculate speed
@@ -1119,13 +2115,969 @@ class FirebaseUploadManager {
 		}
 	}
 
+	private _createUploadItem(
+		file: File,
+		options: UploadManagerOptions,
+		id: string = this._generateFileId(file)
+	): UploadItem {
+		const createdAt = Date.now();
+		return {
+			id,
+			file: file,
+			status: 'queued',
+			statusHistory: createStatusHistory('queued', createdAt),
+			progress: 0,
+			uploadedBytes: 0,
+			totalBytes: file.size,
+			error: null,
+			attempts: 0,
+			createdAt,
+			...options,
+			// After the spread, options can hold these keys set to undefined
+			metadata: options.metadata || {},
+			priority: options.priority || 0,
+			path: this._resolveItemPath(file, options),
+			onConflict: options.onConflict ?? this.config.onConflict
+		};
+	}
+
+	// The deduplication template, the item's own template, then its path, then the manager's template
+	private _resolveItemPath(file: File, options: UploadManagerOptions): string {
+		const template =
+			this._deduplication?.pathTemplate ??
+			options.pathTemplate ??
+			(options.path ? undefined : this.config.pathTemplate);
+		const slugify = options.slugifyFileNames ?? this.config.slugifyFileNames;
+		if (!template) {
+			return options.path ? sanitizeStoragePath(options.path) : defaultUploadPath(file, slugify);
+		}
+
+		// {hash} stays in the path until the upload starts, hashing large files takes a while
+		return resolvePathTemplate(template, {
+			file,
+			variables: { ...this.config.pathVariables, ...options.pathVariables },
+			slugify
+		});
+	}
+
+	/**
+	 * Storage metadata for an upload, from lowest to highest precedence: the file's type,
+	 * the manager's uploadMetadata, the item's metadata as custom metadata, the item's
+	 * uploadMetadata and resolveMetadata. The manager's own custom metadata keys come last.
+	 */
+	private async _resolveUploadMetadata(item: UploadItem): Promise<StorageUploadMetadata> {
+		const resolved = await this.config.resolveMetadata?.(item.file, item);
+		const metadata = mergeUploadMetadata(
+			{ contentType: item.file.type },
+			this.config.uploadMetadata,
+			{ customMetadata: toCustomMetadata(item.metadata) },
+			item.uploadMetadata,
+			resolved,
+			{
+				customMetadata: {
+					originalName: item.file.name, // Unsanitized, the path may use a cleaned-up name
+					uploadId: item.id,
+					uploadedAt: new Date().toISOString()
+				}
+			}
+		);
+
+		const problems = validateUploadMetadata(metadata);
+		if (problems.length > 0) {
+			throw new UploadError('metadata/invalid', problems.join(', '), item.id);
+		}
+		return metadata;
+	}
+
+	/**
+	 * Fill in {hash} and check the path against onConflict before the first attempt.
+	 * Later attempts keep their path, the object may be one an earlier attempt created.
+	 * The path is claimed until the item settles, so files uploading at the same time
+	 * don't resolve to the same object.
+	 *
+	 * @returns The error to settle the item with when it must not be uploaded, else null
+	 */
+	private async _resolveStoragePath(item: UploadItem): Promise<UploadError | null> {
+		if (needsFileHash(item.path)) {
+			item.hash ??= await this._fileValidator.calculateFileHash(item.file);
+			item.path = item.path.replaceAll(HASH_TOKEN, item.hash);
+		}
+		// Plugins may have changed the path since the item was created
+		item.path = sanitizeStoragePath(item.path);
+
+		// With deduplication an existing object has the same content, see _findUploadedCopy()
+		if (this._deduplication) return null;
+
+		const policy = item.onConflict ?? 'overwrite';
+		if (
+			policy === 'overwrite' ||
+			item.attempts > 1 ||
+			this._canResumeSession(item)
+		) {
+			this._claimedPaths.set(item.id, item.path);
+			return null;
+		}
+		if (await this._claimPath(item, item.path)) return null;
+
+		if (policy === 'skip') {
+			return new UploadError('path/skipped', `${item.path} already exists`, item.id);
+		}
+		if (policy === 'rename') {
+			for (let attempt = 1; attempt <= FirebaseUploadManager.MAX_PATH_RENAMES; attempt++) {
+				const path = appendPathSuffix(item.path, attempt);
+				if (await this._claimPath(item, path)) {
+					item.path = path;
+					return null;
+				}
+			}
+		}
+		return new UploadError('path/exists', `${item.path} already exists`, item.id);
+	}
+
+	// Claim a path storage has no object at and no other unsettled item claimed
+	private async _claimPath(item: UploadItem, path: string): Promise<boolean> {
+		const isClaimed = () =>
+			Array.from(this._claimedPaths).some(([id, claimed]) => id !== item.id && claimed === path);
+		if (isClaimed()) return false;
+
+		const exists = await this._storageAdapter!.head(path);
+		// Another item may have claimed the path while storage was asked
+		if (exists || isClaimed()) return false;
+		this._claimedPaths.set(item.id, path);
+		return true;
+	}
+
+	/**
+	 * Look for an object holding the item's content, first in the deduplication index,
+	 * then at the item's content-addressed path.
+	 */
+	private async _findUploadedCopy(item: UploadItem): Promise<UploadedCopy | null> {
+		if (!this._deduplication || !item.hash) return null;
+
+		const adapter = this._storageAdapter!;
+		const index = this._deduplication.index;
+		const indexed = await index?.get(item.hash).catch((error) => {
+			console.warn('[FirebaseUploadManager] Failed to read the deduplication index:', error);
+			return null;
+		});
+		if (indexed) {
+			// The object may have been deleted or replaced since it was indexed
+			const stored = await adapter.head(indexed.path);
+			if (stored?.size === item.file.size) {
+				const { path, downloadURL } = indexed;
+				return { path, downloadURL, metadata: stored, indexed: true };
+			}
+			await index!.delete(item.hash).catch((error) => {
+				console.warn('[FirebaseUploadManager] Failed to update the deduplication index:', error);
+			});
+		}
+
+		const metadata = await adapter.head(item.path);
+		// Something else wrote the path, upload over it
+		if (!metadata || metadata.size !== item.file.size) return null;
+
+		const downloadURL = await adapter.getURL(item.path);
+		return { path: item.path, downloadURL, metadata, indexed: false };
+	}
+
+	// Complete an item whose content is already stored, without sending it again
+	private _completeWithCopy(item: UploadItem, copy: UploadedCopy): void {
+		item.deduplicated = true;
+		item.path = copy.path;
+
+		const skipped = item.totalBytes - item.uploadedBytes;
+		this.uploadedSize += skipped;
+		this._addGroupBytes(item, skipped);
+		item.uploadedBytes = item.totalBytes;
+		item.progress = 100;
+
+		if (!copy.indexed) {
+			this._recordUploadedCopy(item, copy.downloadURL);
+		}
+		this._handleUploadComplete(
+			item,
+			{
+				bytesTransferred: item.totalBytes,
+				totalBytes: item.totalBytes,
+				state: 'success',
+				metadata: copy.metadata
+			},
+			copy.downloadURL
+		);
+	}
+
+	// Checksum the file alongside its upload when verifyIntegrity is on
+	private _startChecksum(item: UploadItem): void {
+		const options = this.config.verifyIntegrity;
+		if (!options) return;
+
+		const checksum = computeChecksum(item.file, options.algorithm).catch((error) => {
+			console.warn('[FirebaseUploadManager] Failed to checksum', item.file.name, ':', error);
+			return null;
+		});
+		this._checksums.set(item.id, checksum);
+	}
+
+	/**
+	 * Compare the local checksum of a finished upload with the one storage reports,
+	 * looking the object up when the snapshot carries none.
+	 *
+	 * @throws UploadError with code `integrity_mismatch` when they differ, or
+	 * `integrity_unverified` when either checksum is missing
+	 */
+	private async _verifyIntegrity(
+		item: UploadItem,
+		metadata: StorageObjectMetadata | undefined
+	): Promise<void> {
+		const options = this.config.verifyIntegrity;
+		const checksum = this._checksums.get(item.id);
+		this._checksums.delete(item.id);
+		if (!options || !checksum) return;
+
+		const algorithm = options.algorithm ?? 'md5';
+		const adapter = this._storageAdapter!;
+		const local = await checksum;
+		const stored =
+			getStoredChecksum(metadata, algorithm) ??
+			getStoredChecksum((await adapter.head(item.path).catch(() => null)) ?? undefined, algorithm);
+
+		if (!local || !stored) {
+			throw new UploadError(
+				'integrity_unverified',
+				`No ${algorithm} checksum to verify ${item.path} with`,
+				item.id
+			);
+		}
+		if (local === stored) return;
+
+		if (options.deleteOnMismatch) {
+			await this._deleteStoredObject(item);
+		}
+		throw new UploadError(
+			'integrity_mismatch',
+			`${algorithm} of ${item.path} is ${stored} in storage, expected ${local}`,
+			item.id
+		);
+	}
+
+	// Remember where the item's content is stored, so later duplicates skip the lookup
+	private _recordUploadedCopy(item: UploadItem, downloadURL: string): void {
+		const index = this._deduplication?.index;
+		if (!index || !item.hash) return;
+
+		index
+			.put({ hash: item.hash, path: item.path, downloadURL, uploadedAt: Date.now() })
+			.catch((error) => {
+				console.warn('[FirebaseUploadManager] Failed to update the deduplication index:', error);
+			});
+	}
+
+	private _enqueueItem(item: UploadItem): void {
+		this.queue.push(item);
+		this.totalFiles++;
+		this.totalSize += item.file.size;
+		this._queueNeedsOrdering = true;
+		this._schedulePersist();
+		this._scheduleTabSync();
+	}
+
+	// Save the unfinished uploads shortly after a change, once per burst of changes
+	private _schedulePersist(): void {
+		if (!this.config.enablePersistence || this._isFollower() || this._persistTimer) return;
+
+		this._persistTimer = this._registerTimer(
+			setTimeout(() => {
+				this._clearTimer(this._persistTimer);
+				this._persistTimer = undefined;
+				this._memoryManager.saveState(this._getPersistedState());
+			}, FirebaseUploadManager.PERSIST_DELAY)
+		);
+	}
+
+	// Everything that has not finished yet. Files still in beforeFileAdd are left out.
+	private _getPersistedState(): PersistedUploadState {
+		const toSaved = (item: UploadItem, status: PersistedUploadItem['status']) => ({
+			id: item.id,
+			file: item.file,
+			path: item.path,
+			metadata: { ...item.metadata },
+			priority: item.priority,
+			status,
+			attempts: item.attempts,
+			error: item.error,
+			createdAt: item.createdAt,
+			resumeState: item.resumeState,
+			onConflict: item.onConflict,
+			uploadMetadata: item.uploadMetadata
+		});
+
+		const items: PersistedUploadItem[] = [
+			// Uploads cut short by a reload start again from the queue
+			...Array.from(this.active.values()).map((item) =>
+				toSaved(item, this.paused.has(item.id) ? 'paused' : 'queued')
+			),
+			...this.queue.map((item: UploadItem) => toSaved(item, 'queued')),
+			...Array.from(this._pendingRetries.values()).map((item) => toSaved(item, 'queued')),
+			...Array.from(this._deferredItems.values()).map((item) => toSaved(item, 'queued')),
+			...Array.from(this._pausedItems.values()).map((item) => toSaved(item, 'paused')),
+			...Array.from(this.failed.values()).map((item) => toSaved(item, 'failed'))
+		];
+
+		return {
+			version: FirebaseUploadManager.PERSISTED_STATE_VERSION,
+			savedAt: Date.now(),
+			items
+		};
+	}
+
+	// Rebuild an upload item saved by _getPersistedState()
+	private async _restoreUploadItem(saved: PersistedUploadItem): Promise<UploadItem> {
+		const { file, path, metadata, priority, onConflict, uploadMetadata } = saved;
+		const item = this._createUploadItem(
+			file,
+			{ path, metadata, priority, onConflict, uploadMetadata },
+			saved.id
+		);
+
+		return {
+			...item,
+			status: saved.status,
+			statusHistory: createStatusHistory(saved.status),
+			attempts: saved.attempts,
+			error: saved.error,
+			createdAt: saved.createdAt,
+			resumeState:
+				saved.resumeState ?? (await this._uploadResumer.canResume(file, item.path)) ?? undefined
+		};
+	}
+
+	// Run the beforeFileAdd pipeline and build the queue item from the file and options it returns
+	private async _prepareUploadItem(
+		file: File,
+		options: UploadManagerOptions,
+		id?: string
+	): Promise<UploadItem | PluginDecisionRecord> {
+		if (!this.pluginSystem) {
+			return this._createUploadItem(file, options, id);
+		}
+
+		const prepared = await this.pluginSystem.executeArgsPipeline(
+			'beforeFileAdd',
+			{ file, options },
+			(value) => [value.file, value.options]
+		);
+		if (isPluginDecision(prepared)) {
+			return prepared;
+		}
+		return this._createUploadItem(prepared.file, prepared.options || {}, id);
+	}
+
+	/**
+	 * Queue a file through the beforeFileAdd pipeline.
+	 * Until the plugins finish, the file is visible through getFile() and can be cancelled.
+	 *
+	 * @returns The plugin decision if the file was skipped, rejected or deferred, else null
+	 */
+	private async _addFile(
+		file: File,
+		options: UploadManagerOptions,
+		id: string = this._generateFileId(file)
+	): Promise<PluginDecisionRecord | null> {
+		this._preparingItems.set(id, this._createUploadItem(file, options, id));
+		const prepared = await this._prepareUploadItem(file, options, id);
+
+		// Cancelled while beforeFileAdd was running
+		if (!this._preparingItems.delete(id)) return null;
+
+		if (!isPluginDecision(prepared)) {
+			this._enqueueItem(prepared);
+			await this.pluginSystem?.emitEvent('afterFileAdd', prepared);
+			return null;
+		}
+
+		if (prepared.action === 'defer') {
+			const item = this._createUploadItem(file, options, id);
+			this._deferItem(item, prepared, () => {
+				this._queueFile(file, options, id);
+			});
+		} else {
+			const code = prepared.action === 'skip' ? 'plugin/skipped' : 'plugin/rejected';
+			this._rejectHandle(id, new UploadError(code, prepared.reason, id));
+		}
+		return prepared;
+	}
+
+	// Apply a skip, reject or defer returned by beforeUpload to an active item
+	private _applyUploadDecision(item: UploadItem, decision: PluginDecisionRecord): void {
+		item.decision = decision;
+
+		switch (decision.action) {
+			case 'skip':
+				this._handleUploadCancelled(
+					item,
+					new UploadError('plugin/skipped', decision.reason, item.id)
+				);
+				break;
+			case 'reject':
+				this._handleUploadError(item, new UploadError('plugin/rejected', decision.reason, item.id));
+				break;
+			case 'defer':
+				// Not an attempt: give the slot back and wait in the deferred holding area
+				this.active.delete(item.id);
+				item.attempts--;
+				this._setStatus(item, 'queued');
+				this._deferItem(item, decision, () => {
+					this._enqueueDeferred(item);
+				});
+				if (this.isProcessing) {
+					this._processQueue();
+				}
+				break;
+		}
+	}
+
+	// Hold an item until the time its deferral asks for, then run `requeue`
+	private _deferItem(
+		item: UploadItem,
+		decision: PluginDecisionRecord & { action: 'defer' },
+		requeue: () => void
+	): void {
+		item.decision = decision;
+		this._deferredItems.set(item.id, item);
+
+		const delay = Math.max(0, new Date(decision.until).getTime() - Date.now());
+		this._registerTimer(
+			setTimeout(() => {
+				// Cancelled while deferred
+				if (!this._deferredItems.delete(item.id)) return;
+				requeue();
+			}, delay)
+		);
+	}
+
+	// Put an item deferred by beforeUpload back in the queue, beforeUpload runs again
+	private _enqueueDeferred(item: UploadItem): void {
+		this.queue.push(item);
+		this._queueNeedsOrdering = true;
+		this._processAddedFiles();
+	}
+
+	// Start or continue processing for files that reached the queue outside addFiles()
+	private _processAddedFiles(): void {
+		if (this.isProcessing) {
+			this._processQueue();
+		} else if (this.config.autoStart) {
+			this.start();
+		}
+	}
+
+	// Move failed items back to the queue with a fresh attempt count
+	private _retryItems(items: UploadItem[]): void {
+		items.forEach((item: UploadItem) => {
+			this._setStatus(item, 'queued');
+			item.error = null;
+			item.decision = undefined;
+			item.attempts = 0;
+			this.queue.push(item);
+			this.failed.delete(item.id);
+		});
+
+		this.failureCount -= items.length;
+
+		if (this.isProcessing) {
+			this._processQueue();
+		}
+	}
+
+	private _createGroup(name: string, files: File[], ids: string[]): UploadGroup {
+		const group = $state<UploadGroup>({
+			id: `group_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+			name,
+			status: 'queued',
+			progress: 0,
+			uploadedBytes: 0,
+			totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+			totalFiles: files.length,
+			queuedFiles: files.length,
+			uploadingFiles: 0,
+			pausedFiles: 0,
+			completedFiles: 0,
+			failedFiles: 0,
+			cancelledFiles: 0,
+			createdAt: Date.now()
+		});
+
+		this.groups.set(group.id, group);
+		this._groupFiles.set(group.id, new Map(ids.map((id) => [id, null])));
+		return group;
+	}
+
+	// Run a file operation on every file of a group and count the ones it applied to
+	private async _countGroupFiles(
+		groupId: string,
+		operation: (fileId: string) => Promise<boolean>
+	): Promise<number> {
+		const fileIds = Array.from(this._groupFiles.get(groupId)?.keys() ?? []);
+		const results = await Promise.all(fileIds.map(operation));
+		return results.filter(Boolean).length;
+	}
+
+	// Take a removed file out of its group's counts and bytes
+	private _leaveGroup(
+		item: Pick<UploadItem, 'id' | 'groupId' | 'uploadedBytes' | 'totalBytes'>
+	): void {
+		const group = item.groupId ? this.groups.get(item.groupId) : undefined;
+		if (!group || !this._groupFiles.get(group.id)?.delete(item.id)) return;
+
+		group.totalBytes -= item.totalBytes;
+		this._addGroupBytes(item, -item.uploadedBytes);
+		this._scheduleGroupUpdate(group.id);
+	}
+
+	// Keep counting files cleared from memory with the status they finished in
+	private _settleGroupFiles(items: Iterable<UploadItem>): void {
+		for (const item of items) {
+			const fileIds = item.groupId ? this._groupFiles.get(item.groupId) : undefined;
+			if (fileIds?.has(item.id)) {
+				fileIds.set(item.id, item.status);
+			}
+		}
+	}
+
+	private _addGroupBytes(item: Pick<UploadItem, 'groupId'>, bytes: number): void {
+		const group = item.groupId ? this.groups.get(item.groupId) : undefined;
+		if (!group || bytes === 0) return;
+
+		group.uploadedBytes += bytes;
+		group.progress = group.totalBytes > 0 ? (group.uploadedBytes / group.totalBytes) * 100 : 0;
+	}
+
+	// Recompute a group's counts once per burst of status changes
+	private _scheduleGroupUpdate(groupId: string | undefined): void {
+		if (!groupId || !this.groups.has(groupId)) return;
+
+		if (this._staleGroups.size === 0) {
+			queueMicrotask(() => {
+				const groupIds = Array.from(this._staleGroups);
+				this._staleGroups.clear();
+				groupIds.forEach((id) => this._updateGroup(id));
+			});
+		}
+		this._staleGroups.add(groupId);
+	}
+
+	// Count the group's files by where they are, and complete the group when all finished
+	private _updateGroup(groupId: string): void {
+		const group = this.groups.get(groupId);
+		const fileIds = this._groupFiles.get(groupId);
+		if (!group || !fileIds) return;
+
+		const counts: Record<UploadStatus, number> = {
+			queued: 0,
+			uploading: 0,
+			paused: 0,
+			completed: 0,
+			failed: 0,
+			cancelled: 0
+		};
+		for (const [fileId, settled] of fileIds) {
+			counts[settled ?? this._getGroupFileStatus(fileId)]++;
+		}
+
+		group.totalFiles = fileIds.size;
+		group.queuedFiles = counts.queued;
+		group.uploadingFiles = counts.uploading;
+		group.pausedFiles = counts.paused;
+		group.completedFiles = counts.completed;
+		group.failedFiles = counts.failed;
+		group.cancelledFiles = counts.cancelled;
+		group.progress = group.totalBytes > 0 ? (group.uploadedBytes / group.totalBytes) * 100 : 0;
+
+		const finished = counts.completed + counts.failed + counts.cancelled;
+		if (finished < fileIds.size) {
+			group.completedAt = undefined;
+			if (counts.uploading > 0) {
+				group.status = 'uploading';
+			} else if (counts.paused > 0 && finished + counts.paused === fileIds.size) {
+				group.status = 'paused';
+			} else {
+				group.status = 'queued';
+			}
+			return;
+		}
+
+		if (counts.failed > 0) {
+			group.status = 'failed';
+		} else if (counts.completed > 0 || fileIds.size === 0) {
+			group.status = 'completed';
+		} else {
+			group.status = 'cancelled';
+		}
+
+		// Once per completion, again after retryGroup() if files failed
+		if (group.completedAt === undefined) {
+			group.completedAt = Date.now();
+			this._events.emit('groupComplete', { group });
+			if (this.pluginSystem) {
+				this.pluginSystem.emitEvent('onGroupComplete', group);
+			}
+		}
+	}
+
+	// Files not added yet and files waiting for a retry count as queued
+	private _getGroupFileStatus(fileId: string): UploadStatus {
+		if (this.completed.has(fileId)) return 'completed';
+		if (this.failed.has(fileId)) return 'failed';
+		if (this.cancelled.has(fileId)) return 'cancelled';
+		if (this.paused.has(fileId)) return 'paused';
+		if (this.active.has(fileId)) return 'uploading';
+		return 'queued';
+	}
+
+	// Queue a file without waiting for beforeFileAdd, settling its handle if that fails
+	private _queueFile(
+		file: File,
+		options: UploadManagerOptions,
+		id: string
+	): Promise<PluginDecisionRecord | null> {
+		return this._addFile(file, options, id)
+			.then((decision) => {
+				if (!decision) {
+					this._processAddedFiles();
+				}
+				return decision;
+			})
+			.catch((error) => {
+				this._preparingItems.delete(id);
+				this._rejectHandle(id, UploadError.from(error, id));
+				return null;
+			});
+	}
+
+	// Tab coordination
+	private _isFollower(): boolean {
+		return this._tabCoordinator !== null && !this.isLeader;
+	}
+
+	/**
+	 * Send a file to the leader tab, keeping it until the leader acknowledges it.
+	 *
+	 * @returns The beforeFileAdd decision of the leader, like _addFile()
+	 */
+	private _forwardFile(
+		file: File,
+		options: UploadManagerOptions,
+		id: string
+	): Promise<PluginDecisionRecord | null> {
+		// Only the options that can be posted to another tab, unset ones keep their defaults
+		const {
+			path,
+			pathTemplate,
+			pathVariables,
+			onConflict,
+			slugifyFileNames,
+			uploadMetadata,
+			metadata,
+			priority
+		} = options;
+		const batchOptions: FileBatchOptions = { metadata: { ...metadata } };
+		if (path !== undefined) batchOptions.path = path;
+		if (pathTemplate !== undefined) batchOptions.pathTemplate = pathTemplate;
+		if (pathVariables !== undefined) batchOptions.pathVariables = { ...pathVariables };
+		if (onConflict !== undefined) batchOptions.onConflict = onConflict;
+		if (slugifyFileNames !== undefined) batchOptions.slugifyFileNames = slugifyFileNames;
+		if (uploadMetadata !== undefined) batchOptions.uploadMetadata = { ...uploadMetadata };
+		if (priority !== undefined) batchOptions.priority = priority;
+
+		return new Promise((settle) => {
+			this._forwardedFiles.set(id, { file, options: batchOptions, settle });
+			this._tabCoordinator?.broadcast({ type: 'enqueue', id, file, options: batchOptions });
+		});
+	}
+
+	// Ask the leader tab to run a command, returns whether the leader has the file
+	private _sendTabCommand(command: TabCommand, fileId?: string): boolean {
+		this._tabCoordinator?.broadcast({ type: 'command', command, fileId });
+		if (fileId === undefined) return true;
+
+		// Not acknowledged yet: the command follows the file to the leader
+		const forwarded = this._forwardedFiles.get(fileId);
+		if (forwarded) {
+			if (command === 'cancel' || command === 'removeFile') {
+				this._forwardedFiles.delete(fileId);
+				forwarded.settle(null);
+				this._rejectHandle(
+					fileId,
+					new UploadError('upload/cancelled', 'Upload was cancelled', fileId)
+				);
+			}
+			return true;
+		}
+		return this.mirroredFiles.some((file) => file.id === fileId);
+	}
+
+	private _handleTabMessage(message: TabMessage, tabId: string): void {
+		switch (message.type) {
+			case 'state':
+				if (!this.isLeader) this._applyMirroredState(message.state, tabId);
+				break;
+			case 'request-state':
+				if (this.isLeader) this._broadcastTabState();
+				break;
+			case 'enqueue':
+				if (this.isLeader) this._acceptForwardedFile(message.id, message.file, message.options);
+				break;
+			case 'enqueued':
+				this._handleForwardedDecision(message.id, message.decision);
+				break;
+			case 'command':
+				if (this.isLeader) this._runTabCommand(message.command, message.fileId);
+				break;
+		}
+	}
+
+	// Leader: queue a file sent by a follower tab, once even if it was sent twice
+	private _acceptForwardedFile(id: string, file: File, options: FileBatchOptions): void {
+		const added = this.getFile(id) ? Promise.resolve(null) : this._queueFile(file, options, id);
+		added.then((decision) => {
+			this._tabCoordinator?.broadcast({ type: 'enqueued', id, decision });
+		});
+	}
+
+	// Follower: the leader has the file, or a plugin skipped or rejected it
+	private _handleForwardedDecision(id: string, decision: PluginDecisionRecord | null): void {
+		const forwarded = this._forwardedFiles.get(id);
+		if (!forwarded) return;
+
+		this._forwardedFiles.delete(id);
+		forwarded.settle(decision);
+		if (!decision || decision.action === 'defer') return;
+
+		const code = decision.action === 'skip' ? 'plugin/skipped' : 'plugin/rejected';
+		this._rejectHandle(id, new UploadError(code, decision.reason, id));
+	}
+
+	private _runTabCommand(command: TabCommand, fileId?: string): void {
+		switch (command) {
+			case 'start':
+				this.start();
+				break;
+			case 'pause':
+				this.pause();
+				break;
+			case 'resume':
+				this.resume();
+				break;
+			case 'pauseFile':
+				if (fileId) this.pauseFile(fileId);
+				break;
+			case 'resumeFile':
+				if (fileId) this.resumeFile(fileId);
+				break;
+			case 'cancel':
+				if (fileId) this.cancel(fileId);
+				break;
+			case 'removeFile':
+				if (fileId) this.removeFile(fileId);
+				break;
+		}
+	}
+
+	// Take over the shared queue when elected, stop uploading when another tab leads
+	private async _handleLeadershipChange(isLeader: boolean): Promise<void> {
+		if (!isLeader) {
+			await this.pause();
+			this.isLeader = false;
+			this._events.emit('leadershipChange', { isLeader });
+			return;
+		}
+
+		// Totals mirrored from the previous leader are rebuilt from the restored queue
+		this.isLeader = true;
+		this._leaderTabId = null;
+		this.mirroredFiles = [];
+		this.totalFiles = 0;
+		this.totalSize = 0;
+		this.uploadedSize = 0;
+		this.successCount = 0;
+		this.failureCount = 0;
+		this.isProcessing = false;
+		this.isPaused = false;
+		this._events.emit('leadershipChange', { isLeader });
+
+		await this.restore();
+
+		// Files sent to a leader that is gone, unless the restored queue has them
+		for (const [id, { file, options, settle }] of this._forwardedFiles) {
+			this._forwardedFiles.delete(id);
+			if (this.getFile(id)) {
+				settle(null);
+			} else {
+				this._queueFile(file, options, id).then(settle);
+			}
+		}
+		this._broadcastTabState();
+	}
+
+	// Follower: show the leader's progress and settle handles of files it finished
+	private _applyMirroredState(state: MirroredUploadState, tabId: string): void {
+		this.isProcessing = state.isProcessing;
+		this.isPaused = state.isPaused;
+		this.totalFiles = state.totalFiles;
+		this.totalSize = state.totalSize;
+		this.uploadedSize = state.uploadedSize;
+		this.successCount = state.successCount;
+		this.failureCount = state.failureCount;
+		this.mirroredFiles = state.files;
+
+		for (const file of state.files) {
+			this._settleMirroredHandle(file);
+		}
+
+		// A new leader never received the files sent to the previous one
+		if (this._leaderTabId !== tabId) {
+			this._leaderTabId = tabId;
+			for (const [id, { file, options }] of this._forwardedFiles) {
+				this._tabCoordinator?.broadcast({ type: 'enqueue', id, file, options });
+			}
+		}
+
+		this._events.emit('tabSync', { state });
+	}
+
+	private _settleMirroredHandle(file: MirroredUploadItem): void {
+		const { id, status, error } = file;
+		if (status === 'completed') {
+			this._resolveHandle(id, { downloadURL: file.downloadURL!, path: file.path });
+		} else if (status === 'cancelled') {
+			this._rejectHandle(id, new UploadError('upload/cancelled', 'Upload was cancelled', id));
+		} else if (status === 'failed' && !file.willRetry) {
+			this._rejectHandle(
+				id,
+				new UploadError(error?.code ?? 'upload/failed', error?.message ?? 'Upload failed', id)
+			);
+		}
+	}
+
+	// Leader: send progress to follower tabs shortly after a change, once per burst
+	private _scheduleTabSync(): void {
+		if (!this._tabCoordinator || !this.isLeader || this._tabSyncTimer) return;
+
+		this._tabSyncTimer = this._registerTimer(
+			setTimeout(() => {
+				this._clearTimer(this._tabSyncTimer);
+				this._tabSyncTimer = undefined;
+				this._broadcastTabState();
+			}, FirebaseUploadManager.TAB_SYNC_DELAY)
+		);
+	}
+
+	private _broadcastTabState(): void {
+		this._tabCoordinator?.broadcast({ type: 'state', state: this._getMirroredState() });
+	}
+
+	// Plain copies of every file, Svelte state proxies can't be posted to other tabs
+	private _getMirroredState(): MirroredUploadState {
+		const toMirrored = (item: UploadItem): MirroredUploadItem => ({
+			id: item.id,
+			name: item.file.name,
+			size: item.file.size,
+			path: item.path,
+			status: item.status,
+			progress: item.progress,
+			uploadedBytes: item.uploadedBytes,
+			downloadURL: item.downloadURL,
+			error: item.error ? { ...item.error } : null,
+			willRetry: this._pendingRetries.has(item.id)
+		});
+
+		return {
+			isProcessing: this.isProcessing,
+			isPaused: this.isPaused,
+			totalFiles: this.totalFiles,
+			totalSize: this.totalSize,
+			uploadedSize: this.uploadedSize,
+			successCount: this.successCount,
+			failureCount: this.failureCount,
+			files: this.getAllFiles().map(toMirrored)
+		};
+	}
+
+	// Run beforeValidation on a file and its rules, validate, then report to afterValidation
+	private async _validateWithPlugins(
+		file: File,
+		rules: Partial<ValidationRule> = {}
+	): Promise<{ file: File; result: ValidationResult }> {
+		const piped = this.pluginSystem
+			? await this.pluginSystem.executeArgsPipeline('beforeValidation', { file, rules }, (value) => [
+					value.file,
+					value.rules
+				])
+			: { file, rules };
+		const prepared = isPluginDecision(piped) ? { file, rules } : piped;
+
+		const results = await this._fileValidator.validateFiles([prepared.file], prepared.rules);
+		const result = results.get(prepared.file)!;
+
+		if (this.pluginSystem) {
+			await this.pluginSystem.emitEvent('afterValidation', prepared.file, result);
+		}
+		return { file: prepared.file, result };
+	}
+
+	// Copy what a beforeUpload plugin changed onto the item the manager tracks
+	private _applyPreparedItem(item: UploadItem, prepared: UploadItem): void {
+		if (!prepared || prepared === item) return;
+
+		this.totalSize += prepared.file.size - item.file.size;
+		Object.assign(item, {
+			file: prepared.file,
+			path: prepared.path,
+			metadata: prepared.metadata,
+			totalBytes: prepared.file.size
+		});
+	}
+
+	// Tell plugins the manager started, paused, resumed, stopped or drained its queue
+	private _emitManagerState(): void {
+		this._scheduleTabSync();
+		if (!this.pluginSystem) return;
+
+		const state: UploadManagerState = {
+			isProcessing: this.isProcessing,
+			isPaused: this.isPaused,
+			queued: this.queue.length,
+			active: this.active.size,
+			successCount: this.successCount,
+			failureCount: this.failureCount
+		};
+		this.pluginSystem.emitEvent('onManagerStateChange', state);
+	}
+
+	// Settle the `done` promise of an enqueue() handle, if the file has one
+	private _resolveHandle(fileId: string, result: UploadResult): void {
+		const pending = this._pendingHandles.get(fileId);
+		if (pending) {
+			this._pendingHandles.delete(fileId);
+			pending.resolve(result);
+		}
+	}
+
+	private _rejectHandle(fileId: string, error: UploadError): void {
+		const pending = this._pendingHandles.get(fileId);
+		if (pending) {
+			this._pendingHandles.delete(fileId);
+			pending.reject(error);
+		}
+	}
+
 	private _generateFileId(file: File): string {
 		return `${file.name}_${file.size}_${file.lastModified}_${Math.random().toString(36).substring(2, 11)}`;
 	}
 
 	// Health Check Private Methods
 	private async _testConnection(): Promise<{ success: boolean; latency?: number; error?: string }> {
-		if (!this.storage) {
+		if (!this._storageAdapter) {
 			return { success: false, error: 'Storage not initialized' };
 		}
 
@@ -1234,22 +3186,48 @@ class FirebaseUploadManager {
 
 	// Clean up all files from storage
 	private async _cleanupAllStorageFiles(): Promise<void> {
-		if (!this.storage) return;
+		if (!this._storageAdapter) return;
 
 		const allItems = [...this.completed.values(), ...this.failed.values(), ...this.active.values()];
+		await this._deleteStoredObjects(allItems.filter((item) => item.downloadURL || item.path));
+	}
 
-		const deletePromises = allItems
-			.filter((item) => item.downloadURL || item.path)
-			.map(async (item) => {
-				try {
-					const storageRef = ref(this.storage!, item.path);
-					await deleteObject(storageRef);
-				} catch (error) {
-					console.warn('Failed to clean up file from storage:', item.id, error);
-				}
-			});
+	// Delete the objects of items removed together, once per path
+	private async _deleteStoredObjects(items: UploadItem[]): Promise<void> {
+		const releasing = new Set(items.map((item) => item.id));
+		const byPath = new Map(items.filter((item) => !item.deduplicated).map((item) => [item.path, item]));
+		await Promise.allSettled(
+			Array.from(byPath.values(), (item) => this._deleteStoredObject(item, releasing))
+		);
+	}
+
+	/**
+	 * Delete the stored object of an item and drop its content from the deduplication
+	 * index. Objects the item reached through deduplication, and objects completed
+	 * files outside `releasing` still point to, are kept.
+	 */
+	private async _deleteStoredObject(
+		item: UploadItem,
+		releasing: ReadonlySet<string> = new Set([item.id])
+	): Promise<void> {
+		const adapter = this._storageAdapter;
+		if (!adapter || item.deduplicated) return;
+		for (const other of this.completed.values()) {
+			if (other.path === item.path && !releasing.has(other.id)) return;
+		}
 
-		await Promise.allSettled(deletePromises);
+		try {
+			await adapter.delete(item.path);
+		} catch (error) {
+			console.warn('Failed to delete file from storage:', item.path, error);
+		}
+
+		// Later duplicates must not complete with the deleted object
+		if (item.hash) {
+			await this._deduplication?.index?.delete(item.hash).catch((error) => {
+				console.warn('[FirebaseUploadManager] Failed to update the deduplication index:', error);
+			});
+		}
 	}
 
 	private _startPeriodicHealthCheck(): void {
@@ -1392,23 +3370,39 @@ class FirebaseUploadManager {
 	}
 
 	private _handleUploadError(item: UploadItem, error: Error): void {
+		// Cancellation is not a failure: never retried, never counted
+		if (item.status === 'cancelled') return;
+		this._checksums.delete(item.id);
+		const { code, category, message } = classifyError(error);
+		if (category === 'cancelled') {
+			this._handleUploadCancelled(item);
+			return;
+		}
+
 		// Handle failure with network manager
-		item.status = 'failed';
-		item.error = error.message;
-		item.attempts = (item.attempts || 0) + 1;
+		this._setStatus(item, 'failed');
+		item.error = { code, category, message, attempt: item.attempts };
 
-		// Use network manager for retry logic
+		// Use network manager for retry logic, which only retries `retryable` errors
 		const shouldRetry = this._networkManager.shouldRetry(item.attempts, error);
 		if (shouldRetry) {
 			const delay = this._networkManager.calculateRetryDelay(item.attempts);
-			setTimeout(() => {
-				item.status = 'queued';
-				this.queue.unshift(item); // Add to front for retry
-				this._processQueue();
-			}, delay);
+			this._pendingRetries.set(item.id, item);
+			this._registerTimer(
+				setTimeout(() => {
+					// Cancelled while waiting for the retry
+					if (!this._pendingRetries.delete(item.id)) return;
+
+					this._setStatus(item, 'queued');
+					this.queue.unshift(item); // Add to front for retry
+					this._processQueue();
+				}, delay)
+			);
 		} else {
 			this.failed.set(item.id, item);
 			this.failureCount++;
+			this._claimedPaths.delete(item.id);
+			this._rejectHandle(item.id, UploadError.from(error, item.id));
 		}
 
 		// Remove from active and cleanup
@@ -1416,30 +3410,61 @@ class FirebaseUploadManager {
 		this._uploadTasks.delete(item.id);
 
 		// Emit error event
+		this._events.emit('error', { item, error, willRetry: shouldRetry });
 		if (this.pluginSystem) {
 			this.pluginSystem.emitEvent('onUploadError', item, error);
 		}
+
+		// Continue processing queue
+		if (!shouldRetry && this.isProcessing) {
+			this._processQueue();
+		}
 	}
 
-	private async _handleUploadComplete(item: UploadItem, _: any): Promise<void> {
+	private async _handleUploadComplete(
+		item: UploadItem,
+		snapshot: StorageUploadSnapshot,
+		knownURL?: string
+	): Promise<void> {
+		// The storage task is done, pause() and pauseFile() have nothing left to hold
+		this._uploadTasks.delete(item.id);
+
 		try {
+			await this._verifyIntegrity(item, snapshot.metadata);
+
+			// Cancelled or stopped while the checksum was compared
+			if (item.status !== 'uploading' || !this.active.has(item.id)) return;
+
 			// Get download URL
-			const storageRef = ref(this.storage!, item.path);
-			const downloadURL = await getDownloadURL(storageRef);
+			const downloadURL = knownURL ?? (await this._storageAdapter!.getURL(item.path));
+
+			// Cancelled or stopped while the URL was fetched
+			if (item.status !== 'uploading' || !this.active.has(item.id)) return;
+			if (!item.deduplicated) {
+				this._recordUploadedCopy(item, downloadURL);
+			}
 
 			// Success
-			item.status = 'completed';
+			this._setStatus(item, 'completed');
 			item.completedAt = Date.now();
 			item.downloadURL = downloadURL;
 			this.completed.set(item.id, item);
 			this.successCount++;
+			this._claimedPaths.delete(item.id);
+			this._forgetResumeState(item);
 
 			// Emit success event
+			this._events.emit('complete', { item, downloadURL });
+			this._resolveHandle(item.id, {
+				downloadURL,
+				path: item.path,
+				metadata: snapshot.metadata
+			});
 			if (this.pluginSystem) {
 				this.pluginSystem.emitEvent('onUploadComplete', item, { downloadURL });
 			}
 		} catch (error) {
-			console.error('Error getting download URL for', item.file.name, ':', error);
+			console.error('Error completing upload for', item.file.name, ':', error);
 			this._handleUploadError(item, error as Error);
 			return;
 		}
@@ -1452,6 +3477,163 @@ class FirebaseUploadManager {
 		this._processQueue();
 	}
 
+	// Pause running tasks while the bandwidth token bucket is in debt
+	private _enforceBandwidthLimit(): void {
+		if (this._throttleTimer) return;
+
+		const delay = this._bandwidthManager.getThrottleDelay();
+		if (delay <= 0) return;
+
+		// Throttled tasks keep their status and slot, this is not a user pause
+		for (const fileId of this.active.keys()) {
+			const task = this._uploadTasks.get(fileId);
+			if (task?.pause && !this.paused.has(fileId)) {
+				task.pause();
+				this._throttledIds.add(fileId);
+			}
+		}
+
+		this._throttleTimer = this._registerTimer(
+			setTimeout(() => this._releaseBandwidthThrottle(), delay)
+		);
+	}
+
+	// Resume throttled tasks once the bucket has refilled
+	private _releaseBandwidthThrottle(): void {
+		this._clearTimer(this._throttleTimer);
+		this._throttleTimer = undefined;
+
+		// Still in debt, e.g. the limit was lowered while waiting
+		const delay = this._bandwidthManager.getThrottleDelay();
+		if (delay > 0) {
+			this._throttleTimer = this._registerTimer(
+				setTimeout(() => this._releaseBandwidthThrottle(), delay)
+			);
+			return;
+		}
+
+		for (const fileId of this._throttledIds) {
+			// Paused or finished while throttled
+			if (!this.active.has(fileId) || this.paused.has(fileId)) continue;
+			this._uploadTasks.get(fileId)?.resume?.();
+		}
+		this._throttledIds.clear();
+	}
+
+	// Resume a storage task, or leave it for _releaseBandwidthThrottle while over the limit
+	private _resumeTask(fileId: string): void {
+		if (this._throttleTimer) {
+			this._throttledIds.add(fileId);
+			return;
+		}
+		this._uploadTasks.get(fileId)?.resume?.();
+	}
+
+	// Apply the limit of a new schedule window to running and waiting uploads
+	private _handleBandwidthWindowChange(
+		current: BandwidthWindow | null,
+		previous: BandwidthWindow | null
+	): void {
+		this._events.emit('bandwidthWindowChange', { previous, current });
+
+		if (this._throttleTimer) {
+			this._releaseBandwidthThrottle();
+		} else {
+			this._enforceBandwidthLimit();
+		}
+	}
+
+	private _clearBandwidthThrottle(): void {
+		this._clearTimer(this._throttleTimer);
+		this._throttleTimer = undefined;
+		this._throttledIds.clear();
+	}
+
+	// Move an item to a new status through the state machine and notify subscribers
+	private _setStatus(item: UploadItem, newStatus: UploadStatus): boolean {
+		const oldStatus = transitionStatus(item, newStatus);
+		if (oldStatus === null) return false;
+		this._schedulePersist();
+		this._scheduleTabSync();
+		this._scheduleGroupUpdate(item.groupId);
+
+		this._events.emit('statusChange', { item, oldStatus, newStatus });
+		if (this.pluginSystem) {
+			this.pluginSystem.emitEvent('onStatusChange', item, oldStatus, newStatus);
+		}
+		return true;
+	}
+
+	// Settle a cancelled item and free its slot
+	private _handleUploadCancelled(
+		item: UploadItem,
+		error: UploadError = new UploadError('upload/cancelled', 'Upload was cancelled', item.id)
+	): void {
+		this._setStatus(item, 'cancelled');
+		this.active.delete(item.id);
+		this._uploadTasks.delete(item.id);
+		this._checksums.delete(item.id);
+		this._pausedItems.delete(item.id);
+		this.paused.delete(item.id);
+		this.cancelled.set(item.id, item);
+		this._claimedPaths.delete(item.id);
+		this._forgetResumeState(item);
+
+		this._rejectHandle(item.id, error);
+		this._events.emit('cancelled', { item });
+
+		if (this.isProcessing) {
+			this._processQueue();
+		}
+	}
+
+	// Pause a running storage task and hand the freed slot to the next queued file
+	private _pauseActiveItem(item: UploadItem, task: UploadTask): void {
+		task.pause!();
+		this.active.delete(item.id);
+		this._holdPausedItem(item);
+
+		if (this.isProcessing) {
+			this._processQueue();
+		}
+	}
+
+	// Move a file out of the queue/active slots into the paused holding area
+	private _holdPausedItem(item: UploadItem): void {
+		this._pausedItems.set(item.id, item);
+		this.paused.add(item.id);
+		this._setStatus(item, 'paused');
+		this._events.emit('paused', { fileIds: [item.id] });
+	}
+
+	// Resume a single file paused by the global pause(), keeping its slot
+	private _resumeInPlace(fileId: string): boolean {
+		const item = this.active.get(fileId);
+		const task = this._uploadTasks.get(fileId);
+		if (item && !task && this.paused.has(fileId)) {
+			this._requeueHeldItem(item);
+			this._events.emit('resumed', { fileIds: [fileId] });
+			this._processAddedFiles();
+			return true;
+		}
+		if (!item || !task?.resume || !this.paused.has(fileId)) return false;
+
+		this._resumeTask(fileId);
+		this.paused.delete(fileId);
+		this._setStatus(item, 'uploading');
+		this._events.emit('resumed', { fileIds: [fileId] });
+		return true;
+	}
+
+	// Queue an item paused before its storage task was created, it starts over from beforeUpload
+	private _requeueHeldItem(item: UploadItem): void {
+		this.active.delete(item.id);
+		this.paused.delete(item.id);
+		item.attempts--; // The attempt never reached storage
+		this._setStatus(item, 'queued');
+		this.queue.unshift(item);
+	}
+
 	// Type-safe configuration field update
 	private _updateConfigField(field: keyof UploadManagerConfig, value: any): void {
 		switch (field) {
@@ -1528,6 +3710,9 @@ class FirebaseUploadManager {
 				// Update bandwidth manager if it exists
 				if (this._bandwidthManager) {
 					this._bandwidthManager.setBandwidthLimit(value);
+					if (this._throttleTimer) {
+						this._releaseBandwidthThrottle();
+					}
 				}
 				break;
 			case 'maxConcurrentUploads':
@@ -0,0 +1,2799 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+
+// Mocked firebase/storage: each task sends a quarter of the file every 100ms
+const storageMock = vi.hoisted(() => {
+	const TICK_INTERVAL = 100;
+	const TICKS_PER_UPLOAD = 4;
+
+	type Observer = {
+		next?: (snapshot: any) => void;
+		error?: (error: any) => void;
+		complete?: () => void;
+	};
+
+	class MockUploadTask {
+		state: 'running' | 'paused' | 'success' | 'canceled' | 'error' = 'running';
+		bytesTransferred = 0;
+		private _observers: Observer[] = [];
+		private _timer?: ReturnType<typeof setTimeout>;
+
+		constructor(
+			public path: string,
+			public totalBytes: number,
+			private _failWith: string | null
+		) {
+			this._schedule();
+		}
+
+		get observerCount() {
+			return this._observers.length;
+		}
+
+		get snapshot() {
+			return {
+				bytesTransferred: this.bytesTransferred,
+				totalBytes: this.totalBytes,
+				state: this.state,
+				metadata: { fullPath: this.path, size: this.totalBytes }
+			};
+		}
+
+		on(
+			_event: string,
+			next?: Observer['next'],
+			error?: Observer['error'],
+			complete?: Observer['complete']
+		) {
+			const observer = { next, error, complete };
+			this._observers.push(observer);
+			return () => {
+				this._observers = this._observers.filter((candidate) => candidate !== observer);
+			};
+		}
+
+		pause() {
+			if (this.state !== 'running') return false;
+			this.state = 'paused';
+			clearTimeout(this._timer);
+			return true;
+		}
+
+		resume() {
+			if (this.state !== 'paused') return false;
+			this.state = 'running';
+			this._schedule();
+			return true;
+		}
+
+		cancel() {
+			if (this.state !== 'running' && this.state !== 'paused') return false;
+			this._finishWithError('canceled');
+			return true;
+		}
+
+		private _schedule() {
+			this._timer = setTimeout(() => this._tick(), TICK_INTERVAL);
+		}
+
+		private _tick() {
+			if (this.state !== 'running') return;
+
+			if (this._failWith) {
+				this._finishWithError(this._failWith);
+				return;
+			}
+
+			const chunk = Math.ceil(this.totalBytes / TICKS_PER_UPLOAD);
+			this.bytesTransferred = Math.min(this.totalBytes, this.bytesTransferred + chunk);
+			this._observers.forEach((observer) => observer.next?.(this.snapshot));
+
+			if (this.bytesTransferred < this.totalBytes) {
+				this._schedule();
+				return;
+			}
+
+			this.state = 'success';
+			objects.add(this.path);
+			this._observers.forEach((observer) => observer.complete?.());
+		}
+
+		private _finishWithError(code: string) {
+			this.state = code === 'canceled' ? 'canceled' : 'error';
+			clearTimeout(this._timer);
+			const error = Object.assign(new Error(`Firebase Storage: (storage/${code})`), {
+				code: `storage/${code}`
+			});
+			this._observers.forEach((observer) => observer.error?.(error));
+		}
+	}
+
+	const tasks: MockUploadTask[] = [];
+	const objects = new Set<string>();
+	const failingPaths = new Map<string, string>();
+	let maxConcurrent = 0;
+
+	return {
+		tasks,
+		objects,
+		failingPaths,
+		get maxConcurrent() {
+			return maxConcurrent;
+		},
+		reset() {
+			tasks.length = 0;
+			objects.clear();
+			failingPaths.clear();
+			maxConcurrent = 0;
+		},
+		ref: vi.fn((_storage: unknown, path: string) => ({ fullPath: path })),
+		uploadBytesResumable: vi.fn((storageRef: { fullPath: string }, data: Blob) => {
+			const task = new MockUploadTask(
+				storageRef.fullPath,
+				data.size,
+				failingPaths.get(storageRef.fullPath) || null
+			);
+			tasks.push(task);
+			const running = tasks.filter(
+				(candidate) => candidate.state === 'running' || candidate.state === 'paused'
+			).length;
+			maxConcurrent = Math.max(maxConcurrent, running);
+			return task;
+		}),
+		getDownloadURL: vi.fn(async (storageRef: { fullPath: string }) => {
+			return `https://storage.test/${storageRef.fullPath}`;
+		}),
+		deleteObject: vi.fn(async (storageRef: { fullPath: string }) => {
+			objects.delete(storageRef.fullPath);
+		}),
+		getMetadata: vi.fn()
+	};
+});
+
+vi.mock('firebase/storage', () => storageMock);
+
+import FirebaseUploadManager from './upload-manager.svelte.js';
+import { UploadError } from './errors.js';
+import { MemoryStorageAdapter } from './adapters/memory-adapter.svelte.js';
+import { MemoryManager } from './utils/memory-manager.svelte.js';
+import { FileValidator } from './utils/file-validator.svelte.js';
+import type {
+	BackgroundServiceWorkerContainer,
+	BackgroundUploadEvent,
+	BackgroundUploadJobStatus,
+	BackgroundUploadRequest,
+	DeduplicationIndex,
+	DeduplicationIndexEntry,
+	FirebaseStorage,
+	PersistedUploadState,
+	TabChannel,
+	TabLockManager,
+	UploadGroup
+} from './types.js';
+
+function createFiles(count: number, size = 1000): File[] {
+	return Array.from(
+		{ length: count },
+		(_, index) => new File(['x'.repeat(size)], `file-${index}.txt`, { type: 'text/plain' })
+	);
+}
+
+function createManager(options: Record<string, unknown> = {}): FirebaseUploadManager {
+	const manager = new FirebaseUploadManager({
+		maxConcurrentUploads: 2,
+		retryAttempts: 0,
+		enableHealthChecks: false,
+		...options
+	});
+	manager.setStorage({} as FirebaseStorage);
+	return manager;
+}
+
+let manager: FirebaseUploadManager | undefined;
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	storageMock.reset();
+	// The manager logs every upload error; keep test output readable
+	vi.spyOn(console, 'error').mockImplementation(() => {});
+	vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+	await manager?.stop();
+	manager = undefined;
+	vi.clearAllTimers();
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+// Advance fake time in small steps, checking invariants after each step
+async function runUntilIdle(manager: FirebaseUploadManager, maxSteps = 500): Promise<void> {
+	for (let step = 0; step < maxSteps; step++) {
+		await vi.advanceTimersByTimeAsync(50);
+		expect(manager.active.size).toBeLessThanOrEqual(manager.config.maxConcurrentUploads);
+		if (manager.isIdle) return;
+	}
+	throw new Error('Upload manager did not become idle');
+}
+
+describe('FirebaseUploadManager queue engine', () => {
+	it('uploads every queued file without exceeding maxConcurrentUploads', async () => {
+		manager = createManager({ maxConcurrentUploads: 2 });
+		const files = createFiles(6);
+
+		const added = await manager.addFiles(files);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(added).toBe(6);
+		expect(storageMock.maxConcurrent).toBeLessThanOrEqual(2);
+		expect(manager.successCount).toBe(6);
+		expect(manager.failureCount).toBe(0);
+		expect(manager.totalFiles).toBe(6);
+		expect(manager.uploadedSize).toBe(manager.totalSize);
+		expect(manager.totalProgress).toBe(100);
+		expect(manager.isIdle).toBe(true);
+		expect(storageMock.objects.size).toBe(6);
+	});
+
+	it('respects a concurrency limit of one', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(3));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(storageMock.maxConcurrent).toBe(1);
+		expect(manager.successCount).toBe(3);
+		expect(manager.isIdle).toBe(true);
+	});
+
+	it('starts automatically when autoStart is enabled', async () => {
+		manager = createManager({ autoStart: true });
+
+		await manager.addFiles(createFiles(2));
+		await runUntilIdle(manager);
+
+		expect(manager.successCount).toBe(2);
+		expect(manager.isIdle).toBe(true);
+	});
+
+	it('sets downloadURL and completed status on finished items', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(1), { path: 'avatars/me.txt' });
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const [item] = manager.getAllFiles('completed');
+		expect(item.path).toBe('avatars/me.txt');
+		expect(item.progress).toBe(100);
+		expect(item.downloadURL).toBe('https://storage.test/avatars/me.txt');
+		expect(item.completedAt).toBeDefined();
+	});
+
+	it('counts failures and keeps counters consistent', async () => {
+		manager = createManager();
+		storageMock.failingPaths.set('uploads/bad.txt', 'unauthorized');
+
+		await manager.addFiles([new File(['bad'], 'bad.txt')]);
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.successCount).toBe(2);
+		expect(manager.failureCount).toBe(1);
+		expect(manager.failed.size).toBe(1);
+		expect(manager.successCount + manager.failureCount).toBe(manager.totalFiles);
+		expect(manager.isIdle).toBe(true);
+	});
+
+	it('re-queues failed files with retryFailed', async () => {
+		manager = createManager();
+		storageMock.failingPaths.set('uploads/flaky.txt', 'unknown');
+
+		await manager.addFiles([new File(['flaky'], 'flaky.txt')]);
+		await manager.start();
+		await runUntilIdle(manager);
+		expect(manager.failureCount).toBe(1);
+
+		storageMock.failingPaths.clear();
+		manager.retryFailed();
+		expect(manager.failureCount).toBe(0);
+		expect(manager.queue).toHaveLength(1);
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.successCount).toBe(1);
+		expect(manager.failed.size).toBe(0);
+		expect(manager.isIdle).toBe(true);
+	});
+
+	it('pauses and resumes active uploads', async () => {
+		manager = createManager({ maxConcurrentUploads: 2 });
+
+		await manager.addFiles(createFiles(4));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		await manager.pause();
+		expect(manager.isPaused).toBe(true);
+		expect(manager.paused.size).toBe(2);
+
+		const uploadedWhilePaused = manager.uploadedSize;
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(manager.uploadedSize).toBe(uploadedWhilePaused);
+		expect(manager.active.size).toBe(2);
+		expect(storageMock.tasks).toHaveLength(2);
+
+		const resumed = manager.resume();
+		await runUntilIdle(manager);
+		await resumed;
+
+		expect(manager.isPaused).toBe(false);
+		expect(manager.paused.size).toBe(0);
+		expect(storageMock.maxConcurrent).toBeLessThanOrEqual(2);
+		expect(manager.successCount).toBe(4);
+		expect(manager.isIdle).toBe(true);
+	});
+
+	it('stop cancels active uploads', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(3));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		await manager.stop();
+
+		expect(manager.isProcessing).toBe(false);
+		expect(manager.active.size).toBe(0);
+		expect(storageMock.tasks.every((task) => task.state !== 'running')).toBe(true);
+	});
+
+	it('removes a queued file before it uploads', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(3));
+		const [, second] = manager.queue;
+		await manager.removeFile(second.id);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.getFile(second.id)).toBeUndefined();
+		expect(manager.successCount).toBe(2);
+		expect(storageMock.tasks).toHaveLength(2);
+	});
+
+	it('cancels an active upload when it is removed', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		const [activeItem] = manager.active.values();
+		await manager.removeFile(activeItem.id);
+
+		expect(manager.active.has(activeItem.id)).toBe(false);
+		expect(storageMock.tasks[0].state).toBe('canceled');
+	});
+
+	it('deletes the stored object of a completed file when it is removed', async () => {
+		manager = createManager();
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+		await manager.removeFile(handle.id);
+
+		expect(manager.getFile(handle.id)).toBeUndefined();
+		expect(storageMock.deleteObject).toHaveBeenCalledWith({ fullPath: 'uploads/data.txt' });
+	});
+});
+
+describe('FirebaseUploadManager large file sets', () => {
+	it('pages lazily added files into the queue within maxMemoryItems', async () => {
+		manager = createManager({ maxConcurrentUploads: 10, maxMemoryItems: 100 });
+
+		await expect(manager.addFiles(createFiles(250, 10))).resolves.toBe(250);
+		expect(manager.totalFiles).toBe(250);
+		expect(manager.totalSize).toBe(2500);
+		expect(manager.queue).toHaveLength(0);
+
+		await manager.start();
+		let maxQueued = 0;
+		for (let step = 0; step < 1000 && !manager.isIdle; step++) {
+			await vi.advanceTimersByTimeAsync(50);
+			maxQueued = Math.max(maxQueued, manager.queue.length);
+		}
+
+		expect(manager.isIdle).toBe(true);
+		expect(maxQueued).toBeLessThanOrEqual(100);
+		expect(manager.successCount).toBe(250);
+		expect(manager.uploadedSize).toBe(2500);
+		expect(storageMock.maxConcurrent).toBeLessThanOrEqual(10);
+	});
+
+	it('keeps per-call path, metadata and priority for batched files', async () => {
+		manager = createManager({ maxConcurrentUploads: 10 });
+
+		await manager.addFiles(createFiles(101, 10), {
+			path: 'bulk/archive.txt',
+			metadata: { album: 'summer' },
+			priority: 5
+		});
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(50);
+
+		expect(manager.getAllFiles()).toHaveLength(101);
+		for (const item of manager.getAllFiles()) {
+			expect(item.path).toBe('bulk/archive.txt');
+			expect(item.metadata).toEqual({ album: 'summer' });
+			expect(item.priority).toBe(5);
+		}
+	});
+
+	it('adds the files of every call to the totals once', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(150, 10));
+		await manager.addFiles(createFiles(120, 10));
+
+		expect(manager.totalFiles).toBe(270);
+		expect(manager.totalSize).toBe(2700);
+	});
+
+	it('fails batched files whose path cannot be resolved and loads the rest', async () => {
+		manager = createManager({ maxConcurrentUploads: 10 });
+		const errors = vi.fn();
+		manager.on('error', errors);
+		const tooLong = new File(['x'.repeat(10)], `${'a'.repeat(1100)}.txt`);
+
+		await manager.addFiles([tooLong, ...createFiles(100, 10)], {
+			pathTemplate: '{name}/original.{ext}'
+		});
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const [failed] = manager.failed.values();
+		expect(failed.file).toBe(tooLong);
+		expect(failed.error).toMatchObject({ code: 'path/too-long', category: 'permanent' });
+		expect(errors).toHaveBeenCalledWith({
+			item: failed,
+			error: expect.any(Error),
+			willRetry: false
+		});
+		expect(manager.successCount).toBe(100);
+		expect(manager.failureCount).toBe(1);
+		expect(manager.totalFiles).toBe(101);
+		expect(manager.totalSize).toBe(1010);
+	});
+});
+
+describe('FirebaseUploadManager progress tracking', () => {
+	it('observes each storage task once and counts every snapshot once', async () => {
+		manager = createManager({ maxConcurrentUploads: 3 });
+		const onUploadProgress = vi.fn();
+		await manager.registerPlugin({ name: 'progress-spy', version: '1.0.0', onUploadProgress });
+		const snapshots: number[] = [];
+		manager.on('progress', ({ uploadedBytes }) => {
+			snapshots.push(uploadedBytes);
+			const tracked = manager!.getAllFiles().reduce((sum, item) => sum + item.uploadedBytes, 0);
+			expect(manager!.uploadedSize).toBe(tracked);
+		});
+
+		await manager.addFiles(createFiles(3, 1000));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(50);
+		expect(storageMock.tasks.map((task) => task.observerCount)).toEqual([1, 1, 1]);
+
+		await runUntilIdle(manager);
+
+		// Four snapshots per file (25% each), each reported and counted once
+		expect(snapshots).toHaveLength(12);
+		expect(onUploadProgress).toHaveBeenCalledTimes(12);
+		expect(manager.uploadedSize).toBe(3000);
+		expect(manager.uploadedSize).toBe(manager.totalSize);
+	});
+});
+
+describe('FirebaseUploadManager per-file pause', () => {
+	it('frees the concurrency slot of a paused upload', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		const statusChanges = vi.fn();
+		manager.on('statusChange', statusChanges);
+
+		await manager.addFiles(createFiles(3));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		const [first] = manager.active.values();
+		await expect(manager.pauseFile(first.id)).resolves.toBe(true);
+
+		expect(first.status).toBe('paused');
+		expect(manager.paused.has(first.id)).toBe(true);
+		expect(manager.active.has(first.id)).toBe(false);
+		expect(statusChanges).toHaveBeenCalledWith({
+			item: first,
+			oldStatus: 'uploading',
+			newStatus: 'paused'
+		});
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(manager.successCount).toBe(2);
+		expect(first.progress).toBeLessThan(100);
+		expect(manager.getAllFiles('paused')).toEqual([first]);
+	});
+
+	it('continues the same storage task after resumeFile', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		const [first] = manager.active.values();
+		await manager.pauseFile(first.id);
+		await expect(manager.resumeFile(first.id)).resolves.toBe(true);
+		await runUntilIdle(manager);
+
+		expect(first.status).toBe('completed');
+		expect(first.attempts).toBe(1);
+		expect(manager.paused.size).toBe(0);
+		expect(storageMock.tasks).toHaveLength(2);
+		expect(manager.successCount).toBe(2);
+	});
+
+	it('holds a queued file until it is resumed', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(2));
+		const [, second] = manager.queue;
+		await manager.pauseFile(second.id);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(second.status).toBe('paused');
+		expect(manager.queue).toHaveLength(0);
+		expect(storageMock.tasks).toHaveLength(1);
+
+		await manager.resumeFile(second.id);
+		expect(second.status).toBe('queued');
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(second.status).toBe('completed');
+		expect(manager.successCount).toBe(2);
+	});
+
+	it('returns false for files that cannot be paused or resumed', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+
+		await expect(manager.resumeFile(item.id)).resolves.toBe(false);
+		await expect(manager.pauseFile('missing')).resolves.toBe(false);
+	});
+
+	it('does not start uploads still being prepared after pause()', async () => {
+		manager = createManager();
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		await manager.registerPlugin({
+			name: 'slow',
+			version: '1.0.0',
+			beforeUpload: async (item: any) => {
+				await gate;
+				return item;
+			}
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(10);
+		await manager.pause();
+		release();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		const item = manager.getFile(handle.id)!;
+		expect(item.status).toBe('paused');
+		expect(storageMock.tasks).toHaveLength(0);
+
+		const resumed = manager.resume();
+		await runUntilIdle(manager);
+		await resumed;
+
+		expect(item.status).toBe('completed');
+		expect(item.attempts).toBe(1);
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+
+	it('pauses a file still being prepared once beforeUpload finishes', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		await manager.registerPlugin({
+			name: 'slow',
+			version: '1.0.0',
+			beforeUpload: async (item: any) => {
+				if (item.file.name === 'slow.txt') await gate;
+				return item;
+			}
+		});
+
+		const slow = manager.enqueue(new File(['data'], 'slow.txt'));
+		const next = manager.enqueue(new File(['data'], 'next.txt'));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(10);
+		await expect(manager.pauseFile(slow.id)).resolves.toBe(true);
+		release();
+		await runUntilIdle(manager);
+
+		const item = manager.getFile(slow.id)!;
+		expect(item.status).toBe('paused');
+		expect(manager.getFile(next.id)?.status).toBe('completed');
+		expect(storageMock.tasks.map((task) => task.path)).toEqual(['uploads/next.txt']);
+
+		await manager.resumeFile(slow.id);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(item.status).toBe('completed');
+		expect(item.attempts).toBe(1);
+	});
+
+	it('drops a pause resumed before the file was prepared', async () => {
+		manager = createManager();
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		await manager.registerPlugin({
+			name: 'slow',
+			version: '1.0.0',
+			beforeUpload: async (item: any) => {
+				await gate;
+				return item;
+			}
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(10);
+		await manager.pauseFile(handle.id);
+		await expect(manager.resumeFile(handle.id)).resolves.toBe(true);
+		release();
+		await runUntilIdle(manager);
+
+		expect(manager.getFile(handle.id)?.status).toBe('completed');
+	});
+});
+
+describe('FirebaseUploadManager error classification', () => {
+	it('stores a structured error and retries retryable failures', async () => {
+		manager = createManager({ retryAttempts: 3 });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'retry-limit-exceeded');
+		const errors = vi.fn();
+		manager.on('error', errors);
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		expect(item.error).toEqual({
+			code: 'storage/retry-limit-exceeded',
+			category: 'retryable',
+			message: 'Firebase Storage: (storage/retry-limit-exceeded)',
+			attempt: 1
+		});
+		expect(errors.mock.calls[0][0].willRetry).toBe(true);
+
+		storageMock.failingPaths.clear();
+		await runUntilIdle(manager);
+
+		expect(item.status).toBe('completed');
+		expect(item.attempts).toBe(2);
+		expect(manager.failureCount).toBe(0);
+	});
+
+	it.each(['unauthorized', 'quota-exceeded', 'object-not-found'])(
+		'does not retry storage/%s',
+		async (code) => {
+			manager = createManager({ retryAttempts: 3 });
+			storageMock.failingPaths.set('uploads/file-0.txt', code);
+
+			await manager.addFiles(createFiles(1));
+			const [item] = manager.queue;
+			await manager.start();
+			await runUntilIdle(manager);
+			await vi.advanceTimersByTimeAsync(60000);
+
+			expect(item.status).toBe('failed');
+			expect(item.error?.code).toBe(`storage/${code}`);
+			expect(storageMock.tasks).toHaveLength(1);
+			expect(manager.failureCount).toBe(1);
+		}
+	);
+
+	it('gives up after retryAttempts attempts', async () => {
+		manager = createManager({ retryAttempts: 2 });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'retry-limit-exceeded');
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		for (let step = 0; step < 20 && manager.failed.size === 0; step++) {
+			await vi.advanceTimersByTimeAsync(5000);
+		}
+
+		expect(item.status).toBe('failed');
+		expect(item.error).toMatchObject({ category: 'retryable', attempt: 2 });
+		expect(storageMock.tasks).toHaveLength(2);
+	});
+
+	it('drops pending retries when destroyed', async () => {
+		manager = createManager({ retryAttempts: 3 });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'retry-limit-exceeded');
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+		expect(item.status).toBe('failed');
+
+		await manager.destroy();
+		await vi.advanceTimersByTimeAsync(60000);
+
+		expect(item.status).toBe('failed');
+		expect(manager.queue).toHaveLength(0);
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+});
+
+describe('FirebaseUploadManager cancellation', () => {
+	it('cancels an active upload without counting a failure', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		const errors = vi.fn();
+		const cancelled = vi.fn();
+		manager.on('error', errors);
+		manager.on('cancelled', cancelled);
+
+		const handle = manager.enqueue(new File(['x'.repeat(100)], 'big.txt'));
+		manager.enqueue(new File(['y'.repeat(100)], 'next.txt'));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		await expect(manager.cancel(handle.id)).resolves.toBe(true);
+		await runUntilIdle(manager);
+
+		const item = manager.getFile(handle.id)!;
+		expect(item.status).toBe('cancelled');
+		expect(manager.cancelled.get(handle.id)).toBe(item);
+		expect(storageMock.tasks[0].state).toBe('canceled');
+		expect(cancelled).toHaveBeenCalledWith({ item });
+		expect(errors).not.toHaveBeenCalled();
+		expect(manager.failureCount).toBe(0);
+		expect(manager.successCount).toBe(1);
+		await expect(handle.done).rejects.toMatchObject({ code: 'upload/cancelled' });
+	});
+
+	it('cancels a queued file before it starts', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+
+		await manager.addFiles(createFiles(2));
+		const [, second] = manager.queue;
+		await manager.cancel(second.id);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(second.status).toBe('cancelled');
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+
+	it('does not retry storage/canceled errors', async () => {
+		manager = createManager({ retryAttempts: 5 });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'canceled');
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+		await vi.advanceTimersByTimeAsync(60000);
+
+		expect(manager.getAllFiles('cancelled')).toHaveLength(1);
+		expect(manager.failed.size).toBe(0);
+		expect(manager.failureCount).toBe(0);
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+
+	it('drops a pending retry when cancelled', async () => {
+		manager = createManager({ retryAttempts: 5 });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'retry-limit-exceeded');
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+		expect(item.status).toBe('failed');
+
+		await manager.cancel(item.id);
+		await vi.advanceTimersByTimeAsync(60000);
+
+		expect(item.status).toBe('cancelled');
+		expect(manager.queue).toHaveLength(0);
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+
+	it('marks uploads cancelled on stop', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+		await manager.stop();
+
+		expect(manager.getAllFiles('cancelled')).toHaveLength(2);
+		expect(manager.failureCount).toBe(0);
+	});
+
+	it('cancels uploads still being prepared on stop', async () => {
+		manager = createManager();
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		await manager.registerPlugin({
+			name: 'slow',
+			version: '1.0.0',
+			beforeUpload: async (item: any) => {
+				await gate;
+				return item;
+			}
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		const done = expect(handle.done).rejects.toMatchObject({ code: 'upload/cancelled' });
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(10);
+		expect(manager.active.has(handle.id)).toBe(true);
+
+		await manager.stop();
+		release();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await done;
+		expect(manager.getFile(handle.id)?.status).toBe('cancelled');
+		expect(manager.active.size).toBe(0);
+		expect(storageMock.tasks).toHaveLength(0);
+	});
+
+	it('returns false for finished files', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(manager.cancel(item.id)).resolves.toBe(false);
+		expect(item.status).toBe('completed');
+	});
+});
+
+describe('FirebaseUploadManager status transitions', () => {
+	it('records a timestamped history of every status', async () => {
+		manager = createManager();
+		storageMock.failingPaths.set('uploads/file-0.txt', 'unauthorized');
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await runUntilIdle(manager);
+
+		storageMock.failingPaths.clear();
+		manager.retryFailed();
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(item.statusHistory.map((entry) => entry.status)).toEqual([
+			'queued',
+			'uploading',
+			'failed',
+			'queued',
+			'uploading',
+			'completed'
+		]);
+		const timestamps = item.statusHistory.map((entry) => entry.timestamp);
+		expect(timestamps).toEqual([...timestamps].sort((a, b) => a - b));
+	});
+
+	it('emits onStatusChange to plugins with the old and new status', async () => {
+		manager = createManager();
+		const onStatusChange = vi.fn();
+		await manager.registerPlugin({ name: 'status-spy', version: '1.0.0', onStatusChange });
+
+		await manager.addFiles(createFiles(1));
+		const [item] = manager.queue;
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(onStatusChange.mock.calls).toEqual([
+			[item, 'queued', 'uploading'],
+			[item, 'uploading', 'completed']
+		]);
+	});
+});
+
+describe('FirebaseUploadManager events', () => {
+	it('emits progress, complete, statusChange and queueDrained', async () => {
+		manager = createManager();
+		const progress: number[] = [];
+		const completed: string[] = [];
+		const transitions: string[] = [];
+		const drained = vi.fn();
+
+		manager.on('progress', (event) => progress.push(event.progress));
+		manager.on('complete', (event) => completed.push(event.downloadURL));
+		manager.on('statusChange', (event) =>
+			transitions.push(`${event.oldStatus}->${event.newStatus}`)
+		);
+		manager.on('queueDrained', drained);
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(progress).toEqual([25, 50, 75, 100]);
+		expect(completed).toEqual(['https://storage.test/uploads/file-0.txt']);
+		expect(transitions).toEqual(['queued->uploading', 'uploading->completed']);
+		expect(drained).toHaveBeenCalledTimes(1);
+		expect(drained).toHaveBeenCalledWith({ successCount: 1, failureCount: 0 });
+	});
+
+	it('emits error with the retry decision', async () => {
+		manager = createManager();
+		storageMock.failingPaths.set('uploads/bad.txt', 'unauthorized');
+		const errors = vi.fn();
+		manager.on('error', errors);
+
+		await manager.addFiles([new File(['bad'], 'bad.txt')]);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(errors).toHaveBeenCalledTimes(1);
+		expect(errors.mock.calls[0][0].willRetry).toBe(false);
+		expect(errors.mock.calls[0][0].item.status).toBe('failed');
+	});
+
+	it('emits paused and resumed with the affected file ids', async () => {
+		manager = createManager();
+		const paused = vi.fn();
+		const resumed = vi.fn();
+		manager.on('paused', paused);
+		manager.on('resumed', resumed);
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		const activeIds = Array.from(manager.active.keys());
+		await manager.pause();
+		const resuming = manager.resume();
+		await runUntilIdle(manager);
+		await resuming;
+
+		expect(paused).toHaveBeenCalledWith({ fileIds: activeIds });
+		expect(resumed).toHaveBeenCalledWith({ fileIds: activeIds });
+	});
+
+	it('stops calling a handler after unsubscribe', async () => {
+		manager = createManager();
+		const handler = vi.fn();
+		const unsubscribe = manager.on('progress', handler);
+		unsubscribe();
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(handler).not.toHaveBeenCalled();
+	});
+});
+
+describe('FirebaseUploadManager upload handles', () => {
+	it('resolves done with the download URL, path and metadata', async () => {
+		manager = createManager();
+
+		const handle = manager.enqueue(new File(['avatar'], 'me.png'), { path: 'avatars/me.png' });
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(handle.done).resolves.toEqual({
+			downloadURL: 'https://storage.test/avatars/me.png',
+			path: 'avatars/me.png',
+			metadata: expect.objectContaining({ fullPath: 'avatars/me.png', size: 6 })
+		});
+		expect(manager.getFile(handle.id)?.status).toBe('completed');
+	});
+
+	it('rejects done with an UploadError carrying the storage error code', async () => {
+		manager = createManager();
+		storageMock.failingPaths.set('uploads/secret.txt', 'unauthorized');
+
+		const handle = manager.enqueue(new File(['secret'], 'secret.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const error = await handle.done.catch((reason) => reason);
+		expect(error).toBeInstanceOf(UploadError);
+		expect(error.code).toBe('storage/unauthorized');
+		expect(error.fileId).toBe(handle.id);
+	});
+
+	it('rejects done with upload/cancelled when cancelled', async () => {
+		manager = createManager();
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await handle.cancel();
+
+		await expect(handle.done).rejects.toMatchObject({ code: 'upload/cancelled' });
+		expect(manager.getFile(handle.id)?.status).toBe('cancelled');
+	});
+
+	it('reports progress for its own file only', async () => {
+		manager = createManager();
+
+		const handle = manager.enqueue(new File(['x'.repeat(100)], 'mine.txt'));
+		manager.enqueue(new File(['y'.repeat(100)], 'other.txt'));
+		const progress: number[] = [];
+		handle.onProgress((update) => progress.push(update.progress));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(progress).toEqual([25, 50, 75, 100]);
+	});
+
+	it('pauses and resumes only its own upload', async () => {
+		manager = createManager();
+
+		const handle = manager.enqueue(new File(['x'.repeat(100)], 'mine.txt'));
+		const other = manager.enqueue(new File(['y'.repeat(100)], 'other.txt'));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		await handle.pause();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(manager.getFile(other.id)?.status).toBe('completed');
+		expect(manager.getFile(handle.id)?.progress).toBeLessThan(100);
+
+		await handle.resume();
+		await runUntilIdle(manager);
+
+		await expect(handle.done).resolves.toMatchObject({ path: 'uploads/mine.txt' });
+	});
+});
+
+describe('FirebaseUploadManager plugin hooks', () => {
+	it('runs the file, queue and upload hooks in order', async () => {
+		manager = createManager();
+		const calls: string[] = [];
+		const record =
+			(hook: string) =>
+			(..._args: unknown[]) => {
+				calls.push(hook);
+			};
+		await manager.registerPlugin({
+			name: 'recorder',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => {
+				calls.push('beforeFileAdd');
+				return { file, options };
+			},
+			afterFileAdd: record('afterFileAdd'),
+			beforeQueueProcess: (queue: any[]) => {
+				calls.push('beforeQueueProcess');
+				return queue;
+			},
+			afterQueueProcess: record('afterQueueProcess'),
+			beforeUpload: (item: any) => {
+				calls.push('beforeUpload');
+				return item;
+			},
+			onUploadStart: record('onUploadStart'),
+			onUploadComplete: record('onUploadComplete')
+		});
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(calls).toEqual([
+			'beforeFileAdd',
+			'afterFileAdd',
+			'beforeQueueProcess',
+			'afterQueueProcess',
+			'beforeUpload',
+			'onUploadStart',
+			'onUploadComplete'
+		]);
+	});
+
+	it('queues the file and options returned by beforeFileAdd', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'renamer',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => ({
+				file: new File(['small'], 'compressed.txt'),
+				options: { ...options, path: `processed/${file.name}` }
+			})
+		});
+
+		await manager.addFiles([new File(['x'.repeat(100)], 'original.txt')]);
+
+		const [item] = manager.queue;
+		expect(item.file.name).toBe('compressed.txt');
+		expect(item.path).toBe('processed/original.txt');
+		expect(manager.totalSize).toBe(5);
+	});
+
+	it('runs beforeFileAdd for files added with enqueue', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'prefixer',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => ({
+				file,
+				options: { ...options, path: `tenant-a/${file.name}` }
+			})
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(handle.done).resolves.toMatchObject({ path: 'tenant-a/data.txt' });
+	});
+
+	it('uploads in the order returned by beforeQueueProcess', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		await manager.registerPlugin({
+			name: 'reverse',
+			version: '1.0.0',
+			beforeQueueProcess: (queue: any[]) => [...queue].reverse()
+		});
+
+		await manager.addFiles(createFiles(3));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(storageMock.tasks.map((task) => task.path)).toEqual([
+			'uploads/file-2.txt',
+			'uploads/file-1.txt',
+			'uploads/file-0.txt'
+		]);
+	});
+
+	it('uploads to the path returned by beforeUpload', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'redirect',
+			version: '1.0.0',
+			beforeUpload: (item: any) => ({ ...item, path: `staging/${item.file.name}` })
+		});
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const [item] = manager.getAllFiles('completed');
+		expect(item.path).toBe('staging/file-0.txt');
+		expect(storageMock.objects.has('staging/file-0.txt')).toBe(true);
+	});
+
+	it('runs the validation hooks in addFilesWithValidation', async () => {
+		manager = createManager();
+		const afterValidation = vi.fn();
+		await manager.registerPlugin({
+			name: 'strict',
+			version: '1.0.0',
+			beforeValidation: (file: File, rules: any) => ({ file, rules: { ...rules, maxSize: 10 } }),
+			afterValidation
+		});
+
+		const result = await manager.addFilesWithValidation(
+			[new File(['ok'], 'ok.txt'), new File(['x'.repeat(100)], 'big.txt')],
+			{ skipDuplicates: false, checkResume: false }
+		);
+
+		expect(result.validated).toBe(1);
+		expect(result.added).toBe(1);
+		expect(afterValidation).toHaveBeenCalledTimes(2);
+		expect(manager.queue.map((item) => item.file.name)).toEqual(['ok.txt']);
+	});
+
+	it('reports manager state changes', async () => {
+		manager = createManager();
+		const states: any[] = [];
+		await manager.registerPlugin({
+			name: 'state',
+			version: '1.0.0',
+			onManagerStateChange: (state: any) => {
+				states.push({ ...state });
+			}
+		});
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(states[0]).toMatchObject({ isProcessing: true, queued: 1 });
+		expect(states[states.length - 1]).toMatchObject({ isProcessing: false, successCount: 1 });
+	});
+});
+
+describe('FirebaseUploadManager plugin decisions', () => {
+	it('does not queue files skipped or rejected by beforeFileAdd', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'policy',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => {
+				if (file.name.endsWith('.exe'))
+					return { action: 'reject', reason: 'Executables are blocked' };
+				if (file.name.startsWith('.')) return { action: 'skip', reason: 'Hidden file' };
+				return { file, options };
+			}
+		});
+
+		const added = await manager.addFiles([
+			new File(['a'], 'photo.jpg'),
+			new File(['b'], 'setup.exe'),
+			new File(['c'], '.DS_Store')
+		]);
+
+		expect(added).toBe(1);
+		expect(manager.queue.map((item) => item.file.name)).toEqual(['photo.jpg']);
+		expect(manager.totalFiles).toBe(1);
+	});
+
+	it('rejects enqueue handles with the plugin reason', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'policy',
+			version: '1.0.0',
+			beforeFileAdd: () => ({ action: 'reject', reason: 'Quota reached' })
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+
+		await expect(handle.done).rejects.toMatchObject({
+			code: 'plugin/rejected',
+			message: 'Quota reached',
+			fileId: handle.id
+		});
+		expect(manager.getFile(handle.id)).toBeUndefined();
+	});
+
+	it('reports decisions in the addFilesWithValidation result', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'policy',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => {
+				if (file.name === 'blocked.txt') return { action: 'reject', reason: 'Blocked name' };
+				if (file.name === 'later.txt') return { action: 'defer', until: Date.now() + 60000 };
+				if (file.name === 'ignored.txt') return { action: 'skip', reason: 'Not needed' };
+				return { file, options };
+			}
+		});
+
+		const result = await manager.addFilesWithValidation(
+			['ok.txt', 'blocked.txt', 'later.txt', 'ignored.txt'].map((name) => new File([name], name)),
+			{ validate: false, skipDuplicates: false, checkResume: false }
+		);
+
+		expect(result).toMatchObject({ added: 1, skipped: 1, rejected: 1, deferred: 1 });
+		expect(result.errors).toEqual(['blocked.txt: Blocked name']);
+		expect(result.decisions.map(({ file, decision }) => [file.name, decision.plugin])).toEqual([
+			['blocked.txt', 'policy'],
+			['later.txt', 'policy'],
+			['ignored.txt', 'policy']
+		]);
+	});
+
+	it('stops the pipeline at the first decision', async () => {
+		manager = createManager();
+		const lowerPriority = vi.fn((file: File, options: any) => ({ file, options }));
+		await manager.registerPlugin(
+			{
+				name: 'policy',
+				version: '1.0.0',
+				beforeFileAdd: () => ({ action: 'skip', reason: 'Not needed' })
+			},
+			{ priority: 10 }
+		);
+		await manager.registerPlugin({ name: 'other', version: '1.0.0', beforeFileAdd: lowerPriority });
+
+		await manager.addFiles(createFiles(1));
+
+		expect(lowerPriority).not.toHaveBeenCalled();
+	});
+
+	it('fails files rejected by beforeUpload without retrying them', async () => {
+		manager = createManager({ retryAttempts: 3 });
+		await manager.registerPlugin({
+			name: 'policy',
+			version: '1.0.0',
+			beforeUpload: (item: any) =>
+				item.file.name === 'file-0.txt'
+					? { action: 'reject', reason: 'Outside business hours' }
+					: item
+		});
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const [rejected] = manager.getAllFiles('failed');
+		expect(rejected.file.name).toBe('file-0.txt');
+		expect(rejected.decision).toEqual({
+			action: 'reject',
+			reason: 'Outside business hours',
+			plugin: 'policy'
+		});
+		expect(rejected.error).toMatchObject({ code: 'plugin/rejected', category: 'permanent' });
+		expect(manager.failureCount).toBe(1);
+		expect(manager.successCount).toBe(1);
+		expect(storageMock.tasks).toHaveLength(1);
+	});
+
+	it('cancels files skipped by beforeUpload without counting a failure', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'policy',
+			version: '1.0.0',
+			beforeUpload: () => ({ action: 'skip', reason: 'Already on the server' })
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(handle.done).rejects.toMatchObject({ code: 'plugin/skipped' });
+		const item = manager.getFile(handle.id)!;
+		expect(item.status).toBe('cancelled');
+		expect(item.decision).toMatchObject({ action: 'skip', reason: 'Already on the server' });
+		expect(manager.failureCount).toBe(0);
+		expect(storageMock.tasks).toHaveLength(0);
+	});
+
+	it('holds files deferred by beforeUpload until the requested time', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		let deferred = false;
+		await manager.registerPlugin({
+			name: 'scheduler',
+			version: '1.0.0',
+			beforeUpload: (item: any) => {
+				if (item.file.name !== 'file-0.txt' || deferred) return item;
+				deferred = true;
+				return { action: 'defer', until: Date.now() + 5000 };
+			}
+		});
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		const first = manager.getAllFiles().find((item) => item.file.name === 'file-0.txt')!;
+		expect(first.status).toBe('queued');
+		expect(first.attempts).toBe(0);
+		expect(first.decision).toMatchObject({ action: 'defer', plugin: 'scheduler' });
+		expect(manager.successCount).toBe(1);
+		expect(manager.isProcessing).toBe(true);
+
+		await vi.advanceTimersByTimeAsync(5000);
+		await runUntilIdle(manager);
+
+		expect(first.status).toBe('completed');
+		expect(manager.successCount).toBe(2);
+	});
+
+	it('settles a deferred file that cannot be added when it comes back', async () => {
+		manager = createManager();
+		let calls = 0;
+		await manager.registerPlugin({
+			name: 'scheduler',
+			version: '1.0.0',
+			beforeFileAdd: (file: File, options: any) => {
+				if (calls++ === 0) return { action: 'defer', until: Date.now() + 5000 };
+				return { file, options: { ...options, pathTemplate: '{uid}/{name}.{ext}' } };
+			}
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		const done = expect(handle.done).rejects.toMatchObject({ code: 'path/invalid-template' });
+		await vi.advanceTimersByTimeAsync(6000);
+
+		await done;
+		expect(calls).toBe(2);
+		expect(manager.getFile(handle.id)).toBeUndefined();
+		expect(manager.queue).toHaveLength(0);
+	});
+
+	it('cancels a deferred file', async () => {
+		manager = createManager();
+		await manager.registerPlugin({
+			name: 'scheduler',
+			version: '1.0.0',
+			beforeFileAdd: () => ({ action: 'defer', until: new Date(Date.now() + 5000) })
+		});
+
+		const handle = manager.enqueue(new File(['data'], 'data.txt'));
+		await vi.advanceTimersByTimeAsync(0);
+		expect(manager.getFile(handle.id)?.decision).toMatchObject({ action: 'defer' });
+
+		await expect(manager.cancel(handle.id)).resolves.toBe(true);
+		await vi.advanceTimersByTimeAsync(6000);
+
+		await expect(handle.done).rejects.toMatchObject({ code: 'upload/cancelled' });
+		expect(manager.queue).toHaveLength(0);
+	});
+});
+
+describe('FirebaseUploadManager bandwidth limit', () => {
+	// 1 Mbps; the mock sends 32KB per task every 100ms, about 2.5 Mbps for two tasks
+	const BYTES_PER_SECOND = 131072;
+	const FILE_SIZE = 131072;
+
+	it('keeps throughput under maxBandwidthMbps by pausing storage tasks', async () => {
+		manager = createManager({ maxConcurrentUploads: 2, maxBandwidthMbps: 1 });
+		const statusChanges = vi.fn();
+		manager.on('statusChange', statusChanges);
+
+		await manager.addFiles(createFiles(4, FILE_SIZE));
+		const startedAt = Date.now();
+		await manager.start();
+
+		let sawUtilization = false;
+		for (let step = 0; step < 200 && !manager.isIdle; step++) {
+			await vi.advanceTimersByTimeAsync(50);
+			const elapsed = (Date.now() - startedAt) / 1000;
+			// One second of burst, the refill so far, plus one chunk per task in flight
+			const allowance = BYTES_PER_SECOND * (1 + elapsed) + 2 * (FILE_SIZE / 4);
+			expect(manager.uploadedSize).toBeLessThanOrEqual(allowance);
+			if (manager.getBandwidthStats().utilization > 0) sawUtilization = true;
+		}
+
+		expect(manager.successCount).toBe(4);
+		// Unthrottled this takes 800ms
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(2500);
+		expect(sawUtilization).toBe(true);
+		expect(manager.getBandwidthStats().limit).toBe(BYTES_PER_SECOND);
+		// Throttling is invisible to status listeners
+		expect(statusChanges).not.toHaveBeenCalledWith(
+			expect.objectContaining({ newStatus: 'paused' })
+		);
+	});
+
+	it('does not resume a throttled task early when the manager is resumed', async () => {
+		manager = createManager({ maxConcurrentUploads: 2, maxBandwidthMbps: 1 });
+
+		await manager.addFiles(createFiles(2, FILE_SIZE * 4));
+		await manager.start();
+		// The first chunk of each task uses up the burst
+		await vi.advanceTimersByTimeAsync(150);
+		const [first, second] = storageMock.tasks;
+		expect(first.state).toBe('paused');
+		expect(second.state).toBe('paused');
+
+		await manager.pause();
+		await manager.resume();
+		expect(first.state).toBe('paused');
+
+		await runUntilIdle(manager);
+		expect(manager.successCount).toBe(2);
+	});
+
+	it('does not throttle without maxBandwidthMbps', async () => {
+		manager = createManager({ maxConcurrentUploads: 2 });
+
+		await manager.addFiles(createFiles(4, FILE_SIZE));
+		const startedAt = Date.now();
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(Date.now() - startedAt).toBeLessThanOrEqual(1000);
+		expect(manager.getBandwidthStats()).toMatchObject({ limit: Infinity, utilization: 0 });
+	});
+});
+
+describe('FirebaseUploadManager bandwidth schedule', () => {
+	// Monday 5 January 2026, local time
+	const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes);
+	const officeHold = {
+		name: 'office',
+		start: '09:00',
+		end: '17:00',
+		maxBandwidthMbps: 'paused' as const
+	};
+
+	it('holds uploads during a paused window and starts them when it ends', async () => {
+		vi.setSystemTime(monday(16, 59));
+		manager = createManager({ bandwidthSchedule: [officeHold] });
+		const windowChanges = vi.fn();
+		manager.on('bandwidthWindowChange', windowChanges);
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(30 * 1000);
+
+		expect(storageMock.tasks).toHaveLength(0);
+		expect(manager.getBandwidthStats().window).toEqual(officeHold);
+
+		await vi.advanceTimersByTimeAsync(30 * 1000);
+		expect(windowChanges).toHaveBeenCalledExactlyOnceWith({ previous: officeHold, current: null });
+
+		await runUntilIdle(manager);
+		expect(manager.successCount).toBe(2);
+		manager.destroy();
+	});
+
+	it('pauses running uploads when a paused window starts', async () => {
+		// The window starts 200ms into the upload
+		vi.setSystemTime(new Date(2026, 0, 5, 8, 59, 59, 800));
+		manager = createManager({ bandwidthSchedule: [officeHold] });
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		const [task] = storageMock.tasks;
+		expect(task.bytesTransferred).toBeLessThan(task.totalBytes);
+		const [item] = manager.active.values();
+		expect(task.state).toBe('paused');
+		expect(item.status).toBe('uploading');
+		expect(manager.getBandwidthStats().window).toEqual(officeHold);
+		manager.destroy();
+	});
+
+	it('applies a new schedule at runtime', async () => {
+		vi.setSystemTime(monday(10));
+		manager = createManager();
+		const windowChanges = vi.fn();
+		manager.on('bandwidthWindowChange', windowChanges);
+
+		manager.setBandwidthSchedule([{ ...officeHold, maxBandwidthMbps: 2 }]);
+
+		expect(windowChanges).toHaveBeenCalledOnce();
+		expect(manager.getBandwidthStats().limit).toBe((2 * 1024 * 1024) / 8);
+		expect(manager.getConfig().bandwidthSchedule).toHaveLength(1);
+		manager.destroy();
+	});
+});
+
+describe('FirebaseUploadManager persistence', () => {
+	let saveState: MockInstance<MemoryManager['saveState']>;
+
+	beforeEach(() => {
+		// jsdom has no IndexedDB: capture what would be saved instead
+		vi.spyOn(MemoryManager.prototype, 'initializePersistence').mockResolvedValue();
+		saveState = vi.spyOn(MemoryManager.prototype, 'saveState').mockResolvedValue();
+	});
+
+	function lastSavedState(): PersistedUploadState {
+		return saveState.mock.lastCall![0];
+	}
+
+	it('saves queued, paused and failed files with their blobs after each change', async () => {
+		manager = createManager({ maxConcurrentUploads: 1, enablePersistence: true });
+		const files = createFiles(3);
+		storageMock.failingPaths.set('uploads/file-0.txt', 'unauthorized');
+
+		await manager.addFiles(files);
+		const [, paused] = manager.queue;
+		await manager.pauseFile(paused.id);
+		await manager.start();
+		await runUntilIdle(manager);
+		await vi.advanceTimersByTimeAsync(250);
+
+		const { items } = lastSavedState();
+		expect(items.map(({ file, status }) => [file, status])).toEqual([
+			[files[1], 'paused'],
+			[files[0], 'failed']
+		]);
+		expect(items[1].error).toMatchObject({ code: 'storage/unauthorized' });
+	});
+
+	it('stops saving failed files once they are cleared', async () => {
+		manager = createManager({ enablePersistence: true });
+		storageMock.failingPaths.set('uploads/file-0.txt', 'unauthorized');
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await runUntilIdle(manager);
+		await vi.advanceTimersByTimeAsync(250);
+		expect(lastSavedState().items).toMatchObject([{ status: 'failed' }]);
+
+		manager.clearFailed();
+		await vi.advanceTimersByTimeAsync(250);
+
+		expect(lastSavedState().items).toEqual([]);
+	});
+
+	it('saves an upload in progress as queued', async () => {
+		manager = createManager({ enablePersistence: true });
+
+		await manager.addFiles(createFiles(1, 4000));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+		await vi.advanceTimersByTimeAsync(250);
+
+		expect(lastSavedState().items).toMatchObject([{ status: 'queued', attempts: 1 }]);
+	});
+
+	it('does not save anything without enablePersistence', async () => {
+		manager = createManager();
+
+		await manager.addFiles(createFiles(2));
+		await manager.start();
+		await runUntilIdle(manager);
+		await vi.advanceTimersByTimeAsync(250);
+
+		expect(saveState).not.toHaveBeenCalled();
+	});
+
+	it('restores the saved queue and uploads it again', async () => {
+		const [queued, paused, failed] = createFiles(3);
+		const saved = (id: string, file: File, status: 'queued' | 'paused' | 'failed') => ({
+			id,
+			file,
+			path: `uploads/${id}`,
+			metadata: { owner: 'alice' },
+			priority: 0,
+			status,
+			attempts: status === 'failed' ? 1 : 0,
+			error: null,
+			createdAt: 1000
+		});
+		vi.spyOn(MemoryManager.prototype, 'loadState').mockResolvedValue({
+			version: 1,
+			savedAt: 2000,
+			items: [
+				saved('a', queued, 'queued'),
+				saved('b', paused, 'paused'),
+				saved('c', failed, 'failed')
+			]
+		});
+		manager = createManager({ enablePersistence: true, autoStart: true });
+
+		const result = await manager.restore();
+
+		expect(result).toEqual({ restored: 3, queued: 1, paused: 1, failed: 1, resumed: 0 });
+		expect(manager.getFile('b')?.status).toBe('paused');
+		expect(manager.failed.get('c')).toMatchObject({ status: 'failed', attempts: 1 });
+		expect(manager.totalFiles).toBe(3);
+		expect(manager.failureCount).toBe(1);
+
+		await runUntilIdle(manager);
+		expect(manager.completed.get('a')).toMatchObject({
+			path: 'uploads/a',
+			metadata: { owner: 'alice' },
+			createdAt: 1000
+		});
+
+		// A second restore does not duplicate files
+		await expect(manager.restore()).resolves.toMatchObject({ restored: 0 });
+	});
+});
+
+describe('FirebaseUploadManager resumable sessions', () => {
+	// 1000 bytes every 100ms, starting right away
+	let adapter: MemoryStorageAdapter;
+
+	beforeEach(() => {
+		adapter = new MemoryStorageAdapter({ bytesPerSecond: 10000, tickInterval: 100 });
+	});
+
+	afterEach(() => {
+		localStorage.clear();
+	});
+
+	function createAdapterManager(): FirebaseUploadManager {
+		const created = createManager();
+		created.setStorageAdapter(adapter);
+		return created;
+	}
+
+	// Send half of the file, then leave the manager behind as a page reload would
+	async function interruptUpload(file: File): Promise<void> {
+		const previous = createAdapterManager();
+		await previous.addFiles([file]);
+		await previous.start();
+		await vi.advanceTimersByTimeAsync(150);
+		await previous.pause();
+	}
+
+	it('continues an interrupted upload from the last committed byte', async () => {
+		const [file] = createFiles(1, 4000);
+		await interruptUpload(file);
+
+		manager = createAdapterManager();
+		const added = await manager.addFilesWithValidation([file], {
+			validate: false,
+			skipDuplicates: false
+		});
+		expect(added.resumed).toBe(1);
+
+		const progress: number[] = [];
+		manager.on('progress', ({ uploadedBytes }) => progress.push(uploadedBytes));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(progress[0]).toBe(3000);
+		expect(manager.successCount).toBe(1);
+		expect(manager.uploadedSize).toBe(4000);
+		expect(adapter.getUploadAttempts('uploads/file-0.txt')).toBe(1);
+		await expect(manager.checkForResumableUpload(file)).resolves.toBeNull();
+	});
+
+	it('starts over when the saved session has expired', async () => {
+		const [file] = createFiles(1, 4000);
+		await interruptUpload(file);
+		adapter.expireSessions();
+
+		manager = createAdapterManager();
+		await manager.addFilesWithValidation([file], { validate: false, skipDuplicates: false });
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.successCount).toBe(1);
+		expect(manager.uploadedSize).toBe(4000);
+		expect(adapter.getUploadAttempts('uploads/file-0.txt')).toBe(2);
+		expect(adapter.getObject('uploads/file-0.txt')?.size).toBe(4000);
+	});
+
+	it('offers a saved session only for the same path and file version', async () => {
+		const [file] = createFiles(1, 4000);
+		await interruptUpload(file);
+		const edited = new File(['y'.repeat(4000)], file.name, {
+			type: file.type,
+			lastModified: file.lastModified + 1
+		});
+
+		manager = createAdapterManager();
+		const elsewhere = await manager.addFilesWithValidation([file], {
+			validate: false,
+			skipDuplicates: false,
+			path: 'other/file-0.txt'
+		});
+
+		expect(elsewhere.resumed).toBe(0);
+		await expect(manager.checkForResumableUpload(edited)).resolves.toBeNull();
+		await expect(manager.checkForResumableUpload(file, 'other/file-0.txt')).resolves.toBeNull();
+		await expect(
+			manager.checkForResumableUpload(file, 'uploads/file-0.txt')
+		).resolves.toMatchObject({ storagePath: 'uploads/file-0.txt' });
+	});
+
+	it('never continues a saved session at another path', async () => {
+		const [file] = createFiles(1, 4000);
+		await interruptUpload(file);
+		const state = await createAdapterManager().checkForResumableUpload(file);
+		const resume = vi.spyOn(adapter, 'resume');
+
+		manager = createAdapterManager();
+		const handle = manager.enqueue(file, { path: 'other/file-0.txt', resumeState: state! });
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(handle.done).resolves.toMatchObject({ path: 'other/file-0.txt' });
+		expect(resume).not.toHaveBeenCalled();
+		expect(adapter.getObject('other/file-0.txt')?.size).toBe(4000);
+		expect(adapter.getObject('uploads/file-0.txt')).toBeNull();
+		// The interrupted upload keeps its session
+		await expect(
+			manager.checkForResumableUpload(file, 'uploads/file-0.txt')
+		).resolves.toMatchObject({ sessionUrl: state!.sessionUrl });
+	});
+
+	it('forgets the session of a cancelled upload', async () => {
+		const [file] = createFiles(1, 4000);
+		manager = createAdapterManager();
+
+		await manager.addFiles([file]);
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+		await expect(manager.checkForResumableUpload(file)).resolves.toMatchObject({
+			uploadedBytes: 2000,
+			storagePath: 'uploads/file-0.txt'
+		});
+
+		const [item] = manager.active.values();
+		await manager.cancel(item.id);
+
+		await expect(manager.checkForResumableUpload(file)).resolves.toBeNull();
+	});
+});
+
+describe('FirebaseUploadManager tab coordination', () => {
+	// BroadcastChannel and Web Locks stand-ins shared by the managers of one test
+	let channels: Set<TabChannel>;
+	let locks: TabLockManager;
+
+	beforeEach(() => {
+		channels = new Set();
+		const waiting: Array<() => void> = [];
+		let held = false;
+		const grantNext = () => {
+			if (!held) waiting.shift()?.();
+		};
+		locks = {
+			request: (_name, { signal }, callback) =>
+				new Promise<void>((resolve) => {
+					const grant = () => {
+						held = true;
+						callback().then(() => {
+							held = false;
+							resolve();
+							grantNext();
+						});
+					};
+					signal?.addEventListener('abort', () => {
+						if (waiting.includes(grant)) waiting.splice(waiting.indexOf(grant), 1);
+					});
+					waiting.push(grant);
+					grantNext();
+				})
+		};
+	});
+
+	function createTab(options: Record<string, unknown> = {}): FirebaseUploadManager {
+		const createChannel = (): TabChannel => {
+			const channel: TabChannel = {
+				onmessage: null,
+				postMessage: (message) => {
+					for (const other of channels) {
+						if (other === channel) continue;
+						setTimeout(() => other.onmessage?.({ data: message } as MessageEvent), 0);
+					}
+				},
+				close: () => channels.delete(channel)
+			};
+			channels.add(channel);
+			return channel;
+		};
+		return createManager({ coordinateTabs: { locks, createChannel }, ...options });
+	}
+
+	it('uploads files enqueued in a follower tab in the leader tab only', async () => {
+		const leader = createTab();
+		await vi.advanceTimersByTimeAsync(0);
+		manager = createTab();
+		expect([leader.isLeader, manager.isLeader]).toEqual([true, false]);
+
+		const [file] = createFiles(1, 4000);
+		const handle = manager.enqueue(file, { path: 'shared/a.txt' });
+		const progress: number[] = [];
+		handle.onProgress((update) => progress.push(update.progress));
+		await vi.advanceTimersByTimeAsync(0);
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(50);
+		await runUntilIdle(leader);
+		await vi.advanceTimersByTimeAsync(250);
+
+		await expect(handle.done).resolves.toEqual({
+			downloadURL: 'https://storage.test/shared/a.txt',
+			path: 'shared/a.txt'
+		});
+		expect(storageMock.uploadBytesResumable).toHaveBeenCalledTimes(1);
+		expect(leader.completed.get(handle.id)?.path).toBe('shared/a.txt');
+		expect(manager.mirroredFiles).toMatchObject([
+			{ id: handle.id, name: 'file-0.txt', status: 'completed', progress: 100 }
+		]);
+		expect(manager.successCount).toBe(1);
+		expect(manager.uploadedSize).toBe(4000);
+		expect(manager.active.size).toBe(0);
+		expect(progress.at(-1)).toBe(100);
+		await leader.destroy();
+	});
+
+	it('forwards commands from a follower tab to the leader', async () => {
+		const leader = createTab({ maxConcurrentUploads: 1 });
+		await vi.advanceTimersByTimeAsync(0);
+		manager = createTab();
+
+		const adding = manager.addFiles(createFiles(2, 4000));
+		await vi.advanceTimersByTimeAsync(10);
+		await expect(adding).resolves.toBe(2);
+		expect(leader.queue).toHaveLength(2);
+
+		await vi.advanceTimersByTimeAsync(250);
+		const [paused] = manager.mirroredFiles;
+		await expect(manager.pauseFile(paused.id)).resolves.toBe(true);
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(50);
+		await runUntilIdle(leader);
+		await vi.advanceTimersByTimeAsync(250);
+
+		expect(leader.getFile(paused.id)?.status).toBe('paused');
+		expect(manager.mirroredFiles.map((file) => file.status).sort()).toEqual([
+			'completed',
+			'paused'
+		]);
+		await expect(manager.pauseFile('unknown')).resolves.toBe(false);
+		await leader.destroy();
+	});
+
+	it('hands the shared queue to the next tab when the leader closes', async () => {
+		// One IndexedDB shared by both tabs
+		let stored: PersistedUploadState | null = null;
+		vi.spyOn(MemoryManager.prototype, 'initializePersistence').mockResolvedValue();
+		vi.spyOn(MemoryManager.prototype, 'saveState').mockImplementation(async (state) => {
+			stored = state;
+		});
+		vi.spyOn(MemoryManager.prototype, 'loadState').mockImplementation(async () => stored);
+
+		const options = { enablePersistence: true, autoStart: true, maxConcurrentUploads: 1 };
+		const leader = createTab(options);
+		await vi.advanceTimersByTimeAsync(0);
+		manager = createTab(options);
+		const leadership: boolean[] = [];
+		manager.on('leadershipChange', ({ isLeader }) => leadership.push(isLeader));
+
+		await leader.addFiles(createFiles(2, 4000));
+		await vi.advanceTimersByTimeAsync(300);
+		expect(manager.totalFiles).toBe(2);
+
+		await leader.destroy();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(leadership).toEqual([true]);
+
+		await runUntilIdle(manager);
+		expect(manager.successCount).toBe(2);
+		expect(manager.totalFiles).toBe(2);
+	});
+
+	it('leaves persistence to the leader tab', async () => {
+		vi.spyOn(MemoryManager.prototype, 'initializePersistence').mockResolvedValue();
+		const saveState = vi.spyOn(MemoryManager.prototype, 'saveState').mockResolvedValue();
+		const loadState = vi.spyOn(MemoryManager.prototype, 'loadState').mockResolvedValue(null);
+
+		// Only the follower has persistence on, so nothing may be saved or loaded
+		const leader = createTab();
+		await vi.advanceTimersByTimeAsync(0);
+		manager = createTab({ enablePersistence: true });
+
+		const adding = manager.addFiles(createFiles(2));
+		await vi.advanceTimersByTimeAsync(10);
+		await adding;
+		await expect(manager.restore()).resolves.toMatchObject({ restored: 0 });
+		await vi.advanceTimersByTimeAsync(300);
+
+		expect(leader.queue).toHaveLength(2);
+		expect(manager.totalFiles).toBe(2);
+		expect(saveState).not.toHaveBeenCalled();
+		expect(loadState).not.toHaveBeenCalled();
+		await leader.destroy();
+	});
+});
+
+describe('FirebaseUploadManager background uploads', () => {
+	// navigator.serviceWorker stand-in: records requests, the test answers for the worker
+	function createContainer(jobs: BackgroundUploadJobStatus[] = []) {
+		const listeners: Set<(event: MessageEvent) => void> = new Set();
+		const requests: BackgroundUploadRequest[] = [];
+		const send = (message: BackgroundUploadEvent) =>
+			listeners.forEach((listener) => listener({ data: message } as MessageEvent));
+
+		const container: BackgroundServiceWorkerContainer = {
+			controller: {
+				postMessage: (message) => {
+					const request = message as BackgroundUploadRequest;
+					requests.push(request);
+					if (request.type === 'upload-manager:list') {
+						setTimeout(() => send({ type: 'upload-manager:jobs', jobs }), 0);
+					}
+				}
+			},
+			ready: Promise.resolve({}),
+			addEventListener: (_type, listener) => listeners.add(listener),
+			removeEventListener: (_type, listener) => listeners.delete(listener)
+		};
+		return { container, requests, send };
+	}
+
+	function jobStatus(
+		id: string,
+		path: string,
+		state: BackgroundUploadJobStatus['state'],
+		bytesTransferred: number
+	): BackgroundUploadJobStatus {
+		return { id, path, state, bytesTransferred, totalBytes: 1000, updatedAt: 0 };
+	}
+
+	it('hands uploads to the service worker and follows its progress', async () => {
+		const { container, requests, send } = createContainer();
+		manager = createManager({ backgroundUploads: { container } });
+		const [file] = createFiles(1);
+
+		await manager.addFiles([file]);
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(0);
+		const [item] = manager.getAllFiles();
+
+		expect(requests).toEqual([
+			{
+				type: 'upload-manager:upload',
+				job: expect.objectContaining({ id: item.id, path: 'uploads/file-0.txt', file })
+			}
+		]);
+
+		send({
+			type: 'upload-manager:progress',
+			job: jobStatus(item.id, 'uploads/file-0.txt', 'running', 400)
+		});
+		expect(manager.getFile(item.id)).toMatchObject({ uploadedBytes: 400, progress: 40 });
+
+		send({
+			type: 'upload-manager:complete',
+			job: jobStatus(item.id, 'uploads/file-0.txt', 'success', 1000)
+		});
+		await runUntilIdle(manager);
+
+		expect(manager.completed.has(item.id)).toBe(true);
+		expect(requests.at(-1)).toEqual({ type: 'upload-manager:acknowledge', jobId: item.id });
+	});
+
+	it('gives uploads to the same path jobs of their own', async () => {
+		const { container, requests, send } = createContainer();
+		manager = createManager({ backgroundUploads: { container } });
+		const first = manager.enqueue(new File(['x'.repeat(1000)], 'IMG_0001.jpg'));
+		const second = manager.enqueue(new File(['y'.repeat(1000)], 'IMG_0001.jpg'));
+
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(0);
+
+		const uploads = requests.filter(({ type }) => type === 'upload-manager:upload');
+		expect(uploads.map((request) => 'job' in request && request.job.id)).toEqual([
+			first.id,
+			second.id
+		]);
+		for (const { id } of [first, second]) {
+			send({
+				type: 'upload-manager:complete',
+				job: jobStatus(id, 'uploads/IMG_0001.jpg', 'success', 1000)
+			});
+		}
+		await runUntilIdle(manager);
+
+		expect(manager.completed.has(first.id)).toBe(true);
+		expect(manager.completed.has(second.id)).toBe(true);
+		expect(manager.active.size).toBe(0);
+	});
+
+	it('pauses and cancels the job in the service worker', async () => {
+		const { container, requests } = createContainer();
+		manager = createManager({ backgroundUploads: { container } });
+
+		await manager.addFiles(createFiles(1));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(0);
+		const [item] = manager.getAllFiles();
+
+		await manager.pauseFile(item.id);
+		await manager.cancel(item.id);
+
+		expect(requests.map(({ type }) => type)).toEqual([
+			'upload-manager:upload',
+			'upload-manager:pause',
+			'upload-manager:cancel'
+		]);
+	});
+
+	it('restores the progress the service worker made while the page was closed', async () => {
+		vi.spyOn(MemoryManager.prototype, 'initializePersistence').mockResolvedValue();
+		vi.spyOn(MemoryManager.prototype, 'saveState').mockResolvedValue();
+		const [file] = createFiles(1);
+		vi.spyOn(MemoryManager.prototype, 'loadState').mockResolvedValue({
+			version: 1,
+			savedAt: 2000,
+			items: [
+				{
+					id: 'a',
+					file,
+					path: 'uploads/a',
+					metadata: {},
+					priority: 0,
+					status: 'queued',
+					attempts: 1,
+					error: null,
+					createdAt: 1000
+				}
+			]
+		});
+		const { container, requests, send } = createContainer([
+			jobStatus('a', 'uploads/a', 'running', 600)
+		]);
+		manager = createManager({ enablePersistence: true, backgroundUploads: { container } });
+
+		const restoring = manager.restore();
+		await vi.advanceTimersByTimeAsync(0);
+		await restoring;
+
+		expect(manager.getFile('a')).toMatchObject({ uploadedBytes: 600, progress: 60 });
+		expect(manager.uploadedSize).toBe(600);
+
+		// Starting the file attaches to the job, which may already be done
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(requests.at(-1)).toMatchObject({
+			type: 'upload-manager:upload',
+			job: { id: 'a', path: 'uploads/a' }
+		});
+
+		send({ type: 'upload-manager:complete', job: jobStatus('a', 'uploads/a', 'success', 1000) });
+		await runUntilIdle(manager);
+		expect(manager.completed.has('a')).toBe(true);
+	});
+});
+
+describe('FirebaseUploadManager upload groups', () => {
+	function trackCompletions(manager: FirebaseUploadManager): UploadGroup[] {
+		const completions: UploadGroup[] = [];
+		manager.on('groupComplete', ({ group }) => completions.push({ ...group }));
+		return completions;
+	}
+
+	it('tracks the counts and progress of a group and completes it once', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		const completions = trackCompletions(manager);
+
+		const group = await manager.addGroup('Album', createFiles(2));
+
+		expect(group).toMatchObject({
+			name: 'Album',
+			status: 'queued',
+			totalFiles: 2,
+			totalBytes: 2000,
+			queuedFiles: 2
+		});
+		expect(manager.getGroup(group.id)).toBe(group);
+		expect(manager.getGroupFiles(group.id).map((item) => item.groupId)).toEqual([
+			group.id,
+			group.id
+		]);
+
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(250);
+
+		expect(group).toMatchObject({ status: 'uploading', uploadingFiles: 1, queuedFiles: 1 });
+		expect(group.uploadedBytes).toBeGreaterThan(0);
+		expect(group.progress).toBe(group.uploadedBytes / 20);
+
+		await runUntilIdle(manager);
+
+		expect(group).toMatchObject({
+			status: 'completed',
+			completedFiles: 2,
+			uploadedBytes: 2000,
+			progress: 100
+		});
+		expect(group.completedAt).toBeDefined();
+		expect(completions).toEqual([expect.objectContaining({ id: group.id, status: 'completed' })]);
+	});
+
+	it('fails a group when one of its files fails and retries only that group', async () => {
+		manager = createManager();
+		const completions = trackCompletions(manager);
+		storageMock.failingPaths.set('uploads/file-1.txt', 'unauthorized');
+		storageMock.failingPaths.set('uploads/other.txt', 'unauthorized');
+
+		await manager.addFiles([new File(['x'], 'other.txt')]);
+		const group = await manager.addGroup('Case 42', createFiles(2));
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(group).toMatchObject({ status: 'failed', completedFiles: 1, failedFiles: 1 });
+		expect(completions).toHaveLength(1);
+
+		storageMock.failingPaths.clear();
+		expect(manager.retryGroup(group.id)).toBe(1);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(group).toMatchObject({ status: 'completed', completedFiles: 2, failedFiles: 0 });
+		expect(completions.map(({ status }) => status)).toEqual(['failed', 'completed']);
+		expect(manager.failed.size).toBe(1);
+	});
+
+	it('pauses, resumes and cancels every file of a group', async () => {
+		manager = createManager({ maxConcurrentUploads: 1 });
+		const completions = trackCompletions(manager);
+		const group = await manager.addGroup('Album', createFiles(3));
+		await manager.start();
+		await vi.advanceTimersByTimeAsync(150);
+
+		await expect(manager.pauseGroup(group.id)).resolves.toBe(3);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(group).toMatchObject({ status: 'paused', pausedFiles: 3 });
+
+		await expect(manager.resumeGroup(group.id)).resolves.toBe(3);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(group.status).toBe('uploading');
+
+		await expect(manager.cancelGroup(group.id)).resolves.toBe(3);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(group).toMatchObject({ status: 'cancelled', cancelledFiles: 3 });
+		expect(completions).toHaveLength(1);
+	});
+
+	it('takes removed files out of their group', async () => {
+		manager = createManager();
+		const group = await manager.addGroup('Album', createFiles(2));
+		const [first] = manager.getGroupFiles(group.id);
+
+		await manager.removeFile(first.id);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(group).toMatchObject({ totalFiles: 1, totalBytes: 1000, queuedFiles: 1 });
+	});
+});
+
+describe('FirebaseUploadManager storage paths', () => {
+	let adapter: MemoryStorageAdapter;
+
+	beforeEach(() => {
+		adapter = new MemoryStorageAdapter();
+	});
+
+	function createPathManager(options: Record<string, unknown> = {}): FirebaseUploadManager {
+		const created = createManager({ maxConcurrentUploads: 1, ...options });
+		created.setStorageAdapter(adapter);
+		return created;
+	}
+
+	function createPhoto(): File {
+		return new File(['photo'], 'IMG_0001.jpg', { type: 'image/jpeg' });
+	}
+
+	async function storeObject(path: string): Promise<void> {
+		adapter.upload(path, new Blob(['earlier']));
+		await vi.advanceTimersByTimeAsync(0);
+	}
+
+	it('gives files with the same name their own path from the template', async () => {
+		manager = createPathManager({
+			pathTemplate: 'users/{uid}/{date:yyyy}/{uuid}.{ext}',
+			pathVariables: { uid: 'abc' }
+		});
+		const first = manager.enqueue(createPhoto());
+		const second = manager.enqueue(createPhoto());
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const paths = [first, second].map((handle) => manager!.completed.get(handle.id)?.path);
+		const year = new Date().getFullYear();
+		paths.forEach((path) =>
+			expect(path).toMatch(new RegExp(`^users/abc/${year}/[0-9a-f-]{36}\\.jpg$`))
+		);
+		expect(paths[0]).not.toBe(paths[1]);
+		expect(adapter.listPaths().sort()).toEqual([...paths].sort());
+	});
+
+	it('lets an explicit path or per-file template win over the manager template', async () => {
+		manager = createPathManager({ pathTemplate: 'photos/{uuid}.{ext}' });
+		const explicit = manager.enqueue(createPhoto(), { path: 'covers/main.jpg' });
+		const templated = manager.enqueue(createPhoto(), { pathTemplate: 'albums/{name}.{ext}' });
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.get(explicit.id)?.path).toBe('covers/main.jpg');
+		expect(manager.completed.get(templated.id)?.path).toBe('albums/IMG_0001.jpg');
+	});
+
+	it('fills in {hash} with the SHA-256 of the file once the upload starts', async () => {
+		manager = createPathManager({ pathTemplate: 'blobs/{hash}.{ext}' });
+		const handle = manager.enqueue(createPhoto());
+		await vi.advanceTimersByTimeAsync(0);
+		expect(manager.getFile(handle.id)?.path).toBe('blobs/{hash}.jpg');
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const item = manager.completed.get(handle.id)!;
+		expect(item.hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(item.path).toBe(`blobs/${item.hash}.jpg`);
+		expect(adapter.getObject(item.path)).not.toBeNull();
+	});
+
+	it('renames uploads whose path already exists', async () => {
+		await storeObject('uploads/IMG_0001.jpg');
+		manager = createPathManager({ onConflict: 'rename' });
+		const first = manager.enqueue(createPhoto());
+		const second = manager.enqueue(createPhoto());
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.get(first.id)?.path).toBe('uploads/IMG_0001 (1).jpg');
+		expect(manager.completed.get(second.id)?.path).toBe('uploads/IMG_0001 (2).jpg');
+		expect(adapter.getObject('uploads/IMG_0001.jpg')?.size).toBe('earlier'.length);
+	});
+
+	it('renames uploads of the same name running at the same time', async () => {
+		manager = createPathManager({ onConflict: 'rename', maxConcurrentUploads: 2 });
+		const first = manager.enqueue(createPhoto());
+		const second = manager.enqueue(createPhoto());
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.get(first.id)?.path).toBe('uploads/IMG_0001.jpg');
+		expect(manager.completed.get(second.id)?.path).toBe('uploads/IMG_0001 (1).jpg');
+		expect(adapter.listPaths().sort()).toEqual([
+			'uploads/IMG_0001 (1).jpg',
+			'uploads/IMG_0001.jpg'
+		]);
+	});
+
+	it('frees the path of a cancelled upload for the next one', async () => {
+		adapter = new MemoryStorageAdapter({ latency: 1000 });
+		manager = createPathManager({ onConflict: 'fail' });
+		const cancelled = manager.enqueue(createPhoto());
+		const next = manager.enqueue(createPhoto());
+		cancelled.done.catch(() => {});
+
+		await manager.start();
+		await vi.waitFor(async () => {
+			await vi.advanceTimersByTimeAsync(10);
+			expect(adapter.getUploadAttempts('uploads/IMG_0001.jpg')).toBe(1);
+		});
+		await manager.cancel(cancelled.id);
+		await runUntilIdle(manager);
+
+		await expect(next.done).resolves.toMatchObject({ path: 'uploads/IMG_0001.jpg' });
+	});
+
+	it('skips or fails uploads whose path already exists', async () => {
+		await storeObject('uploads/IMG_0001.jpg');
+		manager = createPathManager();
+		const skipped = manager.enqueue(createPhoto(), { onConflict: 'skip' });
+		const failed = manager.enqueue(createPhoto(), { onConflict: 'fail' });
+		const skippedDone = expect(skipped.done).rejects.toMatchObject({ code: 'path/skipped' });
+		const failedDone = expect(failed.done).rejects.toMatchObject({ code: 'path/exists' });
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await skippedDone;
+		await failedDone;
+		expect(manager.cancelled.has(skipped.id)).toBe(true);
+		expect(manager.failed.get(failed.id)?.error).toMatchObject({
+			code: 'path/exists',
+			category: 'permanent'
+		});
+		expect(adapter.getUploadAttempts('uploads/IMG_0001.jpg')).toBe(1);
+	});
+
+	it('overwrites existing objects without looking them up by default', async () => {
+		await storeObject('uploads/IMG_0001.jpg');
+		const head = vi.spyOn(adapter, 'head');
+		manager = createPathManager();
+		manager.enqueue(createPhoto());
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(head).not.toHaveBeenCalled();
+		expect(adapter.getObject('uploads/IMG_0001.jpg')?.size).toBe('photo'.length);
+	});
+});
+
+describe('FirebaseUploadManager file name sanitization', () => {
+	let adapter: MemoryStorageAdapter;
+
+	beforeEach(() => {
+		adapter = new MemoryStorageAdapter();
+	});
+
+	it('cleans up file names in paths and keeps the original name in metadata', async () => {
+		manager = createManager();
+		manager.setStorageAdapter(adapter);
+		const name = 'Résumé\u0000?.pdf';
+		const handle = manager.enqueue(new File(['cv'], name));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const path = 'uploads/Résumé_.pdf';
+		expect(manager.completed.get(handle.id)?.path).toBe(path);
+		expect((await adapter.head(path))?.customMetadata?.originalName).toBe(name);
+	});
+
+	it('strips traversal from explicit paths and slugifies when asked', async () => {
+		manager = createManager({ slugifyFileNames: true });
+		manager.setStorageAdapter(adapter);
+		const explicit = manager.enqueue(new File(['a'], 'a.txt'), { path: '/../secrets/a.txt' });
+		const slugified = manager.enqueue(new File(['b'], 'Holiday Photo (1).JPG'));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.get(explicit.id)?.path).toBe('secrets/a.txt');
+		expect(manager.completed.get(slugified.id)?.path).toBe('uploads/holiday-photo-1.jpg');
+	});
+});
+
+describe('FirebaseUploadManager upload metadata', () => {
+	let adapter: MemoryStorageAdapter;
+
+	beforeEach(() => {
+		adapter = new MemoryStorageAdapter();
+	});
+
+	function createMetadataManager(options: Record<string, unknown> = {}): FirebaseUploadManager {
+		const created = createManager(options);
+		created.setStorageAdapter(adapter);
+		return created;
+	}
+
+	it('merges the manager, per-call and resolved metadata', async () => {
+		const resolveMetadata = vi.fn(async (file: File) => ({
+			contentDisposition: `attachment; filename="${file.name}"`,
+			customMetadata: { size: String(file.size) }
+		}));
+		manager = createMetadataManager({
+			uploadMetadata: { cacheControl: 'no-cache', customMetadata: { app: 'gallery' } },
+			resolveMetadata
+		});
+		const handle = manager.enqueue(new File(['photo'], 'a.jpg', { type: 'image/jpeg' }), {
+			metadata: { album: 'Summer', year: 2024 },
+			uploadMetadata: { cacheControl: 'public, max-age=60', contentLanguage: 'en' }
+		});
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(resolveMetadata).toHaveBeenCalledWith(
+			expect.any(File),
+			expect.objectContaining({ id: handle.id })
+		);
+		expect(await adapter.head('uploads/a.jpg')).toMatchObject({
+			contentType: 'image/jpeg',
+			cacheControl: 'public, max-age=60',
+			contentDisposition: 'attachment; filename="a.jpg"',
+			contentLanguage: 'en',
+			customMetadata: {
+				app: 'gallery',
+				album: 'Summer',
+				year: '2024',
+				size: '5',
+				originalName: 'a.jpg',
+				uploadId: handle.id
+			}
+		});
+	});
+
+	it('fails uploads whose custom metadata is over the Firebase limit', async () => {
+		manager = createMetadataManager({
+			resolveMetadata: () => ({ customMetadata: { notes: 'x'.repeat(9000) } })
+		});
+		const handle = manager.enqueue(new File(['photo'], 'a.jpg'));
+		const done = expect(handle.done).rejects.toMatchObject({ code: 'metadata/invalid' });
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await done;
+		expect(manager.failed.get(handle.id)?.error?.category).toBe('permanent');
+		expect(adapter.listPaths()).toEqual([]);
+	});
+
+	it('rejects invalid manager metadata', () => {
+		expect(() => createManager({ uploadMetadata: { customMetadata: { count: 1 } } })).toThrow(
+			'uploadMetadata is invalid: customMetadata.count must be a string'
+		);
+	});
+});
+
+describe('FirebaseUploadManager deduplication', () => {
+	let adapter: MemoryStorageAdapter;
+
+	// In-memory stand-in for the IndexedDB index
+	class MemoryDeduplicationIndex implements DeduplicationIndex {
+		entries = new Map<string, DeduplicationIndexEntry>();
+
+		async get(hash: string): Promise<DeduplicationIndexEntry | null> {
+			return this.entries.get(hash) ?? null;
+		}
+
+		async put(entry: DeduplicationIndexEntry): Promise<void> {
+			this.entries.set(entry.hash, entry);
+		}
+
+		async delete(hash: string): Promise<void> {
+			this.entries.delete(hash);
+		}
+	}
+
+	beforeEach(() => {
+		adapter = new MemoryStorageAdapter();
+	});
+
+	// jsdom's File has no arrayBuffer(), which hashing needs
+	function createContentFile(content: string, name: string): File {
+		return new NodeFile([content], name) as unknown as File;
+	}
+
+	function createDedupManager(deduplicate: unknown = true): FirebaseUploadManager {
+		const created = createManager({ maxConcurrentUploads: 1, deduplicate });
+		created.setStorageAdapter(adapter);
+		return created;
+	}
+
+	it('uploads identical content once and completes the copies with its URL', async () => {
+		const index = new MemoryDeduplicationIndex();
+		manager = createDedupManager({ index });
+		const first = manager.enqueue(createContentFile('same', 'a.txt'));
+		const second = manager.enqueue(createContentFile('same', 'b.txt'));
+		const other = manager.enqueue(createContentFile('other', 'c.txt'));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const [original, copy] = [first, second].map((handle) => manager!.completed.get(handle.id)!);
+		expect(original.path).toBe(`content/${original.hash}`);
+		expect(copy).toMatchObject({
+			path: original.path,
+			downloadURL: original.downloadURL,
+			deduplicated: true,
+			progress: 100
+		});
+		expect(original.deduplicated).toBeUndefined();
+		expect(adapter.listPaths()).toHaveLength(2);
+		expect(adapter.getUploadAttempts(original.path)).toBe(1);
+		expect(manager.successCount).toBe(3);
+		expect(manager.uploadedSize).toBe(manager.totalSize);
+		expect(index.entries.get(original.hash!)).toMatchObject({
+			path: original.path,
+			downloadURL: original.downloadURL
+		});
+		expect(manager.completed.get(other.id)?.deduplicated).toBeUndefined();
+	});
+
+	it('finds content uploaded before through a metadata lookup', async () => {
+		manager = createDedupManager({ pathTemplate: 'blobs/{hash}.{ext}', index: false });
+		const handle = manager.enqueue(createContentFile('same', 'a.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+		const { path } = manager.completed.get(handle.id)!;
+		await manager.stop();
+
+		manager = createDedupManager({ pathTemplate: 'blobs/{hash}.{ext}', index: false });
+		const head = vi.spyOn(adapter, 'head');
+		const duplicate = manager.enqueue(createContentFile('same', 'copy.txt'));
+		const done = duplicate.done;
+		await manager.start();
+		await runUntilIdle(manager);
+
+		await expect(done).resolves.toMatchObject({
+			path,
+			metadata: expect.objectContaining({ size: 4 })
+		});
+		expect(head).toHaveBeenCalledWith(path);
+		expect(adapter.getUploadAttempts(path)).toBe(1);
+	});
+
+	async function indexLegacyCopy(index: DeduplicationIndex, file: File): Promise<string> {
+		const hash = await new FileValidator().calculateFileHash(file);
+		await index.put({
+			hash,
+			path: 'legacy/a.txt',
+			downloadURL: 'https://storage.test/legacy/a.txt',
+			uploadedAt: 1
+		});
+		return hash;
+	}
+
+	it('completes from the index once storage confirms the object', async () => {
+		const index = new MemoryDeduplicationIndex();
+		manager = createDedupManager({ index });
+		const file = createContentFile('same', 'a.txt');
+		await indexLegacyCopy(index, file);
+		const head = vi
+			.spyOn(adapter, 'head')
+			.mockImplementation(async (path) =>
+				path === 'legacy/a.txt' ? { fullPath: path, size: 4 } : null
+			);
+
+		const handle = manager.enqueue(file);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.get(handle.id)).toMatchObject({
+			path: 'legacy/a.txt',
+			downloadURL: 'https://storage.test/legacy/a.txt',
+			deduplicated: true
+		});
+		expect(head).toHaveBeenCalledWith('legacy/a.txt');
+		expect(adapter.listPaths()).toEqual([]);
+	});
+
+	it('drops index entries whose object is gone and uploads again', async () => {
+		const index = new MemoryDeduplicationIndex();
+		manager = createDedupManager({ index });
+		const file = createContentFile('same', 'a.txt');
+		const hash = await indexLegacyCopy(index, file);
+
+		const handle = manager.enqueue(file);
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const item = manager.completed.get(handle.id)!;
+		expect(item.path).toBe(`content/${hash}`);
+		expect(item.deduplicated).toBeUndefined();
+		expect(adapter.listPaths()).toEqual([`content/${hash}`]);
+		expect(index.entries.get(hash)?.path).toBe(`content/${hash}`);
+	});
+
+	it('keeps shared content and forgets deleted content', async () => {
+		const index = new MemoryDeduplicationIndex();
+		manager = createDedupManager({ index });
+		const first = manager.enqueue(createContentFile('same', 'a.txt'));
+		const second = manager.enqueue(createContentFile('same', 'b.txt'));
+		const other = manager.enqueue(createContentFile('other', 'c.txt'));
+		await manager.start();
+		await runUntilIdle(manager);
+		const { path, hash } = manager.completed.get(first.id)!;
+		const otherItem = manager.completed.get(other.id)!;
+
+		// The copy still points to the object of the first file
+		await manager.removeFile(first.id);
+		expect(adapter.listPaths()).toContain(path);
+
+		// The copy only reached the object through deduplication
+		await manager.removeFile(second.id);
+		expect(adapter.listPaths()).toContain(path);
+		expect(index.entries.has(hash!)).toBe(true);
+
+		await manager.clearCompleted();
+		expect(adapter.listPaths()).toEqual([path]);
+		expect(index.entries.has(otherItem.hash!)).toBe(false);
+	});
+
+	it('requires {hash} in the deduplication path template', () => {
+		expect(() => createManager({ deduplicate: { pathTemplate: 'content/{uuid}' } })).toThrow(
+			'deduplicate.pathTemplate must contain {hash}'
+		);
+	});
+});
+
+describe('FirebaseUploadManager integrity verification', () => {
+	// The memory adapter keeps no checksums, report them like Cloud Storage does
+	class ChecksumMemoryAdapter extends MemoryStorageAdapter {
+		readonly checksums = ['md5', 'crc32c'] as const;
+		stored: { md5Hash?: string; crc32c?: string } = {};
+
+		async head(path: string) {
+			const metadata = await super.head(path);
+			return metadata && { ...metadata, ...this.stored };
+		}
+	}
+
+	let adapter: ChecksumMemoryAdapter;
+
+	beforeEach(() => {
+		adapter = new ChecksumMemoryAdapter();
+	});
+
+	// jsdom's File has no arrayBuffer(), which checksumming needs
+	function createContentFile(content: string, name: string): File {
+		return new NodeFile([content], name) as unknown as File;
+	}
+
+	function createIntegrityManager(verifyIntegrity: unknown = true): FirebaseUploadManager {
+		const options: Record<string, unknown> = { verifyIntegrity };
+		return new FirebaseUploadManager({
+			maxConcurrentUploads: 1,
+			retryAttempts: 0,
+			enableHealthChecks: false,
+			storageAdapter: adapter,
+			...options
+		});
+	}
+
+	it('completes uploads whose stored checksum matches', async () => {
+		adapter.stored = { md5Hash: 'nhB9nTcrtoJr2B01QqQZ1g==', crc32c: 'wrong' };
+		const head = vi.spyOn(adapter, 'head');
+		manager = createIntegrityManager();
+		const handle = manager.enqueue(
+			createContentFile('The quick brown fox jumps over the lazy dog', 'fox.txt')
+		);
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		expect(manager.completed.has(handle.id)).toBe(true);
+		expect(head).toHaveBeenCalledWith('uploads/fox.txt');
+	});
+
+	it('fails and deletes uploads whose stored checksum differs', async () => {
+		adapter.stored = { crc32c: 'AAAAAA==' };
+		manager = createIntegrityManager({ algorithm: 'crc32c', deleteOnMismatch: true });
+		const handle = manager.enqueue(createContentFile('123456789', 'digits.txt'));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const error = await handle.done.catch((reason) => reason);
+		expect(error.code).toBe('integrity_mismatch');
+		expect(manager.failed.get(handle.id)?.error).toMatchObject({
+			code: 'integrity_mismatch',
+			category: 'permanent'
+		});
+		expect(adapter.getUploadAttempts('uploads/digits.txt')).toBe(1);
+		expect(adapter.listPaths()).toEqual([]);
+	});
+
+	it('fails uploads storage reports no checksum for', async () => {
+		manager = createIntegrityManager({ deleteOnMismatch: true });
+		const handle = manager.enqueue(createContentFile('photo', 'a.jpg'));
+
+		await manager.start();
+		await runUntilIdle(manager);
+
+		const error = await handle.done.catch((reason) => reason);
+		expect(error.code).toBe('integrity_unverified');
+		expect(manager.successCount).toBe(0);
+		expect(adapter.listPaths()).toEqual(['uploads/a.jpg']);
+	});
+
+	it('does not complete uploads cancelled while they are verified', async () => {
+		adapter.stored = { md5Hash: 'WuDByKUmC8e2ZI9vvRFcNQ==' };
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		const head = adapter.head.bind(adapter);
+		vi.spyOn(adapter, 'head').mockImplementation(async (path) => {
+			await gate;
+			return head(path);
+		});
+		manager = createIntegrityManager();
+		const handle = manager.enqueue(createContentFile('photo', 'a.jpg'));
+		const done = expect(handle.done).rejects.toMatchObject({ code: 'upload/cancelled' });
+
+		await manager.start();
+		await vi.waitFor(async () => {
+			await vi.advanceTimersByTimeAsync(50);
+			expect(adapter.head).toHaveBeenCalled();
+		});
+		await expect(manager.pauseFile(handle.id)).resolves.toBe(false);
+		await expect(manager.cancel(handle.id)).resolves.toBe(true);
+		release();
+		await runUntilIdle(manager);
+
+		await done;
+		expect(manager.getFile(handle.id)?.status).toBe('cancelled');
+		expect(manager.completed.has(handle.id)).toBe(false);
+		expect(manager.successCount).toBe(0);
+	});
+
+	it('rejects storage adapters that do not report the checksum', () => {
+		const created = createManager({ verifyIntegrity: true });
+		expect(() => created.setStorageAdapter(new MemoryStorageAdapter())).toThrow(
+			'verifyIntegrity needs md5 checksums, which the memory storage adapter does not report'
+		);
+		// The Firebase SDK does not return crc32c, resumable sessions do
+		expect(() => createManager({ verifyIntegrity: { algorithm: 'crc32c' } })).toThrow(
+			'verifyIntegrity needs crc32c checksums'
+		);
+	});
+
+	it('rejects unknown checksum algorithms', () => {
+		expect(() => createIntegrityManager({ algorithm: 'sha1' })).toThrow('verifyIntegrity');
+	});
+});
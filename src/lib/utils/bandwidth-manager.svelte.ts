@@ -1,34 +1,57 @@
-import type { BandwidthConfig, ThrottleInfo } from '../types.js';
-
+import type { BandwidthConfig, BandwidthStats, BandwidthWindow } from '../types.js';
+
+/**
+ * Enforces `maxBandwidthMbps` with a token bucket.
+ *
+ * Storage uploads cannot be throttled per byte, so the bucket is fed with the
+ * bytes reported by progress snapshots after they were sent. When it goes into
+ * debt, `getThrottleDelay()` tells the caller how long to pause its tasks and
+ * `canStartUpload()` holds back new ones until the debt is paid off.
+ *
+ * An optional schedule of time-of-day windows replaces the limit while a window
+ * is active, or holds uploads entirely for `'paused'` windows. The schedule is
+ * checked at the start of every minute; use `onWindowChange()` to react.
+ */
 export class BandwidthManager {
+	private static readonly RATE_WINDOW = 1000; // Measure the current rate over the last second
+	private static readonly BURST_SECONDS = 1; // Bucket holds one second of traffic
+	private static readonly SCHEDULE_CHECK_INTERVAL = 60 * 1000; // Windows are set to the minute
+
 	private _config: BandwidthConfig;
-	private _throttleInfo: ThrottleInfo;
-	private _isThrottling = false;
-	private _uploadQueue: Array<() => void> = [];
-	private _currentBandwidth = 0;
+	private _isThrottling = true;
 	private _bandwidthHistory: number[] = [];
-	private _throttleTimeout?: NodeJS.Timeout;
+	private _transfers: Array<{ time: number; bytes: number }> = [];
+
+	// Bytes that may be sent right away, negative while over the limit
+	private _tokens: number;
+	private _lastRefill = Date.now();
+
+	private _activeWindow: BandwidthWindow | null = null;
+	private _scheduleTimer?: ReturnType<typeof setTimeout>;
+	private _windowChangeCallbacks: Array<
+		(current: BandwidthWindow | null, previous: BandwidthWindow | null) => void
+	> = [];
 
 	constructor(config: Partial<BandwidthConfig> = {}) {
 		this._config = this._validateConfig({
-			maxBandwidthMbps: 10, // 10 Mbps default
+			maxBandwidthMbps: Infinity, // No limit by default
 			adaptiveBandwidth: true,
 			throttleInterval: 100, // 100ms intervals
 			...config
 		});
 
-		this._throttleInfo = {
-			bytesPerSecond: 0,
-			lastUpdate: Date.now(),
-			queue: []
-		};
+		this._activeWindow = this._findActiveWindow(new Date());
+		this._tokens = this._getBucketCapacity();
+		this._scheduleWindowCheck();
 	}
 
 	private _validateConfig(config: BandwidthConfig): BandwidthConfig {
 		const warnings: string[] = [];
-		
-		// Validate maxBandwidthMbps
-		if (typeof config.maxBandwidthMbps !== 'number' || config.maxBandwidthMbps < 0.1) {
+
+		// Validate maxBandwidthMbps (Infinity means no limit)
+		if (config.maxBandwidthMbps === Infinity) {
+			// Unlimited
+		} else if (typeof config.maxBandwidthMbps !== 'number' || config.maxBandwidthMbps < 0.1) {
 			warnings.push('maxBandwidthMbps must be at least 0.1');
 			config.maxBandwidthMbps = Math.max(0.1, config.maxBandwidthMbps || 10);
 		} else if (config.maxBandwidthMbps > 1000) {
@@ -51,6 +74,20 @@ export class BandwidthManager {
 			config.adaptiveBandwidth = true;
 		}
 
+		// Validate schedule windows, dropping the ones that can't be evaluated
+		if (config.schedule !== undefined) {
+			if (!Array.isArray(config.schedule)) {
+				warnings.push('schedule must be an array of windows');
+				config.schedule = [];
+			} else {
+				config.schedule = config.schedule.filter((window, index) => {
+					const problem = this._validateWindow(window);
+					if (problem) warnings.push(`schedule[${index}] ignored: ${problem}`);
+					return !problem;
+				});
+			}
+		}
+
 		// Log warnings
 		if (warnings.length > 0) {
 			console.warn('[BandwidthManager] Configuration warnings:', warnings);
@@ -59,40 +96,90 @@ export class BandwidthManager {
 		return config;
 	}
 
-	// Throttle upload based on bandwidth limits
+	// Wait until the bucket can take `bytesToUpload`, then take them
 	async throttleUpload(bytesToUpload: number): Promise<void> {
-		if (!this._isThrottling) {
-			this._isThrottling = true;
-			this._startThrottling();
+		const delay = this.getThrottleDelay();
+		if (delay > 0) {
+			await new Promise((resolve) => setTimeout(resolve, delay));
 		}
-
-		return new Promise((resolve) => {
-			this._uploadQueue.push(() => {
-				this._processUpload(bytesToUpload);
-				resolve();
-			});
-		});
+		this.updateBandwidthUsage(bytesToUpload);
 	}
 
-	// Update bandwidth usage
-	updateBandwidthUsage(bytesUploaded: number, timeMs: number): void {
-		const bytesPerSecond = (bytesUploaded / timeMs) * 1000;
-		this._currentBandwidth = bytesPerSecond;
+	// Record bytes reported by a progress snapshot, taking them from the bucket
+	updateBandwidthUsage(bytesUploaded: number): void {
+		const now = Date.now();
+		this._refill(now);
+		if (this.isLimited()) {
+			this._tokens -= bytesUploaded;
+		}
+
+		this._transfers.push({ time: now, bytes: bytesUploaded });
 
 		// Keep history for adaptive bandwidth
-		this._bandwidthHistory.push(bytesPerSecond);
+		this._bandwidthHistory.push(this._measureRate(now));
 		if (this._bandwidthHistory.length > 10) {
 			this._bandwidthHistory.shift();
 		}
+	}
+
+	/**
+	 * Milliseconds until the bucket is out of debt.
+	 * Uploads should stay paused for this long; 0 when they may run.
+	 */
+	getThrottleDelay(): number {
+		if (!this._isThrottling || !this.isLimited()) return 0;
+
+		// Held until the next schedule check
+		if (this.isHeld()) {
+			const interval = BandwidthManager.SCHEDULE_CHECK_INTERVAL;
+			return interval - (Date.now() % interval);
+		}
 
-		// Update throttle info
-		this._throttleInfo.bytesPerSecond = bytesPerSecond;
-		this._throttleInfo.lastUpdate = Date.now();
+		this._refill(Date.now());
+		if (this._tokens >= 0) return 0;
+
+		// Pause for at least throttleInterval so tasks don't flap on tiny debts
+		const delay = Math.ceil((-this._tokens / this._getMaxBytesPerSecond()) * 1000);
+		return Math.max(delay, this._config.throttleInterval);
+	}
+
+	// Whether a new upload may start without exceeding the limit
+	canStartUpload(): boolean {
+		return this.getThrottleDelay() === 0;
+	}
+
+	// Whether a finite limit is in effect
+	isLimited(): boolean {
+		return Number.isFinite(this._getLimitMbps());
+	}
+
+	// Whether the active schedule window holds all uploads
+	isHeld(): boolean {
+		return this._activeWindow?.maxBandwidthMbps === 'paused';
+	}
+
+	// Schedule window in effect, null outside all windows
+	getActiveWindow(): BandwidthWindow | null {
+		return this._activeWindow;
+	}
+
+	// Register a callback for when the active schedule window changes
+	onWindowChange(
+		callback: (current: BandwidthWindow | null, previous: BandwidthWindow | null) => void
+	): void {
+		this._windowChangeCallbacks.push(callback);
+	}
+
+	// Replace the schedule and re-evaluate the active window right away
+	setSchedule(schedule: readonly BandwidthWindow[]): void {
+		this._config = this._validateConfig({ ...this._config, schedule });
+		this._updateActiveWindow();
+		this._scheduleWindowCheck();
 	}
 
 	// Get current bandwidth usage
 	getCurrentBandwidth(): number {
-		return this._currentBandwidth;
+		return this._measureRate(Date.now());
 	}
 
 	// Get average bandwidth over time
@@ -105,15 +192,15 @@ export class BandwidthManager {
 
 	// Check if we're within bandwidth limits
 	isWithinLimits(): boolean {
-		const maxBytesPerSecond = (this._config.maxBandwidthMbps * 1024 * 1024) / 8; // Convert Mbps to bytes/s
-		return this._currentBandwidth <= maxBytesPerSecond;
+		return this.getCurrentBandwidth() <= this._getMaxBytesPerSecond();
 	}
 
 	// Adaptive bandwidth adjustment
 	adjustBandwidth(): void {
-		if (!this._config.adaptiveBandwidth) return;
+		// Schedule windows are fixed caps, only the base limit adapts
+		if (!this._config.adaptiveBandwidth || this._activeWindow) return;
 
-		const maxBytesPerSecond = (this._config.maxBandwidthMbps * 1024 * 1024) / 8;
+		const maxBytesPerSecond = this._getMaxBytesPerSecond();
 		const averageBandwidth = this.getAverageBandwidth();
 
 		// If we're consistently under the limit, we can increase
@@ -132,111 +219,186 @@ export class BandwidthManager {
 		}
 	}
 
-	// Set bandwidth limit
+	// Set the limit used outside schedule windows, Infinity removes it
 	setBandwidthLimit(mbps: number): void {
-		this._config.maxBandwidthMbps = mbps;
+		this._changeLimit(() => {
+			this._config.maxBandwidthMbps = mbps;
+		});
 	}
 
 	// Get recommended chunk size based on bandwidth
 	getRecommendedChunkSize(): number {
-		const maxBytesPerSecond = (this._config.maxBandwidthMbps * 1024 * 1024) / 8;
+		const maxBytesPerSecond = this._getMaxBytesPerSecond();
 		const chunkTime = 2; // 2 seconds per chunk
 		return Math.min(maxBytesPerSecond * chunkTime, 5 * 1024 * 1024); // Max 5MB
 	}
 
-	// Pause throttling
+	// Pause throttling: the limit is not enforced until resume()
 	pause(): void {
 		this._isThrottling = false;
 	}
 
 	// Resume throttling
 	resume(): void {
-		if (!this._isThrottling) {
-			this._isThrottling = true;
-			this._startThrottling();
-		}
+		this._isThrottling = true;
 	}
 
 	// Cleanup and destroy
 	destroy(): void {
 		this._isThrottling = false;
-		
-		// Clear timeout
-		if (this._throttleTimeout) {
-			clearTimeout(this._throttleTimeout);
-			this._throttleTimeout = undefined;
-		}
-		
-		// Clear queues and history
-		this._uploadQueue.length = 0;
+		clearTimeout(this._scheduleTimer);
+		this._scheduleTimer = undefined;
+		this._windowChangeCallbacks.length = 0;
+
+		// Clear history
+		this._transfers.length = 0;
 		this._bandwidthHistory.length = 0;
-		this._currentBandwidth = 0;
-		
-		// Reset throttle info
-		this._throttleInfo = {
-			bytesPerSecond: 0,
-			lastUpdate: Date.now(),
-			queue: []
-		};
+		this._tokens = this._getBucketCapacity();
 	}
 
-	// Get bandwidth statistics
-	getBandwidthStats(): {
-		current: number;
-		average: number;
-		peak: number;
-		limit: number;
-		utilization: number;
-	} {
-		const maxBytesPerSecond = (this._config.maxBandwidthMbps * 1024 * 1024) / 8;
+	// Get bandwidth statistics, including the schedule window in effect
+	getBandwidthStats(): BandwidthStats {
+		const maxBytesPerSecond = this._getMaxBytesPerSecond();
+		const current = this.getCurrentBandwidth();
 		const peak = Math.max(...this._bandwidthHistory, 0);
 		const utilization =
-			maxBytesPerSecond > 0 ? (this._currentBandwidth / maxBytesPerSecond) * 100 : 0;
+			this.isLimited() && maxBytesPerSecond > 0 ? (current / maxBytesPerSecond) * 100 : 0;
 
 		return {
-			current: this._currentBandwidth,
+			current,
 			average: this.getAverageBandwidth(),
 			peak,
 			limit: maxBytesPerSecond,
-			utilization
+			utilization,
+			window: this._activeWindow
 		};
 	}
 
 	// Private methods
-	private _startThrottling(): void {
-		const processQueue = () => {
-			if (!this._isThrottling) return;
-
-			const maxBytesPerSecond = (this._config.maxBandwidthMbps * 1024 * 1024) / 8;
-			const now = Date.now();
-			const timeDiff = now - this._throttleInfo.lastUpdate;
-
-			// Calculate how many bytes we can process
-			const bytesAllowed = (maxBytesPerSecond * timeDiff) / 1000;
-
-			if (this._throttleInfo.bytesPerSecond <= bytesAllowed && this._uploadQueue.length > 0) {
-				const upload = this._uploadQueue.shift();
-				if (upload) {
-					upload();
-				}
-			}
+	private _getLimitMbps(): number {
+		const windowLimit = this._activeWindow?.maxBandwidthMbps;
+		if (windowLimit === undefined) return this._config.maxBandwidthMbps;
+		return windowLimit === 'paused' ? 0 : windowLimit;
+	}
 
-			this._throttleInfo.lastUpdate = now;
+	private _getMaxBytesPerSecond(): number {
+		return (this._getLimitMbps() * 1024 * 1024) / 8; // Convert Mbps to bytes/s
+	}
 
-			// Continue throttling
-			this._throttleTimeout = setTimeout(processQueue, this._config.throttleInterval);
-		};
+	private _getBucketCapacity(): number {
+		return this._getMaxBytesPerSecond() * BandwidthManager.BURST_SECONDS;
+	}
+
+	// Add the tokens earned since the last refill, up to the bucket capacity
+	private _refill(now: number): void {
+		const elapsed = Math.max(0, now - this._lastRefill);
+		this._lastRefill = now;
+		if (!this.isLimited()) return;
 
-		processQueue();
+		this._tokens = Math.min(
+			this._getBucketCapacity(),
+			this._tokens + (this._getMaxBytesPerSecond() * elapsed) / 1000
+		);
 	}
 
-	private _processUpload(bytes: number): void {
-		// Update throttle info
-		this._throttleInfo.bytesPerSecond += bytes;
+	// Bytes per second sent during the last RATE_WINDOW
+	private _measureRate(now: number): number {
+		const windowStart = now - BandwidthManager.RATE_WINDOW;
+		while (this._transfers.length > 0 && this._transfers[0].time <= windowStart) {
+			this._transfers.shift();
+		}
+
+		const bytes = this._transfers.reduce((sum, transfer) => sum + transfer.bytes, 0);
+		return (bytes / BandwidthManager.RATE_WINDOW) * 1000;
+	}
+
+	// Apply a limit change, keeping any debt but never more than one second of burst.
+	// Nothing was sent against the bucket while unlimited or held, so it starts full.
+	private _changeLimit(change: () => void): void {
+		this._refill(Date.now());
+		const hadBucket = this.isLimited() && !this.isHeld();
 
-		// Reset after a second
-		setTimeout(() => {
-			this._throttleInfo.bytesPerSecond = Math.max(0, this._throttleInfo.bytesPerSecond - bytes);
-		}, 1000);
+		change();
+
+		const capacity = this._getBucketCapacity();
+		this._tokens = hadBucket ? Math.min(this._tokens, capacity) : capacity;
+	}
+
+	private _scheduleWindowCheck(): void {
+		clearTimeout(this._scheduleTimer);
+		this._scheduleTimer = undefined;
+		if (!this._config.schedule?.length) return;
+
+		// Check at the start of the next minute
+		const interval = BandwidthManager.SCHEDULE_CHECK_INTERVAL;
+		this._scheduleTimer = setTimeout(
+			() => {
+				this._updateActiveWindow();
+				this._scheduleWindowCheck();
+			},
+			interval - (Date.now() % interval)
+		);
+	}
+
+	private _updateActiveWindow(): void {
+		const previous = this._activeWindow;
+		const current = this._findActiveWindow(new Date());
+		if (current === previous) return;
+
+		this._changeLimit(() => {
+			this._activeWindow = current;
+		});
+		this._windowChangeCallbacks.forEach((callback) => callback(current, previous));
+	}
+
+	private _findActiveWindow(date: Date): BandwidthWindow | null {
+		const day = date.getDay();
+		const minutes = date.getHours() * 60 + date.getMinutes();
+		const previousDay = (day + 6) % 7;
+
+		for (const window of this._config.schedule ?? []) {
+			const start = this._parseTime(window.start);
+			const end = this._parseTime(window.end);
+			const runsOn = (weekday: number) => !window.days || window.days.includes(weekday);
+
+			if (start === end) {
+				if (runsOn(day)) return window;
+			} else if (start < end) {
+				if (runsOn(day) && minutes >= start && minutes < end) return window;
+			} else if (
+				// Past midnight: the part after start today, or before end from yesterday
+				(runsOn(day) && minutes >= start) ||
+				(runsOn(previousDay) && minutes < end)
+			) {
+				return window;
+			}
+		}
+
+		return null;
+	}
+
+	// Minutes since midnight for a valid HH:MM time
+	private _parseTime(time: string): number {
+		const [hours, minutes] = time.split(':').map(Number);
+		return hours * 60 + minutes;
+	}
+
+	private _validateWindow(window: BandwidthWindow): string | null {
+		const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+		if (!timePattern.test(window?.start) || !timePattern.test(window?.end)) {
+			return 'start and end must be HH:MM times';
+		}
+		if (
+			window.days !== undefined &&
+			(!Array.isArray(window.days) ||
+				!window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+		) {
+			return 'days must be numbers from 0 (Sunday) to 6 (Saturday)';
+		}
+		const limit = window.maxBandwidthMbps;
+		if (limit !== 'paused' && (typeof limit !== 'number' || !(limit >= 0.1))) {
+			return "maxBandwidthMbps must be at least 0.1 or 'paused'";
+		}
+		return null;
 	}
 }
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BandwidthManager } from './bandwidth-manager.svelte.js';
+
+// 1 Mbps is 131072 bytes per second
+const LIMIT_MBPS = 1;
+const BYTES_PER_SECOND = (LIMIT_MBPS * 1024 * 1024) / 8;
+
+describe('BandwidthManager', () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ now: 0 });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('allows a burst of one second of traffic', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: LIMIT_MBPS });
+
+		manager.updateBandwidthUsage(BYTES_PER_SECOND);
+
+		expect(manager.getThrottleDelay()).toBe(0);
+		expect(manager.canStartUpload()).toBe(true);
+	});
+
+	it('asks for a pause long enough to pay off the debt', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: LIMIT_MBPS });
+
+		manager.updateBandwidthUsage(BYTES_PER_SECOND * 1.5);
+
+		expect(manager.getThrottleDelay()).toBe(500);
+		expect(manager.canStartUpload()).toBe(false);
+
+		vi.advanceTimersByTime(500);
+		expect(manager.getThrottleDelay()).toBe(0);
+	});
+
+	it('pauses for at least throttleInterval', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: LIMIT_MBPS, throttleInterval: 200 });
+
+		manager.updateBandwidthUsage(BYTES_PER_SECOND + 10);
+
+		expect(manager.getThrottleDelay()).toBe(200);
+	});
+
+	it('never throttles without a limit', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: Infinity });
+
+		manager.updateBandwidthUsage(1024 * 1024 * 1024);
+
+		expect(manager.isLimited()).toBe(false);
+		expect(manager.getThrottleDelay()).toBe(0);
+		expect(manager.getBandwidthStats()).toMatchObject({ limit: Infinity, utilization: 0 });
+	});
+
+	it('reports utilization of the configured cap over the last second', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: LIMIT_MBPS });
+
+		manager.updateBandwidthUsage(BYTES_PER_SECOND / 4);
+		vi.advanceTimersByTime(500);
+		manager.updateBandwidthUsage(BYTES_PER_SECOND / 4);
+
+		expect(manager.getBandwidthStats()).toMatchObject({
+			current: BYTES_PER_SECOND / 2,
+			limit: BYTES_PER_SECOND,
+			utilization: 50
+		});
+
+		vi.advanceTimersByTime(1000);
+		expect(manager.getBandwidthStats().utilization).toBe(0);
+	});
+
+	it('applies a lowered limit to the remaining debt', () => {
+		const manager = new BandwidthManager({ maxBandwidthMbps: LIMIT_MBPS });
+		manager.updateBandwidthUsage(BYTES_PER_SECOND * 1.5);
+
+		manager.setBandwidthLimit(LIMIT_MBPS / 2);
+
+		expect(manager.getThrottleDelay()).toBe(1000);
+	});
+});
+
+describe('BandwidthManager schedule', () => {
+	// Monday 5 January 2026, local time
+	const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes);
+
+	const officeHours = {
+		name: 'office',
+		days: [1, 2, 3, 4, 5],
+		start: '09:00',
+		end: '17:00',
+		maxBandwidthMbps: 2
+	};
+	const nightHold = {
+		name: 'night',
+		start: '22:00',
+		end: '06:00',
+		maxBandwidthMbps: 'paused' as const
+	};
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('caps bandwidth while a window is active', () => {
+		vi.useFakeTimers({ now: monday(10) });
+		const manager = new BandwidthManager({ schedule: [officeHours] });
+
+		expect(manager.getActiveWindow()).toBe(officeHours);
+		expect(manager.getBandwidthStats()).toMatchObject({
+			limit: (2 * 1024 * 1024) / 8,
+			window: officeHours
+		});
+		manager.destroy();
+	});
+
+	it('uses the base limit outside windows and on other days', () => {
+		vi.useFakeTimers({ now: new Date(2026, 0, 4, 10) }); // Sunday
+		const manager = new BandwidthManager({ maxBandwidthMbps: Infinity, schedule: [officeHours] });
+
+		expect(manager.getActiveWindow()).toBeNull();
+		expect(manager.isLimited()).toBe(false);
+		manager.destroy();
+	});
+
+	it('holds uploads in a paused window that spans midnight', () => {
+		vi.useFakeTimers({ now: monday(2, 30) });
+		const manager = new BandwidthManager({ schedule: [nightHold] });
+
+		expect(manager.isHeld()).toBe(true);
+		expect(manager.canStartUpload()).toBe(false);
+		// Held until the next schedule check
+		expect(manager.getThrottleDelay()).toBe(60 * 1000);
+		expect(manager.getBandwidthStats()).toMatchObject({ limit: 0, utilization: 0 });
+		manager.destroy();
+	});
+
+	it('notifies when the active window changes on the minute', () => {
+		vi.useFakeTimers({ now: monday(16, 58) });
+		const manager = new BandwidthManager({ schedule: [officeHours] });
+		const onChange = vi.fn();
+		manager.onWindowChange(onChange);
+
+		vi.advanceTimersByTime(60 * 1000);
+		expect(onChange).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(60 * 1000);
+		expect(onChange).toHaveBeenCalledExactlyOnceWith(null, officeHours);
+		expect(manager.getActiveWindow()).toBeNull();
+		manager.destroy();
+	});
+
+	it('starts a window with a full bucket after a hold', () => {
+		vi.useFakeTimers({ now: monday(5, 59) });
+		const manager = new BandwidthManager({
+			maxBandwidthMbps: 1,
+			schedule: [nightHold]
+		});
+		manager.updateBandwidthUsage(BYTES_PER_SECOND * 2);
+
+		vi.advanceTimersByTime(60 * 1000);
+
+		expect(manager.isHeld()).toBe(false);
+		expect(manager.getThrottleDelay()).toBe(0);
+		manager.destroy();
+	});
+
+	it('ignores invalid windows', () => {
+		vi.useFakeTimers({ now: monday(10) });
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const manager = new BandwidthManager({
+			schedule: [
+				{ start: '9:00', end: '17:00', maxBandwidthMbps: 2 },
+				{ start: '09:00', end: '17:00', days: [7], maxBandwidthMbps: 2 },
+				{ start: '09:00', end: '17:00', maxBandwidthMbps: 0 }
+			]
+		});
+
+		expect(manager.getActiveWindow()).toBeNull();
+		expect(warn).toHaveBeenCalledOnce();
+		warn.mockRestore();
+		manager.destroy();
+	});
+
+	it('applies a new schedule right away', () => {
+		vi.useFakeTimers({ now: monday(23) });
+		const manager = new BandwidthManager();
+		const onChange = vi.fn();
+		manager.onWindowChange(onChange);
+
+		manager.setSchedule([nightHold]);
+
+		expect(onChange).toHaveBeenCalledWith(nightHold, null);
+		expect(manager.isHeld()).toBe(true);
+		manager.destroy();
+	});
+});
@@ -0,0 +1,161 @@
+import type { ChecksumAlgorithm, StorageObjectMetadata } from '../types.js';
+
+// Bytes read from the file at a time
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+interface ChecksumHash {
+	update(bytes: Uint8Array): void;
+	digest(): Uint8Array;
+}
+
+/**
+ * Checksum of a file, base64 encoded like the `md5Hash` and `crc32c` fields of a
+ * Cloud Storage object. WebCrypto has neither algorithm, so both are computed here,
+ * reading the file a chunk at a time.
+ *
+ * @example
+ * ```typescript
+ * const md5 = await computeChecksum(file); // '1B2M2Y8AsgTpgAmY7PhCfg=='
+ * const crc = await computeChecksum(file, 'crc32c');
+ * ```
+ */
+export async function computeChecksum(
+	data: Blob,
+	algorithm: ChecksumAlgorithm = 'md5'
+): Promise<string> {
+	const hash = algorithm === 'crc32c' ? new Crc32c() : new Md5();
+	for (let offset = 0; offset < data.size; offset += READ_CHUNK_SIZE) {
+		const chunk = await data.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+		hash.update(new Uint8Array(chunk));
+	}
+	return toBase64(hash.digest());
+}
+
+// The checksum storage reported for an object, if it has one for the algorithm
+export function getStoredChecksum(
+	metadata: StorageObjectMetadata | undefined,
+	algorithm: ChecksumAlgorithm
+): string | undefined {
+	return algorithm === 'crc32c' ? metadata?.crc32c : metadata?.md5Hash;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary);
+}
+
+// Per-round shift amounts and sine-derived constants of RFC 1321
+const MD5_SHIFTS = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+	20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+	10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+	Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32)
+);
+
+class Md5 implements ChecksumHash {
+	private _state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+	private _block = new Uint8Array(64);
+	private _blockLength = 0;
+	private _length = 0;
+
+	update(bytes: Uint8Array): void {
+		this._length += bytes.length;
+		let offset = 0;
+
+		// Fill up a block left over from the previous chunk first
+		while (offset < bytes.length) {
+			const take = Math.min(64 - this._blockLength, bytes.length - offset);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+
+			if (this._blockLength === 64) {
+				this._processBlock(this._block);
+				this._blockLength = 0;
+			}
+		}
+	}
+
+	digest(): Uint8Array {
+		const bitLength = this._length * 8;
+		const padding = new Uint8Array((this._blockLength < 56 ? 56 : 120) - this._blockLength + 8);
+		padding[0] = 0x80;
+		const view = new DataView(padding.buffer);
+		view.setUint32(padding.length - 8, bitLength >>> 0, true);
+		view.setUint32(padding.length - 4, Math.floor(bitLength / 2 ** 32), true);
+		this.update(padding);
+
+		const digest = new Uint8Array(16);
+		const digestView = new DataView(digest.buffer);
+		this._state.forEach((word, i) => digestView.setUint32(i * 4, word, true));
+		return digest;
+	}
+
+	private _processBlock(block: Uint8Array): void {
+		const view = new DataView(block.buffer, block.byteOffset, 64);
+		const words = Array.from({ length: 16 }, (_, i) => view.getUint32(i * 4, true));
+		let [a, b, c, d] = this._state;
+
+		for (let i = 0; i < 64; i++) {
+			let f: number;
+			let g: number;
+			if (i < 16) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (i < 32) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) % 16;
+			} else if (i < 48) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) % 16;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) % 16;
+			}
+
+			const sum = (a + f + MD5_CONSTANTS[i] + words[g]) >>> 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+		}
+
+		this._state[0] += a;
+		this._state[1] += b;
+		this._state[2] += c;
+		this._state[3] += d;
+	}
+}
+
+// Lookup table for the reflected Castagnoli polynomial
+const CRC32C_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+	let crc = n;
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+	}
+	return crc >>> 0;
+});
+
+class Crc32c implements ChecksumHash {
+	private _crc = 0xffffffff;
+
+	update(bytes: Uint8Array): void {
+		let crc = this._crc;
+		for (let i = 0; i < bytes.length; i++) {
+			crc = CRC32C_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+		}
+		this._crc = crc >>> 0;
+	}
+
+	// Big-endian, as Cloud Storage encodes it
+	digest(): Uint8Array {
+		const digest = new Uint8Array(4);
+		new DataView(digest.buffer).setUint32(0, (this._crc ^ 0xffffffff) >>> 0);
+		return digest;
+	}
+}
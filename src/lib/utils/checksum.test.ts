@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { computeChecksum, getStoredChecksum } from './checksum.svelte.js';
+
+// jsdom's Blob has no arrayBuffer(), which reading the file needs
+function createBlob(content: string): Blob {
+	return new NodeBlob([content]) as unknown as Blob;
+}
+
+describe('computeChecksum', () => {
+	it('computes base64 MD5 digests', async () => {
+		expect(await computeChecksum(createBlob(''))).toBe('1B2M2Y8AsgTpgAmY7PhCfg==');
+		expect(await computeChecksum(createBlob('The quick brown fox jumps over the lazy dog'))).toBe(
+			'nhB9nTcrtoJr2B01QqQZ1g=='
+		);
+	});
+
+	it('handles content spanning several MD5 blocks', async () => {
+		expect(await computeChecksum(createBlob('a'.repeat(200)))).toBe('iH8wtDsoZ/SprMzu59FubA==');
+	});
+
+	it('computes big-endian CRC32C digests', async () => {
+		expect(await computeChecksum(createBlob('123456789'), 'crc32c')).toBe('4waSgw==');
+	});
+});
+
+describe('getStoredChecksum', () => {
+	it('reads the field for the algorithm', () => {
+		const metadata = { fullPath: 'a.txt', size: 1, md5Hash: 'md5', crc32c: 'crc' };
+
+		expect(getStoredChecksum(metadata, 'md5')).toBe('md5');
+		expect(getStoredChecksum(metadata, 'crc32c')).toBe('crc');
+		expect(getStoredChecksum(undefined, 'md5')).toBeUndefined();
+	});
+});
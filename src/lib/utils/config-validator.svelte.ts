@@ -1,4 +1,5 @@
 import type { UploadManagerConfig, UploadManagerOptions } from '../types.js';
+import { mergeUploadMetadata, validateUploadMetadata } from './upload-metadata.svelte.js';
 
 // Configuration validation result
 export interface ConfigValidationResult {
@@ -175,6 +176,15 @@ export class ConfigValidator {
 			}
 		}
 
+		// Windows themselves are checked by the BandwidthManager
+		if (options.bandwidthSchedule !== undefined) {
+			if (!Array.isArray(options.bandwidthSchedule)) {
+				errors.push('bandwidthSchedule must be an array of windows');
+			} else {
+				sanitized.bandwidthSchedule = [...options.bandwidthSchedule];
+			}
+		}
+
 		// Validate optional memory settings
 		if (options.maxMemoryItems !== undefined) {
 			const result = this.validateNumber(
@@ -195,6 +205,100 @@ export class ConfigValidator {
 			}
 		}
 
+		if (options.pathTemplate !== undefined) {
+			if (typeof options.pathTemplate !== 'string' || options.pathTemplate.trim() === '') {
+				errors.push('pathTemplate must be a non-empty string');
+			} else {
+				sanitized.pathTemplate = options.pathTemplate;
+			}
+		}
+
+		if (options.pathVariables !== undefined) {
+			if (typeof options.pathVariables !== 'object' || options.pathVariables === null) {
+				errors.push('pathVariables must be an object of token values');
+			} else {
+				sanitized.pathVariables = { ...options.pathVariables };
+			}
+		}
+
+		if (options.onConflict !== undefined) {
+			if (!['overwrite', 'rename', 'skip', 'fail'].includes(options.onConflict)) {
+				errors.push("onConflict must be one of 'overwrite', 'rename', 'skip' or 'fail'");
+			} else {
+				sanitized.onConflict = options.onConflict;
+			}
+		}
+
+		if (options.slugifyFileNames !== undefined) {
+			if (typeof options.slugifyFileNames !== 'boolean') {
+				errors.push('slugifyFileNames must be a boolean');
+			} else {
+				sanitized.slugifyFileNames = options.slugifyFileNames;
+			}
+		}
+
+		if (options.uploadMetadata !== undefined) {
+			const problems =
+				typeof options.uploadMetadata === 'object' && options.uploadMetadata !== null
+					? validateUploadMetadata(options.uploadMetadata)
+					: ['must be an object'];
+			if (problems.length > 0) {
+				errors.push(`uploadMetadata is invalid: ${problems.join(', ')}`);
+			} else {
+				sanitized.uploadMetadata = mergeUploadMetadata(options.uploadMetadata);
+			}
+		}
+
+		if (options.resolveMetadata !== undefined) {
+			if (typeof options.resolveMetadata !== 'function') {
+				errors.push('resolveMetadata must be a function');
+			} else {
+				sanitized.resolveMetadata = options.resolveMetadata;
+			}
+		}
+
+		const { verifyIntegrity } = options;
+		if (verifyIntegrity !== undefined && verifyIntegrity !== false) {
+			const { algorithm = 'md5', deleteOnMismatch = false } =
+				typeof verifyIntegrity === 'object' && verifyIntegrity !== null ? verifyIntegrity : {};
+			if (verifyIntegrity !== true && (typeof verifyIntegrity !== 'object' || !verifyIntegrity)) {
+				errors.push('verifyIntegrity must be a boolean or integrity options');
+			} else if (algorithm !== 'md5' && algorithm !== 'crc32c') {
+				errors.push("verifyIntegrity.algorithm must be 'md5' or 'crc32c'");
+			} else {
+				sanitized.verifyIntegrity = { algorithm, deleteOnMismatch: deleteOnMismatch === true };
+			}
+		}
+
+		// Constructor option, not part of UploadManagerConfig
+		if (options.deduplicate !== undefined && typeof options.deduplicate !== 'boolean') {
+			if (typeof options.deduplicate !== 'object' || options.deduplicate === null) {
+				errors.push('deduplicate must be a boolean or deduplication options');
+			} else if (
+				options.deduplicate.pathTemplate !== undefined &&
+				!String(options.deduplicate.pathTemplate).includes('{hash}')
+			) {
+				errors.push('deduplicate.pathTemplate must contain {hash}');
+			}
+		}
+
+		// Constructor option, not part of UploadManagerConfig
+		if (
+			options.coordinateTabs !== undefined &&
+			typeof options.coordinateTabs !== 'boolean' &&
+			(typeof options.coordinateTabs !== 'object' || options.coordinateTabs === null)
+		) {
+			errors.push('coordinateTabs must be a boolean or tab coordinator options');
+		}
+
+		if (
+			options.backgroundUploads !== undefined &&
+			typeof options.backgroundUploads !== 'boolean' &&
+			(typeof options.backgroundUploads !== 'object' || options.backgroundUploads === null)
+		) {
+			errors.push('backgroundUploads must be a boolean or service worker adapter options');
+		}
+
 		if (options.enableHealthChecks !== undefined) {
 			if (typeof options.enableHealthChecks !== 'boolean') {
 				warnings.push('enableHealthChecks must be a boolean - using default');
@@ -0,0 +1,64 @@
+import type { DeduplicationIndex, DeduplicationIndexEntry } from '../types.js';
+
+/**
+ * Deduplication index kept in IndexedDB, shared by every manager of the origin.
+ *
+ * @example
+ * ```typescript
+ * const index = new IndexedDBDeduplicationIndex();
+ * await index.get(hash); // { hash, path, downloadURL, uploadedAt } or null
+ * ```
+ */
+export class IndexedDBDeduplicationIndex implements DeduplicationIndex {
+	private static readonly DB_NAME = 'UploadManagerDeduplication';
+	private static readonly STORE_NAME = 'objects';
+
+	private _db: Promise<IDBDatabase> | null = null;
+
+	// IndexedDB is missing in some environments, e.g. server rendering and tests
+	static isAvailable(): boolean {
+		return typeof indexedDB !== 'undefined';
+	}
+
+	async get(hash: string): Promise<DeduplicationIndexEntry | null> {
+		return (await this._request('readonly', (store) => store.get(hash))) ?? null;
+	}
+
+	async put(entry: DeduplicationIndexEntry): Promise<void> {
+		await this._request('readwrite', (store) => store.put(entry));
+	}
+
+	async delete(hash: string): Promise<void> {
+		await this._request('readwrite', (store) => store.delete(hash));
+	}
+
+	private async _request<T>(
+		mode: IDBTransactionMode,
+		run: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		const db = await this._open();
+		const store = db
+			.transaction(IndexedDBDeduplicationIndex.STORE_NAME, mode)
+			.objectStore(IndexedDBDeduplicationIndex.STORE_NAME);
+
+		return new Promise((resolve, reject) => {
+			const request = run(store);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	private _open(): Promise<IDBDatabase> {
+		this._db ??= new Promise((resolve, reject) => {
+			const request = indexedDB.open(IndexedDBDeduplicationIndex.DB_NAME, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(IndexedDBDeduplicationIndex.STORE_NAME, {
+					keyPath: 'hash'
+				});
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		return this._db;
+	}
+}
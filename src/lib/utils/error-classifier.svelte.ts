@@ -0,0 +1,100 @@
+import type { UploadErrorCategory } from '../types.js';
+
+export interface ClassifiedError {
+	code: string;
+	category: UploadErrorCategory;
+	message: string;
+}
+
+const CATEGORY_BY_CODE: Readonly<Record<string, UploadErrorCategory>> = {
+	'storage/canceled': 'cancelled',
+	'storage/unauthenticated': 'auth',
+	'storage/unauthorized': 'auth',
+	'storage/unauthorized-app': 'auth',
+	'storage/quota-exceeded': 'quota',
+	'storage/retry-limit-exceeded': 'retryable',
+	'storage/invalid-checksum': 'retryable',
+	'storage/server-file-wrong-size': 'retryable',
+	'storage/internal-error': 'retryable',
+	'plugin/skipped': 'cancelled',
+	'plugin/rejected': 'permanent',
+	'path/skipped': 'cancelled',
+	'path/exists': 'permanent',
+	'path/invalid-template': 'permanent',
+	'path/too-long': 'permanent',
+	'metadata/invalid': 'permanent',
+	integrity_mismatch: 'permanent',
+	integrity_unverified: 'permanent'
+};
+
+// Keywords for errors that carry no code (e.g. fetch failures or errors thrown by plugins)
+const MESSAGE_CATEGORIES: ReadonlyArray<[UploadErrorCategory, readonly string[]]> = [
+	['auth', ['PERMISSION_DENIED', 'UNAUTHENTICATED']],
+	['quota', ['QUOTA_EXCEEDED']],
+	['permanent', ['INVALID_ARGUMENT', 'NOT_FOUND', 'ALREADY_EXISTS']],
+	['retryable', ['NETWORK', 'TIMEOUT', 'INTERNAL', 'UNAVAILABLE', 'ABORTED', 'FAILED TO FETCH']]
+];
+
+const FALLBACK_CODE = 'upload/failed';
+
+/**
+ * Classify an upload error by its Firebase `StorageError` code.
+ *
+ * - `retryable`: transient failures worth another attempt (server 5xx, timeouts,
+ *   `storage/retry-limit-exceeded`, checksum mismatches, network errors)
+ * - `auth`: the user is not signed in or not allowed to write the path
+ * - `quota`: the bucket or project is out of quota
+ * - `permanent`: retrying will fail the same way (`storage/object-not-found`, bad arguments)
+ * - `cancelled`: the upload was cancelled (`storage/canceled`)
+ *
+ * Errors without a code are classified from their message, and are permanent
+ * when nothing matches.
+ *
+ * @example
+ * ```typescript
+ * classifyError(error); // { code: 'storage/quota-exceeded', category: 'quota', message: '...' }
+ * ```
+ */
+export function classifyError(error: unknown): ClassifiedError {
+	const message = error instanceof Error ? error.message : String(error);
+	const code = getErrorCode(error);
+
+	if (code) {
+		return { code, category: categorizeCode(code, getHttpStatus(error)), message };
+	}
+
+	const upperMessage = message.toUpperCase();
+	const match = MESSAGE_CATEGORIES.find(([, keywords]) =>
+		keywords.some((keyword) => upperMessage.includes(keyword))
+	);
+	return { code: FALLBACK_CODE, category: match ? match[0] : 'permanent', message };
+}
+
+export function isRetryableError(error: unknown): boolean {
+	return classifyError(error).category === 'retryable';
+}
+
+function categorizeCode(code: string, status: number | undefined): UploadErrorCategory {
+	const category = CATEGORY_BY_CODE[code];
+	if (category) return category;
+
+	// Firebase reports server errors as storage/unknown with the HTTP status attached
+	if (status !== undefined && status > 0) {
+		return isTransientStatus(status) ? 'retryable' : 'permanent';
+	}
+	return code === 'storage/unknown' ? 'retryable' : 'permanent';
+}
+
+function isTransientStatus(status: number): boolean {
+	return status >= 500 || status === 408 || status === 429;
+}
+
+function getErrorCode(error: unknown): string | null {
+	const code = (error as { code?: unknown })?.code;
+	return typeof code === 'string' && code.length > 0 ? code : null;
+}
+
+function getHttpStatus(error: unknown): number | undefined {
+	const status = (error as { status?: unknown })?.status;
+	return typeof status === 'number' ? status : undefined;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, isRetryableError } from './error-classifier.svelte.js';
+
+function storageError(code: string, status?: number): Error {
+	return Object.assign(new Error(`Firebase Storage: (storage/${code})`), {
+		code: `storage/${code}`,
+		status
+	});
+}
+
+describe('classifyError', () => {
+	it.each([
+		['unauthorized', 'auth'],
+		['unauthenticated', 'auth'],
+		['quota-exceeded', 'quota'],
+		['retry-limit-exceeded', 'retryable'],
+		['canceled', 'cancelled'],
+		['object-not-found', 'permanent'],
+		['invalid-argument', 'permanent']
+	])('maps storage/%s to %s', (code, category) => {
+		expect(classifyError(storageError(code))).toEqual({
+			code: `storage/${code}`,
+			category,
+			message: `Firebase Storage: (storage/${code})`
+		});
+	});
+
+	it('retries server errors but not client errors', () => {
+		expect(classifyError(storageError('unknown', 503)).category).toBe('retryable');
+		expect(classifyError(storageError('unknown', 429)).category).toBe('retryable');
+		expect(classifyError(storageError('unknown', 400)).category).toBe('permanent');
+		expect(classifyError(storageError('unknown')).category).toBe('retryable');
+	});
+
+	it('falls back to the message for errors without a code', () => {
+		expect(classifyError(new TypeError('Failed to fetch'))).toEqual({
+			code: 'upload/failed',
+			category: 'retryable',
+			message: 'Failed to fetch'
+		});
+		expect(classifyError(new Error('PERMISSION_DENIED')).category).toBe('auth');
+		expect(classifyError(new Error('Something broke')).category).toBe('permanent');
+		expect(classifyError('timeout').category).toBe('retryable');
+	});
+
+	it('only treats retryable errors as retryable', () => {
+		expect(isRetryableError(storageError('retry-limit-exceeded'))).toBe(true);
+		expect(isRetryableError(storageError('quota-exceeded'))).toBe(false);
+		expect(isRetryableError(storageError('canceled'))).toBe(false);
+	});
+});
@@ -0,0 +1,63 @@
+/**
+ * Minimal strongly typed event emitter.
+ *
+ * Handlers run synchronously in registration order. A throwing handler is
+ * logged and does not prevent the remaining handlers from running.
+ *
+ * @example
+ * ```typescript
+ * const emitter = new EventEmitter<{ saved: { id: string } }>();
+ *
+ * const unsubscribe = emitter.on('saved', ({ id }) => console.log('Saved', id));
+ * emitter.emit('saved', { id: '42' });
+ * unsubscribe();
+ * ```
+ */
+export class EventEmitter<TEvents extends object> {
+	private _handlers: Map<keyof TEvents, Set<(payload: any) => void>> = new Map();
+
+	// Subscribe to an event, returns an unsubscribe function
+	on<K extends keyof TEvents>(event: K, handler: (payload: TEvents[K]) => void): () => void {
+		let handlers = this._handlers.get(event);
+		if (!handlers) {
+			handlers = new Set();
+			this._handlers.set(event, handlers);
+		}
+		handlers.add(handler);
+
+		return () => {
+			handlers.delete(handler);
+		};
+	}
+
+	// Subscribe to the next occurrence of an event only
+	once<K extends keyof TEvents>(event: K, handler: (payload: TEvents[K]) => void): () => void {
+		const unsubscribe = this.on(event, (payload) => {
+			unsubscribe();
+			handler(payload);
+		});
+		return unsubscribe;
+	}
+
+	emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+		const handlers = this._handlers.get(event);
+		if (!handlers || handlers.size === 0) return;
+
+		// Copy so handlers can unsubscribe while we iterate
+		for (const handler of Array.from(handlers)) {
+			try {
+				handler(payload);
+			} catch (error) {
+				console.error(`[EventEmitter] Error in '${String(event)}' handler:`, error);
+			}
+		}
+	}
+
+	listenerCount<K extends keyof TEvents>(event: K): number {
+		return this._handlers.get(event)?.size || 0;
+	}
+
+	clear(): void {
+		this._handlers.clear();
+	}
+}
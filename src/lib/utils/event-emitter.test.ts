@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from './event-emitter.svelte.js';
+
+type TestEvents = {
+	saved: { id: string };
+	cleared: { count: number };
+};
+
+describe('EventEmitter', () => {
+	it('delivers payloads to handlers of the emitted event only', () => {
+		const emitter = new EventEmitter<TestEvents>();
+		const saved = vi.fn();
+		const cleared = vi.fn();
+		emitter.on('saved', saved);
+		emitter.on('cleared', cleared);
+
+		emitter.emit('saved', { id: '42' });
+
+		expect(saved).toHaveBeenCalledWith({ id: '42' });
+		expect(cleared).not.toHaveBeenCalled();
+	});
+
+	it('removes handlers with the returned unsubscribe function', () => {
+		const emitter = new EventEmitter<TestEvents>();
+		const handler = vi.fn();
+		const unsubscribe = emitter.on('saved', handler);
+
+		unsubscribe();
+		emitter.emit('saved', { id: '1' });
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(emitter.listenerCount('saved')).toBe(0);
+	});
+
+	it('calls once handlers a single time', () => {
+		const emitter = new EventEmitter<TestEvents>();
+		const handler = vi.fn();
+		emitter.once('cleared', handler);
+
+		emitter.emit('cleared', { count: 1 });
+		emitter.emit('cleared', { count: 2 });
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler).toHaveBeenCalledWith({ count: 1 });
+	});
+
+	it('keeps notifying other handlers when one throws', () => {
+		const emitter = new EventEmitter<TestEvents>();
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const handler = vi.fn();
+		emitter.on('saved', () => {
+			throw new Error('boom');
+		});
+		emitter.on('saved', handler);
+
+		emitter.emit('saved', { id: '7' });
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+});
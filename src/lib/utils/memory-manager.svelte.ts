@@ -1,4 +1,11 @@
-import type { VirtualQueueConfig, FileBatch, UploadItem } from '../types.js';
+import type {
+	VirtualQueueConfig,
+	FileBatch,
+	FileBatchOptions,
+	UploadItem,
+	PersistedUploadState
+} from '../types.js';
+import { createStatusHistory } from './upload-state-machine.svelte.js';
 
 export class MemoryManager {
 	private config: VirtualQueueConfig;
@@ -54,8 +61,12 @@ export class MemoryManager {
 		return config;
 	}
 
-	// Add files in batches to avoid memory spikes
-	async addFilesLazy(files: File[], batchSize = this.config.batchSize): Promise<string[]> {
+	// Add files in batches to avoid memory spikes. `options` apply to every file in the batches.
+	async addFilesLazy(
+		files: File[],
+		batchSize = this.config.batchSize,
+		options: FileBatchOptions = {}
+	): Promise<string[]> {
 		const batchIds: string[] = [];
 		this.pendingTotalFiles += files.length;
 		this.pendingTotalSize += files.reduce((sum, file) => sum + file.size, 0);
@@ -68,7 +79,8 @@ export class MemoryManager {
 				id: batchId,
 				files: batch,
 				processed: false,
-				createdAt: Date.now()
+				createdAt: Date.now(),
+				options: { ...options }
 			};
 
 			this.batches.set(batchId, fileBatch);
@@ -92,23 +104,26 @@ export class MemoryManager {
 		}
 
 		const uploadItems: UploadItem[] = [];
+		const options = batch.options || {};
 
 		for (const file of batch.files) {
 			const fileId = this._generateFileId(file);
-			const filePath = `uploads/${file.name}`;
 			const uploadItem: UploadItem = {
 				id: fileId,
 				file: file,
-				path: filePath,
-				metadata: {},
-				priority: 0,
+				path: '', // Resolved by the upload manager when it queues the file
+				metadata: options.metadata || {},
+				priority: options.priority || 0,
 				status: 'queued',
+				statusHistory: createStatusHistory(),
 				progress: 0,
 				uploadedBytes: 0,
 				totalBytes: file.size,
 				error: null,
 				attempts: 0,
-				createdAt: Date.now()
+				createdAt: Date.now(),
+				onConflict: options.onConflict,
+				uploadMetadata: options.uploadMetadata
 			};
 
 			uploadItems.push(uploadItem);
@@ -184,6 +199,11 @@ export class MemoryManager {
 		};
 	}
 
+	// Most upload items that should be held in memory at once
+	getMaxMemoryItems(): number {
+		return this.config.maxMemoryItems;
+	}
+
 	// Get pending totals
 	getPendingTotalFiles(): number {
 		return this.pendingTotalFiles;
@@ -238,30 +258,42 @@ export class MemoryManager {
 		}
 	}
 
-	async saveState(state: any): Promise<void> {
+	// Save the upload state. It is stored as-is, not as JSON, so File blobs survive.
+	async saveState(state: PersistedUploadState): Promise<void> {
+		if (this.config.persistenceKey && !this.db) {
+			await this._initializePersistenceWithRetry();
+		}
 		if (!this.db || !this.config.persistenceKey) return;
 
 		try {
 			const transaction = this.db.transaction(['uploadState'], 'readwrite');
 			const store = transaction.objectStore('uploadState');
-			await store.put({
-				key: this.config.persistenceKey,
-				state: JSON.stringify(state),
-				timestamp: Date.now()
-			});
+			await this._request(
+				store.put({
+					key: this.config.persistenceKey,
+					state,
+					timestamp: Date.now()
+				})
+			);
 		} catch (error) {
 			console.warn('Failed to save state:', error);
 		}
 	}
 
-	async loadState(): Promise<any | null> {
+	async loadState(): Promise<PersistedUploadState | null> {
+		if (this.config.persistenceKey && !this.db) {
+			await this._initializePersistenceWithRetry();
+		}
 		if (!this.db || !this.config.persistenceKey) return null;
 
 		try {
 			const transaction = this.db.transaction(['uploadState'], 'readonly');
 			const store = transaction.objectStore('uploadState');
-			const result = await store.get(this.config.persistenceKey);
-			return result ? JSON.parse((result as any).state) : null;
+			const result = await this._request(store.get(this.config.persistenceKey));
+			if (!result) return null;
+
+			// Older versions stored the state as JSON
+			return typeof result.state === 'string' ? JSON.parse(result.state) : result.state;
 		} catch (error) {
 			console.warn('Failed to load state:', error);
 			return null;
@@ -269,6 +301,13 @@ export class MemoryManager {
 	}
 
 	// Private methods
+	private _request<T>(request: IDBRequest<T>): Promise<T> {
+		return new Promise((resolve, reject) => {
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
 	private _generateBatchId(): string {
 		const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 		return batchId;
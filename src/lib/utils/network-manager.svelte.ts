@@ -1,4 +1,5 @@
 import type { NetworkMonitor, RetryConfig } from '../types.js';
+import { isRetryableError } from './error-classifier.svelte.js';
 
 /**
  * Network monitoring and retry management utility.
@@ -186,37 +187,9 @@ export class NetworkManager implements NetworkMonitor {
 			return false;
 		}
 
-		// Don't retry certain types of errors
-		if (error) {
-			const nonRetryableErrors = [
-				'PERMISSION_DENIED',
-				'INVALID_ARGUMENT',
-				'NOT_FOUND',
-				'ALREADY_EXISTS',
-				'QUOTA_EXCEEDED',
-				'UNAUTHENTICATED'
-			];
-
-			const retryableErrors = [
-				'NETWORK_ERROR',
-				'TIMEOUT',
-				'INTERNAL',
-				'UNAVAILABLE',
-				'CANCELLED',
-				'ABORTED'
-			];
-
-			// Check for non-retryable errors first
-			if (nonRetryableErrors.some((err) => error.message.toUpperCase().includes(err))) {
-				return false;
-			}
-
-			// For unknown errors, check network quality
-			if (!retryableErrors.some((err) => error.message.toUpperCase().includes(err))) {
-				const networkQuality = this.getNetworkQuality();
-				// Only retry unknown errors if network quality is good
-				return networkQuality === 'excellent' || networkQuality === 'good';
-			}
+		// Only transient failures (5xx, timeouts, network errors) are worth another attempt
+		if (error && !isRetryableError(error)) {
+			return false;
 		}
 
 		return true;
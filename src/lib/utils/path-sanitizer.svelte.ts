@@ -0,0 +1,145 @@
+// Google Cloud Storage limit for object names, in UTF-8 bytes
+export const MAX_OBJECT_NAME_BYTES = 1024;
+
+export interface FileNameSanitizeOptions {
+	slugify?: boolean; // Lowercase ASCII letters, digits, '-', '_' and '.' only
+}
+
+// C0 and C1 control characters, including NUL, newlines and DEL
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/g;
+
+// Characters Windows does not allow in file names, besides the path separators
+const WINDOWS_INVALID_CHARACTERS = /[<>:"|?*]/g;
+
+// Device names Windows reserves with any extension, e.g. CON.txt
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+
+const FALLBACK_NAME = 'file';
+
+/**
+ * Make a file name safe to use as the last segment of a storage path.
+ *
+ * The name is NFC normalized, control characters are removed, path separators
+ * and characters Windows rejects become `_`, trailing dots and spaces are
+ * trimmed and Windows device names such as `CON` get a `_` prefix. With
+ * `slugify`, the name is reduced to lowercase ASCII, keeping its extension.
+ *
+ * @example
+ * ```typescript
+ * sanitizeFileName('../Résumé?.pdf'); // '.._Résumé_.pdf'
+ * sanitizeFileName('Résumé (final).PDF', { slugify: true }); // 'resume-final.pdf'
+ * ```
+ */
+export function sanitizeFileName(name: string, options: FileNameSanitizeOptions = {}): string {
+	let sanitized = name
+		.normalize('NFC')
+		.replace(CONTROL_CHARACTERS, '')
+		.replace(/[/\\]/g, '_')
+		.replace(WINDOWS_INVALID_CHARACTERS, '_')
+		.trim()
+		.replace(/[. ]+$/, '');
+
+	if (options.slugify) {
+		sanitized = slugifyFileName(sanitized);
+	}
+	if (!sanitized) {
+		return FALLBACK_NAME;
+	}
+	return WINDOWS_RESERVED_NAMES.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Make a storage path safe to upload to.
+ *
+ * The path is NFC normalized and control characters are removed. Backslashes
+ * become `/`, and empty, `.` and `..` segments are dropped, so the path can't
+ * start with `/` or climb out of its directory. Paths longer than the 1024-byte
+ * object name limit have their file name shortened, keeping the extension.
+ *
+ * @throws Error with code `path/too-long` when the directories alone are over the limit
+ *
+ * @example
+ * ```typescript
+ * sanitizeStoragePath('/uploads/../../etc/passwd'); // 'uploads/etc/passwd'
+ * ```
+ */
+export function sanitizeStoragePath(path: string): string {
+	const segments = path
+		.normalize('NFC')
+		.replace(CONTROL_CHARACTERS, '')
+		.split(/[/\\]/)
+		.filter((segment) => segment !== '' && segment !== '.' && segment !== '..');
+
+	const sanitized = segments.join('/');
+	if (byteLength(sanitized) <= MAX_OBJECT_NAME_BYTES) {
+		return sanitized;
+	}
+
+	const fileName = segments.pop() ?? '';
+	const directory = segments.length > 0 ? `${segments.join('/')}/` : '';
+	const dot = fileName.lastIndexOf('.');
+	const ext = dot > 0 ? fileName.slice(dot) : '';
+	const stem = ext ? fileName.slice(0, dot) : fileName;
+	return fitObjectName(directory, stem, ext);
+}
+
+/**
+ * Join a directory, file name stem and suffix such as the extension, shortening
+ * the stem so the path fits the 1024-byte object name limit. The suffix is kept whole.
+ *
+ * @throws Error with code `path/too-long` when not even one character of the stem fits
+ *
+ * @example
+ * ```typescript
+ * fitObjectName('uploads/', 'IMG_0001', ' (2).jpg'); // 'uploads/IMG_0001 (2).jpg'
+ * ```
+ */
+export function fitObjectName(directory: string, stem: string, suffix: string): string {
+	const path = directory + stem + suffix;
+	if (byteLength(path) <= MAX_OBJECT_NAME_BYTES) {
+		return path;
+	}
+
+	// Keep at least one character of the name before the suffix
+	const available = MAX_OBJECT_NAME_BYTES - byteLength(directory) - byteLength(suffix);
+	if (available < 1) {
+		throw Object.assign(
+			new Error(`Storage path is over ${MAX_OBJECT_NAME_BYTES} bytes: ${path.slice(0, 64)}...`),
+			{ code: 'path/too-long' }
+		);
+	}
+	return directory + truncateToBytes(stem, available) + suffix;
+}
+
+function slugifyFileName(name: string): string {
+	const dot = name.lastIndexOf('.');
+	const stem = dot > 0 ? name.slice(0, dot) : name;
+	const ext = dot > 0 ? name.slice(dot + 1) : '';
+	const slug = (value: string) =>
+		value
+			.normalize('NFD')
+			.replace(/\p{M}/gu, '')
+			.toLowerCase()
+			.replace(/[^a-z0-9_]+/g, '-')
+			.replace(/^-+|-+$/g, '');
+
+	const slugStem = slug(stem);
+	const slugExt = slug(ext);
+	return slugExt ? `${slugStem || FALLBACK_NAME}.${slugExt}` : slugStem;
+}
+
+function byteLength(value: string): number {
+	return new TextEncoder().encode(value).length;
+}
+
+// Longest prefix that fits in maxBytes without splitting a character
+function truncateToBytes(value: string, maxBytes: number): string {
+	let bytes = 0;
+	let result = '';
+	for (const char of value) {
+		bytes += byteLength(char);
+		if (bytes > maxBytes) break;
+		result += char;
+	}
+	return result;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+	MAX_OBJECT_NAME_BYTES,
+	sanitizeFileName,
+	sanitizeStoragePath
+} from './path-sanitizer.svelte.js';
+
+describe('sanitizeFileName', () => {
+	it('normalizes to NFC', () => {
+		const decomposed = 'Re\u0301sume\u0301.pdf';
+		expect(sanitizeFileName(decomposed)).toBe('R\u00e9sum\u00e9.pdf');
+	});
+
+	it('removes control characters and replaces separators and reserved characters', () => {
+		expect(sanitizeFileName('a\u0000b\nc\u007f.txt')).toBe('abc.txt');
+		expect(sanitizeFileName('../etc/passwd')).toBe('.._etc_passwd');
+		expect(sanitizeFileName('dir\\what?*.txt')).toBe('dir_what__.txt');
+	});
+
+	it('handles Windows reserved names and trailing dots', () => {
+		expect(sanitizeFileName('CON')).toBe('_CON');
+		expect(sanitizeFileName('lpt1.log')).toBe('_lpt1.log');
+		expect(sanitizeFileName('console.log')).toBe('console.log');
+		expect(sanitizeFileName('notes. . ')).toBe('notes');
+		expect(sanitizeFileName('..')).toBe('file');
+	});
+
+	it('slugifies names while keeping the extension', () => {
+		expect(sanitizeFileName('Résumé (final) .PDF', { slugify: true })).toBe('resume-final.pdf');
+		expect(sanitizeFileName('写真.jpg', { slugify: true })).toBe('file.jpg');
+		expect(sanitizeFileName('My_Photo', { slugify: true })).toBe('my_photo');
+	});
+});
+
+describe('sanitizeStoragePath', () => {
+	it('strips leading slashes and traversal segments', () => {
+		expect(sanitizeStoragePath('/uploads/../../etc/passwd')).toBe('uploads/etc/passwd');
+		expect(sanitizeStoragePath('uploads\\.\\a.txt')).toBe('uploads/a.txt');
+		expect(sanitizeStoragePath('uploads//a.txt\u0000')).toBe('uploads/a.txt');
+	});
+
+	it('shortens the file name to the object name limit', () => {
+		const path = sanitizeStoragePath(`uploads/${'é'.repeat(600)}.jpg`);
+
+		expect(new TextEncoder().encode(path).length).toBeLessThanOrEqual(MAX_OBJECT_NAME_BYTES);
+		expect(path).toMatch(/^uploads\/é+\.jpg$/);
+	});
+
+	it('throws when the directories alone are over the limit', () => {
+		expect(() => sanitizeStoragePath(`${'a'.repeat(1100)}/b.txt`)).toThrow(
+			expect.objectContaining({ code: 'path/too-long' })
+		);
+	});
+});
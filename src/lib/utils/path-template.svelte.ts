@@ -0,0 +1,128 @@
+import type { PathVariables } from '../types.js';
+import { fitObjectName, sanitizeFileName, sanitizeStoragePath } from './path-sanitizer.svelte.js';
+
+export interface PathTemplateContext {
+	file: File;
+	variables?: PathVariables; // Values for custom tokens such as {uid}
+	hash?: string; // Left as {hash} when missing, so it can be filled in once the file is hashed
+	now?: Date;
+	slugify?: boolean; // Slugify the file name used for {name} and {ext}
+}
+
+// {token} or {token:format}, with the dot before {ext} so it can be dropped for files without one
+const TOKEN_PATTERN = /(\.)?\{(\w+)(?::([^}]*))?\}/g;
+
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+export const HASH_TOKEN = '{hash}';
+
+/**
+ * Build a storage path from a template.
+ *
+ * Built-in tokens:
+ * - `{name}`: file name without its extension
+ * - `{ext}`: extension without the dot, `.{ext}` is dropped for files without one
+ * - `{uuid}`: random UUID
+ * - `{hash}`: SHA-256 of the file content, from `context.hash`
+ * - `{date}` / `{date:yyyy/MM}`: current date, with `yyyy`, `MM`, `dd`, `HH`, `mm` and `ss`
+ *
+ * Any other token is read from `context.variables`, e.g. `{uid}`.
+ * The file name is sanitized and the result goes through `sanitizeStoragePath()`.
+ *
+ * @throws Error with code `path/invalid-template` for a token without a value
+ *
+ * @example
+ * ```typescript
+ * resolvePathTemplate('users/{uid}/{date:yyyy/MM}/{name}.{ext}', {
+ *   file,
+ *   variables: { uid: 'abc' }
+ * }); // 'users/abc/2024/05/IMG_0001.jpg'
+ * ```
+ */
+export function resolvePathTemplate(template: string, context: PathTemplateContext): string {
+	const { name, ext } = splitFileName(sanitizeFileName(context.file.name, context));
+	const now = context.now ?? new Date();
+
+	const path = template.replace(
+		TOKEN_PATTERN,
+		(match, dot = '', token: string, format?: string) => {
+			switch (token) {
+				case 'name':
+					return dot + name;
+				case 'ext':
+					return ext ? dot + ext : '';
+				case 'uuid':
+					return dot + createUUID();
+				case 'hash':
+					return context.hash ? dot + context.hash : match;
+				case 'date':
+					return dot + formatDate(now, format || DEFAULT_DATE_FORMAT);
+			}
+
+			const value = context.variables?.[token];
+			if (value === undefined || value === null || value === '') {
+				throw Object.assign(new Error(`No value for path token {${token}}`), {
+					code: 'path/invalid-template'
+				});
+			}
+			return dot + String(value);
+		}
+	);
+	return sanitizeStoragePath(path);
+}
+
+// Whether a resolved path still waits for the file hash
+export function needsFileHash(path: string): boolean {
+	return path.includes(HASH_TOKEN);
+}
+
+/**
+ * Path for the n-th rename of a path that already exists.
+ * A name near the object name limit is shortened to make room for the number.
+ *
+ * @example
+ * ```typescript
+ * appendPathSuffix('uploads/IMG_0001.jpg', 2); // 'uploads/IMG_0001 (2).jpg'
+ * ```
+ */
+export function appendPathSuffix(path: string, attempt: number): string {
+	const slash = path.lastIndexOf('/');
+	const directory = path.slice(0, slash + 1);
+	const { name, ext } = splitFileName(path.slice(slash + 1));
+	return fitObjectName(directory, name, ` (${attempt})${ext ? `.${ext}` : ''}`);
+}
+
+// Path used when neither a path nor a template is given
+export function defaultUploadPath(file: File, slugify = false): string {
+	return `uploads/${sanitizeFileName(file.name, { slugify })}`;
+}
+
+function splitFileName(fileName: string): { name: string; ext: string } {
+	const dot = fileName.lastIndexOf('.');
+	// Dotfiles like .env have no extension
+	if (dot <= 0) return { name: fileName, ext: '' };
+	return { name: fileName.slice(0, dot), ext: fileName.slice(dot + 1) };
+}
+
+function formatDate(date: Date, format: string): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	const parts: Record<string, string> = {
+		yyyy: String(date.getFullYear()),
+		MM: pad(date.getMonth() + 1),
+		dd: pad(date.getDate()),
+		HH: pad(date.getHours()),
+		mm: pad(date.getMinutes()),
+		ss: pad(date.getSeconds())
+	};
+	return format.replace(/yyyy|MM|dd|HH|mm|ss/g, (part) => parts[part]);
+}
+
+function createUUID(): string {
+	if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+		return crypto.randomUUID();
+	}
+	return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+		const random = (Math.random() * 16) | 0;
+		return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+	});
+}
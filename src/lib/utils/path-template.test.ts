@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { appendPathSuffix, needsFileHash, resolvePathTemplate } from './path-template.svelte.js';
+import { MAX_OBJECT_NAME_BYTES, sanitizeStoragePath } from './path-sanitizer.svelte.js';
+
+const file = new File(['photo'], 'IMG_0001.jpg', { type: 'image/jpeg' });
+const now = new Date(2024, 4, 7, 9, 3, 5);
+
+describe('resolvePathTemplate', () => {
+	it('fills in the file name, extension and date', () => {
+		expect(resolvePathTemplate('{date:yyyy/MM}/{name}.{ext}', { file, now })).toBe(
+			'2024/05/IMG_0001.jpg'
+		);
+		expect(resolvePathTemplate('{date}/{date:HH-mm-ss}', { file, now })).toBe(
+			'2024-05-07/09-03-05'
+		);
+	});
+
+	it('reads custom tokens from the variables', () => {
+		const path = resolvePathTemplate('users/{uid}/{album}/{name}.{ext}', {
+			file,
+			variables: { uid: 'abc', album: 7 }
+		});
+		expect(path).toBe('users/abc/7/IMG_0001.jpg');
+	});
+
+	it('throws for a token without a value', () => {
+		expect(() => resolvePathTemplate('users/{uid}/{name}', { file })).toThrow(
+			expect.objectContaining({ code: 'path/invalid-template' })
+		);
+	});
+
+	it('drops the dot of {ext} for files without an extension', () => {
+		const readme = new File(['docs'], 'README');
+		expect(resolvePathTemplate('docs/{name}.{ext}', { file: readme })).toBe('docs/README');
+		expect(resolvePathTemplate('{name}.{ext}', { file: new File([''], '.env') })).toBe('.env');
+	});
+
+	it('generates a new UUID for every path', () => {
+		const first = resolvePathTemplate('{uuid}.{ext}', { file });
+		const second = resolvePathTemplate('{uuid}.{ext}', { file });
+
+		expect(first).toMatch(/^[0-9a-f-]{36}\.jpg$/);
+		expect(first).not.toBe(second);
+	});
+
+	it('keeps {hash} until the hash is known', () => {
+		const pending = resolvePathTemplate('blobs/{hash}.{ext}', { file });
+		expect(pending).toBe('blobs/{hash}.jpg');
+		expect(needsFileHash(pending)).toBe(true);
+
+		expect(resolvePathTemplate('blobs/{hash}.{ext}', { file, hash: 'f00d' })).toBe(
+			'blobs/f00d.jpg'
+		);
+	});
+});
+
+describe('appendPathSuffix', () => {
+	it('numbers the file name and keeps the directory and extension', () => {
+		expect(appendPathSuffix('uploads/IMG_0001.jpg', 1)).toBe('uploads/IMG_0001 (1).jpg');
+		expect(appendPathSuffix('a.b/archive.tar.gz', 2)).toBe('a.b/archive.tar (2).gz');
+		expect(appendPathSuffix('README', 3)).toBe('README (3)');
+	});
+
+	it('shortens names near the object name limit to fit the number', () => {
+		const path = appendPathSuffix(sanitizeStoragePath(`uploads/${'é'.repeat(600)}.jpg`), 12);
+
+		expect(new TextEncoder().encode(path).length).toBeLessThanOrEqual(MAX_OBJECT_NAME_BYTES);
+		expect(path).toMatch(/^uploads\/é+ \(12\)\.jpg$/);
+	});
+});
@@ -5,7 +5,9 @@ import type {
 	UploadManagerInterface,
 	UploadPlugin,
 	PluginConfig,
-	PluginRegistryEntry
+	PluginRegistryEntry,
+	PluginDecision,
+	PluginDecisionRecord
 } from '../types.js';
 
 // Plugin event types
@@ -21,12 +23,32 @@ export type PluginEventType =
 	| 'onUploadProgress'
 	| 'onUploadComplete'
 	| 'onUploadError'
+	| 'onGroupComplete'
 	| 'beforeQueueProcess'
 	| 'afterQueueProcess'
 	| 'onStatusChange'
 	| 'onManagerStateChange'
 	| 'onError';
 
+// Pipelines where a plugin may return a PluginDecision instead of a value
+const DECISION_HOOKS: ReadonlySet<PluginEventType> = new Set(['beforeFileAdd', 'beforeUpload']);
+
+// Check whether a hook returned a skip, reject or defer decision
+export function isPluginDecision(value: unknown): value is PluginDecision {
+	if (!value || typeof value !== 'object') return false;
+
+	const decision = value as Record<string, unknown>;
+	switch (decision.action) {
+		case 'skip':
+		case 'reject':
+			return typeof decision.reason === 'string';
+		case 'defer':
+			return typeof decision.until === 'number' || decision.until instanceof Date;
+		default:
+			return false;
+	}
+}
+
 export class PluginSystem {
 	private _plugins: Map<string, PluginRegistryEntry> = new Map();
 	private _manager: UploadManagerInterface;
@@ -232,12 +254,31 @@ export class PluginSystem {
 		}
 	}
 
-	// Execute a pipeline of plugins (for hooks that can modify data)
+	// Execute a pipeline of plugins (for hooks that can modify data).
+	// beforeFileAdd and beforeUpload stop at the first plugin returning a decision.
 	async executePipeline<T>(
 		eventType: PluginEventType,
 		initialValue: T,
 		...args: any[]
-	): Promise<T> {
+	): Promise<T | PluginDecisionRecord> {
+		return this._runPipeline(eventType, initialValue, (value) => [value, ...args]);
+	}
+
+	// Execute a pipeline whose hooks take the value's fields as separate arguments,
+	// e.g. beforeFileAdd(file, options) returning { file, options }
+	async executeArgsPipeline<T>(
+		eventType: PluginEventType,
+		initialValue: T,
+		toArgs: (value: T) => any[]
+	): Promise<T | PluginDecisionRecord> {
+		return this._runPipeline(eventType, initialValue, toArgs);
+	}
+
+	private async _runPipeline<T>(
+		eventType: PluginEventType,
+		initialValue: T,
+		toArgs: (value: T) => any[]
+	): Promise<T | PluginDecisionRecord> {
 		const enabledPlugins = this.getEnabledPlugins();
 
 		// Sort by priority (higher priority first)
@@ -248,12 +289,16 @@ export class PluginSystem {
 		for (const { plugin } of sortedPlugins) {
 			const method = plugin[eventType];
 			if (typeof method === 'function') {
+				const args = toArgs(result);
 				try {
 					const pluginResult = await this._withTimeout(
-						() => method.apply(plugin, [result, ...args]),
+						() => Promise.resolve(method.apply(plugin, args)),
 						this._PLUGIN_TIMEOUT,
 						`${plugin.name}.${eventType}`
 					);
+					if (DECISION_HOOKS.has(eventType) && isPluginDecision(pluginResult)) {
+						return { ...pluginResult, plugin: plugin.name };
+					}
 					if (pluginResult !== undefined) {
 						result = pluginResult as T;
 					}
@@ -0,0 +1,222 @@
+import type { TabChannel, TabCoordinatorOptions, TabLockManager, TabMessage } from '../types.js';
+
+// What actually travels over the channel: election traffic and wrapped messages
+type ChannelMessage = { tabId: string } & (
+	| { type: 'heartbeat' }
+	| { type: 'resign' }
+	| { type: 'message'; message: TabMessage }
+);
+
+/**
+ * Elects one leader among the tabs of the same origin and carries messages between them.
+ *
+ * With the Web Locks API the leader is the tab holding the `name` lock; the
+ * browser hands it to the next waiting tab when the leader closes. Without it,
+ * every tab sends heartbeats over a BroadcastChannel and the oldest live tab
+ * leads. A tab that stops sending heartbeats for `leaderTimeout` is considered
+ * closed.
+ *
+ * @example
+ * ```typescript
+ * const coordinator = new TabCoordinator({ name: 'uploads' });
+ *
+ * coordinator.onLeadershipChange((isLeader) => {
+ *   if (isLeader) startUploading();
+ * });
+ * coordinator.onMessage((message) => console.log('from another tab:', message));
+ * coordinator.start();
+ * ```
+ */
+export class TabCoordinator {
+	public isLeader = $state(false);
+	public readonly tabId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+	private _name: string;
+	private _heartbeatInterval: number;
+	private _leaderTimeout: number;
+	private _locks: TabLockManager | null;
+	private _createChannel: ((name: string) => TabChannel) | null;
+
+	private _started = false;
+	private _channel: TabChannel | null = null;
+	private _messageCallbacks: ((message: TabMessage, tabId: string) => void)[] = [];
+	private _leadershipCallbacks: ((isLeader: boolean) => void)[] = [];
+
+	// Web Locks mode
+	private _lockAbort?: AbortController;
+	private _releaseLock?: () => void;
+
+	// BroadcastChannel mode: last heartbeat of every other tab
+	private _peers: Map<string, number> = new Map();
+	private _heartbeatTimer?: ReturnType<typeof setInterval>;
+	private _electionTimer?: ReturnType<typeof setTimeout>;
+
+	private _boundPageHide = this.stop.bind(this);
+
+	constructor(options: TabCoordinatorOptions = {}) {
+		this._name = options.name ?? 'upload-manager';
+		this._heartbeatInterval = options.heartbeatInterval ?? 1000;
+		this._leaderTimeout = Math.max(options.leaderTimeout ?? 2500, this._heartbeatInterval * 2);
+
+		this._locks =
+			options.locks !== undefined
+				? options.locks
+				: typeof navigator !== 'undefined' && navigator.locks
+					? navigator.locks
+					: null;
+		this._createChannel =
+			options.createChannel !== undefined
+				? options.createChannel
+				: typeof BroadcastChannel !== 'undefined'
+					? (name) => new BroadcastChannel(name)
+					: null;
+	}
+
+	/**
+	 * Join the election. Without the Web Locks API the tab listens for
+	 * `leaderTimeout` before it can lead, so an existing leader keeps its role.
+	 */
+	start(): void {
+		if (this._started) return;
+		this._started = true;
+
+		this._channel = this._createChannel?.(`${this._name}:tabs`) ?? null;
+		if (this._channel) {
+			this._channel.onmessage = (event) => this._handleMessage(event.data as ChannelMessage);
+		}
+
+		if (this._locks) {
+			this._requestLock(this._locks);
+		} else if (this._channel) {
+			this._startHeartbeat();
+		} else {
+			// No way to reach other tabs
+			this._setLeader(true);
+		}
+
+		if (typeof window !== 'undefined') {
+			window.addEventListener('pagehide', this._boundPageHide);
+		}
+	}
+
+	/**
+	 * Leave the election and close the channel. A leader hands over to the next
+	 * tab right away. Leadership callbacks are not called.
+	 */
+	stop(): void {
+		if (!this._started) return;
+		this._started = false;
+
+		clearInterval(this._heartbeatTimer);
+		clearTimeout(this._electionTimer);
+		this._heartbeatTimer = undefined;
+		this._electionTimer = undefined;
+
+		this._lockAbort?.abort();
+		this._releaseLock?.();
+		this._lockAbort = undefined;
+		this._releaseLock = undefined;
+
+		if (!this._locks) {
+			this._post({ type: 'resign', tabId: this.tabId });
+		}
+		this._channel?.close();
+		this._channel = null;
+		this._peers.clear();
+		this.isLeader = false;
+
+		if (typeof window !== 'undefined') {
+			window.removeEventListener('pagehide', this._boundPageHide);
+		}
+	}
+
+	// Send a message to every other tab, the sending tab does not receive it
+	broadcast(message: TabMessage): void {
+		this._post({ type: 'message', tabId: this.tabId, message });
+	}
+
+	onMessage(callback: (message: TabMessage, tabId: string) => void): void {
+		this._messageCallbacks.push(callback);
+	}
+
+	onLeadershipChange(callback: (isLeader: boolean) => void): void {
+		this._leadershipCallbacks.push(callback);
+	}
+
+	// Hold the lock until stop(), the browser releases it when the tab closes
+	private _requestLock(locks: TabLockManager): void {
+		const abort = new AbortController();
+		this._lockAbort = abort;
+
+		locks
+			.request(this._name, { signal: abort.signal }, () => {
+				return new Promise<void>((release) => {
+					this._releaseLock = release;
+					this._setLeader(true);
+				});
+			})
+			.catch(() => {
+				// Aborted by stop() while waiting for the lock
+			});
+	}
+
+	private _startHeartbeat(): void {
+		this._post({ type: 'heartbeat', tabId: this.tabId });
+		this._heartbeatTimer = setInterval(() => {
+			this._post({ type: 'heartbeat', tabId: this.tabId });
+			this._electLeader();
+		}, this._heartbeatInterval);
+
+		// Hear from the other tabs before taking part
+		this._electionTimer = setTimeout(() => {
+			this._electionTimer = undefined;
+			this._electLeader();
+		}, this._leaderTimeout);
+	}
+
+	// The oldest live tab leads, tab ids start with their creation time
+	private _electLeader(): void {
+		if (this._electionTimer || !this._started) return;
+
+		const now = Date.now();
+		for (const [tabId, lastSeen] of this._peers) {
+			if (now - lastSeen > this._leaderTimeout) {
+				this._peers.delete(tabId);
+			}
+		}
+
+		const [leaderId] = [this.tabId, ...this._peers.keys()].sort();
+		this._setLeader(leaderId === this.tabId);
+	}
+
+	private _handleMessage(data: ChannelMessage): void {
+		if (!data || data.tabId === this.tabId) return;
+
+		switch (data.type) {
+			case 'heartbeat':
+				this._peers.set(data.tabId, Date.now());
+				break;
+			case 'resign':
+				this._peers.delete(data.tabId);
+				this._electLeader();
+				break;
+			case 'message':
+				this._messageCallbacks.forEach((callback) => callback(data.message, data.tabId));
+				break;
+		}
+	}
+
+	private _setLeader(isLeader: boolean): void {
+		if (this.isLeader === isLeader) return;
+		this.isLeader = isLeader;
+		this._leadershipCallbacks.forEach((callback) => callback(isLeader));
+	}
+
+	private _post(message: ChannelMessage): void {
+		try {
+			this._channel?.postMessage(message);
+		} catch (error) {
+			console.warn('[TabCoordinator] Failed to post message:', error);
+		}
+	}
+}
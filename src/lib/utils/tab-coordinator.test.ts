@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TabCoordinator } from './tab-coordinator.svelte.js';
+import type { TabChannel, TabLockManager, TabMessage } from '../types.js';
+
+// BroadcastChannel stand-in: delivers to every other open channel on the next tick
+class FakeChannel implements TabChannel {
+	onmessage: ((event: MessageEvent) => void) | null = null;
+	closed = false;
+
+	constructor(private _channels: Set<FakeChannel>) {
+		_channels.add(this);
+	}
+
+	postMessage(message: unknown): void {
+		if (this.closed) return;
+		for (const channel of this._channels) {
+			if (channel === this) continue;
+			setTimeout(() => channel.onmessage?.({ data: message } as MessageEvent), 0);
+		}
+	}
+
+	close(): void {
+		this.closed = true;
+		this._channels.delete(this);
+	}
+}
+
+// Web Locks stand-in: one holder per name, the others wait in request order
+function createLocks(): TabLockManager {
+	const waiting: Array<() => void> = [];
+	let held = false;
+
+	const grantNext = () => {
+		if (held) return;
+		waiting.shift()?.();
+	};
+
+	return {
+		request: (_name, { signal }, callback) =>
+			new Promise<void>((resolve, reject) => {
+				const grant = () => {
+					held = true;
+					callback().then(() => {
+						held = false;
+						resolve();
+						grantNext();
+					});
+				};
+				signal?.addEventListener('abort', () => {
+					const index = waiting.indexOf(grant);
+					if (index === -1) return;
+					waiting.splice(index, 1);
+					reject(new DOMException('Lock request aborted', 'AbortError'));
+				});
+				waiting.push(grant);
+				grantNext();
+			})
+	};
+}
+
+describe('TabCoordinator', () => {
+	let channels: Set<FakeChannel>;
+	let tabs: TabCoordinator[];
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now: new Date(2026, 0, 5) });
+		channels = new Set();
+		tabs = [];
+	});
+
+	afterEach(() => {
+		tabs.forEach((tab) => tab.stop());
+		vi.useRealTimers();
+	});
+
+	// Tabs opened 10ms apart, so their ids sort by age
+	function openTab(options: ConstructorParameters<typeof TabCoordinator>[0] = {}): TabCoordinator {
+		vi.advanceTimersByTime(10);
+		const tab = new TabCoordinator({
+			createChannel: () => new FakeChannel(channels),
+			...options
+		});
+		tabs.push(tab);
+		tab.start();
+		return tab;
+	}
+
+	describe('with the Web Locks API', () => {
+		it('makes the tab holding the lock the only leader', async () => {
+			const locks = createLocks();
+			const first = openTab({ locks });
+			const second = openTab({ locks });
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(first.isLeader).toBe(true);
+			expect(second.isLeader).toBe(false);
+		});
+
+		it('hands leadership to a waiting tab when the leader stops', async () => {
+			const locks = createLocks();
+			const first = openTab({ locks });
+			const second = openTab({ locks });
+			const changes: boolean[] = [];
+			second.onLeadershipChange((isLeader) => changes.push(isLeader));
+			await vi.advanceTimersByTimeAsync(0);
+
+			first.stop();
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(first.isLeader).toBe(false);
+			expect(second.isLeader).toBe(true);
+			expect(changes).toEqual([true]);
+		});
+
+		it('withdraws the lock request of a follower that stops', async () => {
+			const locks = createLocks();
+			const first = openTab({ locks });
+			const second = openTab({ locks });
+			const third = openTab({ locks });
+			await vi.advanceTimersByTimeAsync(0);
+
+			second.stop();
+			first.stop();
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(second.isLeader).toBe(false);
+			expect(third.isLeader).toBe(true);
+		});
+	});
+
+	describe('with the BroadcastChannel fallback', () => {
+		it('waits for other tabs before leading', async () => {
+			const tab = openTab({ locks: null, heartbeatInterval: 1000, leaderTimeout: 2500 });
+
+			await vi.advanceTimersByTimeAsync(2400);
+			expect(tab.isLeader).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(tab.isLeader).toBe(true);
+		});
+
+		it('keeps the oldest tab as leader when another tab opens', async () => {
+			const first = openTab({ locks: null });
+			await vi.advanceTimersByTimeAsync(3000);
+			const second = openTab({ locks: null });
+
+			await vi.advanceTimersByTimeAsync(5000);
+
+			expect(first.isLeader).toBe(true);
+			expect(second.isLeader).toBe(false);
+		});
+
+		it('hands leadership over right away when the leader stops', async () => {
+			const first = openTab({ locks: null });
+			await vi.advanceTimersByTimeAsync(3000);
+			const second = openTab({ locks: null });
+			await vi.advanceTimersByTimeAsync(3000);
+
+			first.stop();
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(second.isLeader).toBe(true);
+		});
+
+		it('takes over from a leader that stopped sending heartbeats', async () => {
+			let crashed: FakeChannel | undefined;
+			openTab({
+				locks: null,
+				createChannel: () => (crashed = new FakeChannel(channels))
+			});
+			await vi.advanceTimersByTimeAsync(3000);
+			const second = openTab({ locks: null, heartbeatInterval: 1000, leaderTimeout: 2500 });
+			await vi.advanceTimersByTimeAsync(3000);
+			expect(second.isLeader).toBe(false);
+
+			// The leader tab froze without resigning
+			crashed!.close();
+			await vi.advanceTimersByTimeAsync(2000);
+			expect(second.isLeader).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(2000);
+			expect(second.isLeader).toBe(true);
+		});
+	});
+
+	it('delivers messages to the other tabs only', async () => {
+		const locks = createLocks();
+		const sender = openTab({ locks });
+		const receiver = openTab({ locks });
+		const sent: TabMessage[] = [];
+		const received: Array<[TabMessage, string]> = [];
+		sender.onMessage((message) => sent.push(message));
+		receiver.onMessage((message, tabId) => received.push([message, tabId]));
+
+		sender.broadcast({ type: 'request-state' });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(sent).toEqual([]);
+		expect(received).toEqual([[{ type: 'request-state' }, sender.tabId]]);
+	});
+
+	it('leads right away when there is no way to reach other tabs', () => {
+		const tab = openTab({ locks: null, createChannel: null });
+
+		expect(tab.isLeader).toBe(true);
+	});
+});
@@ -0,0 +1,95 @@
+import type { StorageUploadMetadata } from '../types.js';
+
+// Firebase Storage limit for the keys and values of custom metadata, in UTF-8 bytes
+export const MAX_CUSTOM_METADATA_BYTES = 8192;
+
+const STANDARD_FIELDS = [
+	'contentType',
+	'cacheControl',
+	'contentDisposition',
+	'contentEncoding',
+	'contentLanguage'
+] as const;
+
+/**
+ * Turn arbitrary metadata values into the strings Firebase stores as custom metadata.
+ * Objects are JSON encoded, `null` and `undefined` values are left out.
+ *
+ * @example
+ * ```typescript
+ * toCustomMetadata({ album: 'Summer', year: 2024, tags: ['beach'] });
+ * // { album: 'Summer', year: '2024', tags: '["beach"]' }
+ * ```
+ */
+export function toCustomMetadata(values: Readonly<Record<string, any>>): Record<string, string> {
+	const customMetadata: Record<string, string> = {};
+	for (const [key, value] of Object.entries(values)) {
+		if (value === undefined || value === null) continue;
+		customMetadata[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	}
+	return customMetadata;
+}
+
+/**
+ * Merge upload metadata, later layers winning. Custom metadata is merged key by key
+ * and unset fields don't override earlier layers.
+ */
+export function mergeUploadMetadata(
+	...layers: (StorageUploadMetadata | null | undefined)[]
+): StorageUploadMetadata {
+	const merged: StorageUploadMetadata = {};
+	for (const layer of layers) {
+		if (!layer) continue;
+		for (const field of STANDARD_FIELDS) {
+			if (layer[field] !== undefined) merged[field] = layer[field];
+		}
+		if (layer.customMetadata) {
+			merged.customMetadata = { ...merged.customMetadata, ...layer.customMetadata };
+		}
+	}
+	return merged;
+}
+
+/**
+ * Check upload metadata against what Firebase Storage accepts.
+ *
+ * @returns The problems found, empty when the metadata can be uploaded
+ *
+ * @example
+ * ```typescript
+ * validateUploadMetadata({ customMetadata: { notes: hugeText } });
+ * // ['customMetadata is 9000 bytes, over the 8192-byte limit']
+ * ```
+ */
+export function validateUploadMetadata(metadata: StorageUploadMetadata): string[] {
+	const problems: string[] = [];
+
+	for (const field of STANDARD_FIELDS) {
+		if (metadata[field] !== undefined && typeof metadata[field] !== 'string') {
+			problems.push(`${field} must be a string`);
+		}
+	}
+
+	const customMetadata = metadata.customMetadata;
+	if (customMetadata === undefined) return problems;
+	if (typeof customMetadata !== 'object' || customMetadata === null) {
+		problems.push('customMetadata must be an object of strings');
+		return problems;
+	}
+
+	const encoder = new TextEncoder();
+	let bytes = 0;
+	for (const [key, value] of Object.entries(customMetadata)) {
+		if (typeof value !== 'string') {
+			problems.push(`customMetadata.${key} must be a string`);
+			continue;
+		}
+		bytes += encoder.encode(key).length + encoder.encode(value).length;
+	}
+	if (bytes > MAX_CUSTOM_METADATA_BYTES) {
+		problems.push(
+			`customMetadata is ${bytes} bytes, over the ${MAX_CUSTOM_METADATA_BYTES}-byte limit`
+		);
+	}
+	return problems;
+}
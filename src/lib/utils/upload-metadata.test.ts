@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+	mergeUploadMetadata,
+	toCustomMetadata,
+	validateUploadMetadata
+} from './upload-metadata.svelte.js';
+
+describe('toCustomMetadata', () => {
+	it('turns values into strings and leaves out empty ones', () => {
+		expect(
+			toCustomMetadata({ album: 'Summer', year: 2024, tags: ['beach'], draft: false, note: null })
+		).toEqual({ album: 'Summer', year: '2024', tags: '["beach"]', draft: 'false' });
+	});
+});
+
+describe('mergeUploadMetadata', () => {
+	it('lets later layers win and merges custom metadata by key', () => {
+		const merged = mergeUploadMetadata(
+			{ contentType: 'image/jpeg', cacheControl: 'no-cache', customMetadata: { a: '1', b: '1' } },
+			undefined,
+			{ cacheControl: 'public, max-age=60', contentLanguage: undefined, customMetadata: { b: '2' } }
+		);
+
+		expect(merged).toEqual({
+			contentType: 'image/jpeg',
+			cacheControl: 'public, max-age=60',
+			customMetadata: { a: '1', b: '2' }
+		});
+	});
+});
+
+describe('validateUploadMetadata', () => {
+	it('accepts metadata within the limits', () => {
+		expect(
+			validateUploadMetadata({
+				contentDisposition: 'attachment',
+				customMetadata: { notes: 'x'.repeat(8000) }
+			})
+		).toEqual([]);
+	});
+
+	it('reports custom metadata over 8 KiB and values that are not strings', () => {
+		expect(
+			validateUploadMetadata({
+				cacheControl: 60 as unknown as string,
+				customMetadata: { notes: 'é'.repeat(4100), count: 1 as unknown as string }
+			})
+		).toEqual([
+			'cacheControl must be a string',
+			'customMetadata.count must be a string',
+			'customMetadata is 8205 bytes, over the 8192-byte limit'
+		]);
+	});
+});
@@ -15,24 +15,48 @@ export class UploadResumer {
 	// Create resumable upload state
 	async createResumableUpload(
 		file: File,
-		metadata: Record<string, any> = {}
+		metadata: Record<string, any> = {},
+		storagePath?: string
 	): Promise<ResumableUploadState> {
-		const fileId = this.generateFileId(file);
-		const chunks = this.createChunks(file.size);
+		const state = this.createUploadState(file, metadata, storagePath);
+		await this.saveUploadState(state);
+		return state;
+	}
 
-		const state: ResumableUploadState = {
-			fileId,
+	// Build upload state without saving it
+	createUploadState(
+		file: File,
+		metadata: Record<string, any> = {},
+		storagePath?: string
+	): ResumableUploadState {
+		return {
+			fileId: this.generateFileId(file),
 			fileName: file.name,
 			fileSize: file.size,
+			lastModified: file.lastModified,
 			uploadedBytes: 0,
-			chunks,
+			chunks: this.createChunks(file.size),
 			metadata,
 			createdAt: Date.now(),
-			lastUpdated: Date.now()
+			lastUpdated: Date.now(),
+			storagePath
 		};
+	}
+
+	// Save the resumable session an upload writes to and how many bytes it has committed
+	async recordSession(
+		state: ResumableUploadState,
+		sessionUrl: string,
+		committedBytes: number
+	): Promise<void> {
+		state.sessionUrl = sessionUrl;
+		state.uploadedBytes = committedBytes;
+		state.chunks.forEach((chunk) => {
+			chunk.uploaded = chunk.end <= committedBytes;
+		});
+		state.lastUpdated = Date.now();
 
 		await this.saveUploadState(state);
-		return state;
 	}
 
 	// Resume an interrupted upload
@@ -165,14 +189,16 @@ export class UploadResumer {
 		return results;
 	}
 
-	// Check if upload can be resumed
-	async canResume(file: File): Promise<ResumableUploadState | null> {
+	// Check if upload can be resumed, to storagePath when given
+	async canResume(file: File, storagePath?: string): Promise<ResumableUploadState | null> {
 		const states = await this.getAllUploadStates();
 
 		for (const state of states) {
 			if (
 				state.fileName === file.name &&
 				state.fileSize === file.size &&
+				state.lastModified === file.lastModified &&
+				(storagePath === undefined || state.storagePath === storagePath) &&
 				!this.isUploadComplete(state)
 			) {
 				return state;
@@ -0,0 +1,54 @@
+import type { UploadItem, UploadStatus, UploadStatusChange } from '../types.js';
+
+/**
+ * Allowed status transitions for an upload item.
+ *
+ * - `queued` starts `uploading`, can be held as `paused`, or `failed` before it starts
+ * - `uploading` ends as `completed` or `failed`, is `paused`, or goes back to
+ *   `queued` when a plugin defers it
+ * - `paused` continues `uploading`, goes back to `queued`, or `failed`
+ * - `failed` is `queued` again for a retry
+ * - every unfinished status can be `cancelled`, including `failed` while a retry is pending
+ * - `completed` and `cancelled` are terminal
+ */
+export const UPLOAD_STATUS_TRANSITIONS: Readonly<Record<UploadStatus, readonly UploadStatus[]>> = {
+	queued: ['uploading', 'paused', 'failed', 'cancelled'],
+	uploading: ['completed', 'failed', 'paused', 'queued', 'cancelled'],
+	paused: ['uploading', 'queued', 'failed', 'cancelled'],
+	failed: ['queued', 'cancelled'],
+	completed: [],
+	cancelled: []
+};
+
+export function canTransition(from: UploadStatus, to: UploadStatus): boolean {
+	return UPLOAD_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// First history entry for a newly created item
+export function createStatusHistory(
+	status: UploadStatus = 'queued',
+	timestamp: number = Date.now()
+): UploadStatusChange[] {
+	return [{ status, timestamp }];
+}
+
+/**
+ * Move an item to a new status if the transition is allowed, recording it in
+ * the item's history.
+ *
+ * @returns The previous status, or `null` if the transition was rejected or
+ * the item already had that status
+ */
+export function transitionStatus(item: UploadItem, to: UploadStatus): UploadStatus | null {
+	const from = item.status;
+	if (from === to) return null;
+
+	if (!canTransition(from, to)) {
+		console.warn(`[UploadStateMachine] Invalid status transition ${from} → ${to} for ${item.id}`);
+		return null;
+	}
+
+	item.status = to;
+	item.statusHistory.push({ status: to, timestamp: Date.now() });
+	return from;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { UploadItem } from '../types.js';
+import {
+	canTransition,
+	createStatusHistory,
+	transitionStatus
+} from './upload-state-machine.svelte.js';
+
+function createItem(): UploadItem {
+	const file = new File(['data'], 'data.txt');
+	return {
+		id: 'file-1',
+		file,
+		path: 'uploads/data.txt',
+		metadata: {},
+		priority: 0,
+		status: 'queued',
+		statusHistory: createStatusHistory('queued', 0),
+		progress: 0,
+		uploadedBytes: 0,
+		totalBytes: file.size,
+		error: null,
+		attempts: 0,
+		createdAt: 0
+	};
+}
+
+describe('upload state machine', () => {
+	it('allows the upload lifecycle and retries', () => {
+		expect(canTransition('queued', 'uploading')).toBe(true);
+		expect(canTransition('uploading', 'paused')).toBe(true);
+		expect(canTransition('paused', 'uploading')).toBe(true);
+		expect(canTransition('uploading', 'completed')).toBe(true);
+		expect(canTransition('failed', 'queued')).toBe(true);
+	});
+
+	it('treats completed as terminal', () => {
+		expect(canTransition('completed', 'queued')).toBe(false);
+		expect(canTransition('completed', 'failed')).toBe(false);
+		expect(canTransition('failed', 'completed')).toBe(false);
+	});
+
+	it('records each transition with a timestamp', () => {
+		vi.useFakeTimers({ now: 1000 });
+		const item = createItem();
+
+		expect(transitionStatus(item, 'uploading')).toBe('queued');
+		vi.setSystemTime(2000);
+		expect(transitionStatus(item, 'completed')).toBe('uploading');
+
+		expect(item.status).toBe('completed');
+		expect(item.statusHistory).toEqual([
+			{ status: 'queued', timestamp: 0 },
+			{ status: 'uploading', timestamp: 1000 },
+			{ status: 'completed', timestamp: 2000 }
+		]);
+		vi.useRealTimers();
+	});
+
+	it('rejects invalid transitions without changing the item', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const item = createItem();
+
+		expect(transitionStatus(item, 'completed')).toBeNull();
+		expect(transitionStatus(item, 'queued')).toBeNull();
+
+		expect(item.status).toBe('queued');
+		expect(item.statusHistory).toHaveLength(1);
+		expect(warn).toHaveBeenCalledTimes(1);
+		warn.mockRestore();
+	});
+});